@@ -3,12 +3,53 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { ChatMessage, MessageSender, URLGroup, FileAttachment, ReferenceSource } from './types';
-import { generateContentWithUrlContext, getInitialSuggestions } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage, MessageSender, URLGroup, FileAttachment, ReferenceSource, ContextSource, ChatSession, Persona, GenerationSettings, Obligation, SystemProfile, Milestone, TokenUsage, UsageRecord, UsageAttribution, SkippedSource } from './types';
+import { streamContentWithUrlContext, streamAnswerContinuation, repairBriefingFormat, getInitialSuggestions, countAnswerTokens } from './services/geminiService';
+import { classifyModelError } from './services/modelErrors';
+import { subscribeToModelUsage } from './services/modelProvider';
+import {
+  loadUsageBudget, saveUsageBudget, UsageBudget, addTokenUsage, findModelPricing, estimateCost,
+  spentOnDay, formatCost, ESTIMATED_ANSWER_TOKENS, EXACT_COUNT_BUDGET_SHARE
+} from './services/usage';
 import KnowledgeBaseManager from './components/KnowledgeBaseManager';
 import ChatInterface from './components/ChatInterface';
-import { initDB, saveFileToDB, getAllFilesFromDB, deleteFileFromDB, getFileFromDB, StoredFile } from './utils/db';
+import SourceViewer from './components/SourceViewer';
+import SessionList from './components/SessionList';
+import PersonaManager from './components/PersonaManager';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
+import ObligationChecklist from './components/ObligationChecklist';
+import RiskClassifierPanel from './components/RiskClassifierPanel';
+import TimelineView from './components/TimelineView';
+import VersionDiffView from './components/VersionDiffView';
+import SnapshotDiffView from './components/SnapshotDiffView';
+import UsageDashboard from './components/UsageDashboard';
+import { isSourceIncluded, isRetrievable, base64ByteLength, estimateTokens, estimateContextSourceTokens } from './utils/contextBudget';
+import { indexStoredFile, removeSourceIndex, retrieveRelevantChunks } from './services/documentIndex';
+import { findDocumentLoader, SUPPORTED_DOCUMENT_LABEL } from './utils/documentLoaders';
+import { buildBriefingMemo, exportBriefingMemo, ExportFormat } from './utils/briefingExport';
+import { parseBriefingAnswer } from './utils/briefingFormat';
+import {
+  BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, loadCustomPersonas, saveCustomPersonas,
+  loadActivePersonaId, saveActivePersonaId, resolvePersona
+} from './services/personas';
+import { loadGenerationSettings, saveGenerationSettings } from './services/generationSettings';
+import { compareJurisdictions, comparisonToMarkdown } from './services/comparison';
+import { extractObligationsForSource, exportObligationsCsv } from './services/obligations';
+import { extractMilestonesForSource, exportMilestonesIcs } from './services/timeline';
+import { classifySystem, classificationRetrievalQuery, librarySignature } from './services/riskClassification';
+import {
+  loadFetchProxyUrl, saveFetchProxyUrl, snapshotUrlSource, recheckUrlSource,
+  acceptPendingSnapshot, discardPendingSnapshot, removeUrlSnapshots
+} from './services/urlSnapshots';
+import {
+  initDB, saveFileToDB, getAllFilesFromDB, deleteFileFromDB, getFileFromDB, StoredFile,
+  saveSessionToDB, getAllSessionsFromDB, deleteSessionFromDB,
+  getAllObligationsFromDB, saveObligationsToDB, deleteObligationsForSourceFromDB,
+  getAllSystemProfilesFromDB, saveSystemProfileToDB, deleteSystemProfileFromDB,
+  getAllMilestonesFromDB, saveMilestonesToDB, deleteMilestoneFromDB, deleteMilestonesForSourceFromDB,
+  saveUsageRecordToDB, getAllUsageRecordsFromDB
+} from './utils/db';
 
 const INITIAL_URL_GROUPS: URLGroup[] = [
   { 
@@ -20,6 +61,63 @@ const INITIAL_URL_GROUPS: URLGroup[] = [
 
 const STORAGE_KEY = 'ai_reg_navigator_sources_v2'; // Bumped version for new schema
 
+interface LibraryContext {
+  sources: ContextSource[];
+  skipped: SkippedSource[];
+}
+
+// The previous question helps retrieval for follow-ups
+const libraryRetrievalQuery = (query: string, history: ChatMessage[]): string => {
+  const previousQuestion = [...history].reverse().find(m => m.sender === MessageSender.USER)?.text || '';
+  return `${query}\n${previousQuestion}`;
+};
+
+// Answering without the library would look like a normal answer, so the question is not sent
+const libraryErrorChanges = (error: unknown): Partial<ChatMessage> => ({
+  text: `The library documents could not be loaded for this question, so it was not sent. ${error instanceof Error ? error.message : ''}`.trim(),
+  isLoading: false,
+  isError: true,
+  errorKind: 'unknown',
+});
+
+const estimateSourcesTokens = (sources: ContextSource[]): number =>
+  sources.reduce((sum, source) => sum + estimateContextSourceTokens(source), 0);
+
+const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const createWelcomeMessage = (): ChatMessage => ({
+  id: 'system-welcome',
+  text: "Greetings. I am your Regulatory Envoy. Please upload your regulatory documents (PDF, Word, HTML, Markdown or text) to the library on the left. They will be securely stored for our briefing sessions.",
+  sender: MessageSender.SYSTEM,
+  timestamp: new Date(),
+});
+
+// Default session title: the opening question, shortened for the sidebar.
+const deriveSessionTitle = (messages: ChatMessage[]): string => {
+  const firstQuestion = messages.find(m => m.sender === MessageSender.USER)?.text.trim();
+  if (!firstQuestion) return 'Untitled briefing';
+  return firstQuestion.length > 60 ? `${firstQuestion.slice(0, 57)}...` : firstQuestion;
+};
+
+// Later versions of removed sources are re-pointed at the removed source's own predecessor
+const relinkVersionsAfterRemoval = (groups: URLGroup[], removed: ReferenceSource[]): URLGroup[] => {
+  const resolve = (id: string | undefined): string | undefined => {
+    const visited = new Set<string>();
+    while (id && !visited.has(id)) {
+      const removedSource = removed.find(s => s.id === id);
+      if (!removedSource) return id;
+      visited.add(id);
+      id = removedSource.previousVersionId;
+    }
+    return undefined;
+  };
+  if (removed.length === 0) return groups;
+  return groups.map(g => ({
+    ...g,
+    sources: g.sources.map(s => removed.some(r => r.id === s.previousVersionId) ? { ...s, previousVersionId: resolve(s.previousVersionId) } : s)
+  }));
+};
+
 const App: React.FC = () => {
   // Initialize state
   const [urlGroups, setUrlGroups] = useState<URLGroup[]>(INITIAL_URL_GROUPS);
@@ -27,9 +125,43 @@ const App: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string>(createSessionId);
   const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Failed answers, keyed by message id, that can be sent again with the same query and context
+  const [retryActions, setRetryActions] = useState<Record<string, () => void>>({});
+  // Answers cut off at the output token limit, keyed by message id, that can be continued
+  const [continueActions, setContinueActions] = useState<Record<string, () => void>>({});
   const [isFetchingSuggestions, setIsFetchingSuggestions] = useState(false);
   const [initialQuerySuggestions, setInitialQuerySuggestions] = useState<string[]>([]);
+  const [viewedCitation, setViewedCitation] = useState<{ source: ReferenceSource; page?: number } | null>(null);
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(loadCustomPersonas);
+  const [activePersonaId, setActivePersonaId] = useState<string>(loadActivePersonaId);
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [obligations, setObligations] = useState<Obligation[]>([]);
+  const [extractingSourceIds, setExtractingSourceIds] = useState<string[]>([]);
+  const [isChecklistOpen, setIsChecklistOpen] = useState(false);
+  const [systemProfiles, setSystemProfiles] = useState<SystemProfile[]>([]);
+  const [classifyingProfileIds, setClassifyingProfileIds] = useState<string[]>([]);
+  const [isClassifierOpen, setIsClassifierOpen] = useState(false);
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [extractingMilestoneSourceIds, setExtractingMilestoneSourceIds] = useState<string[]>([]);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [versionComparison, setVersionComparison] = useState<{ older: ReferenceSource; newer: ReferenceSource } | null>(null);
+  const [fetchProxyUrl, setFetchProxyUrl] = useState<string>(loadFetchProxyUrl);
+  const [checkingSourceIds, setCheckingSourceIds] = useState<string[]>([]);
+  const [snapshotDiffSourceId, setSnapshotDiffSourceId] = useState<string | null>(null);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget>(loadUsageBudget);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  // Model calls are charged to the session and group open when they are made, not when they finish
+  const usageAttribution: UsageAttribution = { sessionId: activeSessionId, groupId: activeUrlGroupId };
+  // Read by the usage listener, which is subscribed once, for calls made without an attribution
+  const usageAttributionRef = useRef(usageAttribution);
+  usageAttributionRef.current = usageAttribution;
   
   const MAX_ITEMS = 50;
 
@@ -68,14 +200,40 @@ const App: React.FC = () => {
                  id: file.id,
                  type: 'file',
                  title: file.name,
-                 mimeType: file.mimeType
+                 mimeType: file.mimeType,
+                 sizeBytes: base64ByteLength(file.data)
                });
              }
           });
-          
-          return newGroups;
+
+          // Backfill sizes for sources saved before sizes were tracked
+          return newGroups.map(g => ({
+            ...g,
+            sources: g.sources.map(s => {
+              if (s.type !== 'file' || s.sizeBytes !== undefined) return s;
+              const dbFile = dbFiles.find(f => f.id === s.id);
+              return dbFile ? { ...s, sizeBytes: base64ByteLength(dbFile.data) } : s;
+            })
+          }));
         });
 
+        // Resume the most recent briefing, if any
+        const savedSessions = await getAllSessionsFromDB();
+        setSessions(savedSessions);
+        if (savedSessions.length > 0) {
+          const latest = savedSessions[0];
+          setActiveSessionId(latest.id);
+          setChatMessages(latest.messages);
+          if (groups.some(g => g.id === latest.groupId)) {
+            setActiveUrlGroupId(latest.groupId);
+          }
+        }
+
+        setObligations(await getAllObligationsFromDB());
+        setSystemProfiles(await getAllSystemProfilesFromDB());
+        setMilestones(await getAllMilestonesFromDB());
+        setUsageRecords(await getAllUsageRecordsFromDB());
+
       } catch (e) {
         console.error("Failed to initialize storage", e);
       }
@@ -93,8 +251,72 @@ const App: React.FC = () => {
     }
   }, [urlGroups]);
 
+  useEffect(() => {
+    saveCustomPersonas(customPersonas);
+  }, [customPersonas]);
+
+  useEffect(() => {
+    saveActivePersonaId(activePersonaId);
+  }, [activePersonaId]);
+
+  useEffect(() => {
+    saveGenerationSettings(generationSettings);
+  }, [generationSettings]);
+
+  useEffect(() => {
+    saveFetchProxyUrl(fetchProxyUrl);
+  }, [fetchProxyUrl]);
+
+  useEffect(() => {
+    saveUsageBudget(usageBudget);
+  }, [usageBudget]);
+
+  // Every model call that reports tokens goes into the ledger behind the usage dashboard
+  useEffect(() => subscribeToModelUsage(({ provider, model, usage, attribution }) => {
+    const record: UsageRecord = {
+      id: `usage-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date(),
+      ...(attribution || usageAttributionRef.current),
+      provider,
+      model,
+      ...usage,
+    };
+    setUsageRecords(prev => [...prev, record]);
+    saveUsageRecordToDB(record).catch(e => console.error("Failed to save usage record", e));
+  }), []);
+
+  // Persist the active conversation once it has settled (not on every streamed chunk)
+  useEffect(() => {
+    const hasConversation = chatMessages.some(m => m.sender !== MessageSender.SYSTEM);
+    const isPending = chatMessages.some(m => m.isLoading || m.isStreaming);
+    if (!hasConversation || isPending) return;
+
+    const existing = sessions.find(s => s.id === activeSessionId);
+    // Nothing changed, e.g. the session was just resumed
+    if (existing && existing.messages === chatMessages) return;
+
+    const now = new Date();
+    const session: ChatSession = {
+      id: activeSessionId,
+      title: existing?.title || deriveSessionTitle(chatMessages),
+      groupId: activeUrlGroupId,
+      messages: chatMessages,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    setSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+    saveSessionToDB(session).catch(e => console.error("Failed to save session", e));
+  }, [chatMessages]);
+
   const activeGroup = urlGroups.find(g => g.id === activeUrlGroupId) || urlGroups[0];
   const activeSources = activeGroup.sources;
+  // Comparison answers cite documents from several groups, so chips resolve against the whole library
+  const librarySources = urlGroups.flatMap(g => g.sources);
+  const allPersonas = [...BUILT_IN_PERSONAS, ...customPersonas];
+  const activePersona = resolvePersona(activePersonaId, customPersonas);
+  // Only shown while the source still has a snapshot waiting for review
+  const snapshotDiffSource = librarySources.find(s => s.id === snapshotDiffSourceId && s.snapshot?.pendingSnapshotId);
 
   const handleAddSource = (url: string) => {
     const newSource: ReferenceSource = {
@@ -110,9 +332,75 @@ const App: React.FC = () => {
       }
       return group;
     }));
+    // Without a snapshot the page is still read live by the model, so a failure is not fatal
+    fetchUrlSource(newSource, false);
+  };
+
+  const applySourceChanges = (sourceId: string, changes: Partial<ReferenceSource>) => {
+    setUrlGroups(prevGroups => prevGroups.map(group => ({
+      ...group,
+      sources: group.sources.map(s => s.id === sourceId ? { ...s, ...changes } : s)
+    })));
+  };
+
+  // Takes the first snapshot of a URL source, or re-checks it against the current one
+  const fetchUrlSource = async (source: ReferenceSource, reportErrors: boolean) => {
+    if (checkingSourceIds.includes(source.id)) return;
+
+    setCheckingSourceIds(prev => [...prev, source.id]);
+    try {
+      if (!source.snapshot) {
+        const { snapshot, textIndex, pageTitle } = await snapshotUrlSource(source, fetchProxyUrl);
+        applySourceChanges(source.id, { snapshot, textIndex, ...(pageTitle && source.title === source.url ? { title: pageTitle } : {}) });
+      } else {
+        const { snapshot, changed } = await recheckUrlSource(source, fetchProxyUrl);
+        applySourceChanges(source.id, { snapshot });
+        if (changed) setSnapshotDiffSourceId(source.id);
+      }
+    } catch (e) {
+      console.error(`Failed to fetch ${source.url}`, e);
+      if (reportErrors) alert(e instanceof Error ? e.message : "Failed to fetch the page.");
+    } finally {
+      setCheckingSourceIds(prev => prev.filter(id => id !== source.id));
+    }
+  };
+
+  const handleCheckUrlSource = (sourceId: string) => {
+    const source = librarySources.find(s => s.id === sourceId);
+    if (source?.type === 'url') fetchUrlSource(source, true);
+  };
+
+  const handleAcceptSnapshot = async (sourceId: string) => {
+    const source = librarySources.find(s => s.id === sourceId);
+    if (!source) return;
+    try {
+      const { snapshot, textIndex } = await acceptPendingSnapshot(source);
+      applySourceChanges(sourceId, { snapshot, textIndex });
+    } catch (e) {
+      console.error(`Failed to accept the new snapshot of ${sourceId}`, e);
+      alert(e instanceof Error ? e.message : "Failed to update the snapshot.");
+    }
+  };
+
+  const handleDiscardSnapshot = async (sourceId: string) => {
+    const source = librarySources.find(s => s.id === sourceId);
+    if (!source) return;
+    try {
+      applySourceChanges(sourceId, { snapshot: await discardPendingSnapshot(source) });
+    } catch (e) {
+      console.error(`Failed to discard the new snapshot of ${sourceId}`, e);
+    }
   };
 
   const handleAddPersistentFile = async (file: File) => {
+    const loader = findDocumentLoader({ name: file.name, mimeType: file.type });
+    if (!loader) {
+      alert(`"${file.name}" is not a supported document. Supported formats: ${SUPPORTED_DOCUMENT_LABEL}.`);
+      return;
+    }
+    // Browsers report an empty type for some formats (e.g. .md), so normalise it
+    const mimeType = loader.mimeTypes.includes(file.type) ? file.type : loader.mimeTypes[0];
+
     try {
       const base64 = await fileToBase64(file);
       const id = `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -120,7 +408,7 @@ const App: React.FC = () => {
       const storedFile: StoredFile = {
         id,
         name: file.name,
-        mimeType: file.type,
+        mimeType,
         data: base64,
         date: new Date()
       };
@@ -128,12 +416,22 @@ const App: React.FC = () => {
       // Save to IndexedDB
       await saveFileToDB(storedFile);
 
+      // Extract and chunk the text for retrieval; without it the file is sent inline
+      let textIndex: ReferenceSource['textIndex'];
+      try {
+        textIndex = await indexStoredFile(storedFile);
+      } catch (e) {
+        console.error(`Failed to extract text from ${file.name}`, e);
+      }
+
       // Add to State (Metadata only)
       const newSource: ReferenceSource = {
         id,
         type: 'file',
         title: file.name,
-        mimeType: file.type
+        mimeType,
+        sizeBytes: file.size,
+        textIndex
       };
 
       setUrlGroups(prevGroups => prevGroups.map(group => {
@@ -162,6 +460,21 @@ const App: React.FC = () => {
     });
   };
 
+  // Drops a stored file together with everything derived from it
+  const removeStoredFile = async (fileId: string) => {
+    await deleteFileFromDB(fileId);
+    await removeSourceIndex(fileId);
+    await deleteObligationsForSourceFromDB(fileId);
+    setObligations(prev => prev.filter(o => o.sourceId !== fileId));
+    await deleteMilestonesForSourceFromDB(fileId);
+    setMilestones(prev => prev.filter(m => m.sourceId !== fileId));
+  };
+
+  const removeStoredUrl = async (sourceId: string) => {
+    await removeUrlSnapshots(sourceId);
+    await removeSourceIndex(sourceId);
+  };
+
   const handleRemoveSource = async (sourceId: string) => {
     // Check if it's a file, if so delete from DB
     const group = urlGroups.find(g => g.sources.some(s => s.id === sourceId));
@@ -169,14 +482,107 @@ const App: React.FC = () => {
 
     if (source && source.type === 'file') {
       try {
-        await deleteFileFromDB(sourceId);
+        await removeStoredFile(sourceId);
       } catch (e) {
         console.error("Error deleting file from DB", e);
       }
+    } else if (source && source.type === 'url') {
+      try {
+        await removeStoredUrl(sourceId);
+      } catch (e) {
+        console.error("Error deleting URL snapshots from DB", e);
+      }
     }
 
-    setUrlGroups(prevGroups => prevGroups.map(g => {
+    setUrlGroups(prevGroups => relinkVersionsAfterRemoval(prevGroups.map(g => {
         return { ...g, sources: g.sources.filter(s => s.id !== sourceId) };
+    }), source ? [source] : []));
+  };
+
+  const handleCreateGroup = (name: string) => {
+    const newGroup: URLGroup = {
+      id: `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      sources: []
+    };
+    setUrlGroups(prevGroups => [...prevGroups, newGroup]);
+    setActiveUrlGroupId(newGroup.id);
+  };
+
+  const handleRenameGroup = (groupId: string, newName: string) => {
+    setUrlGroups(prevGroups => prevGroups.map(g => g.id === groupId ? { ...g, name: newName } : g));
+  };
+
+  const handleDeleteGroup = async (groupId: string) => {
+    const group = urlGroups.find(g => g.id === groupId);
+    const remainingGroups = urlGroups.filter(g => g.id !== groupId);
+    if (!group || remainingGroups.length === 0) return;
+
+    // Only drop stored data that no other group still references
+    const orphanedSources = group.sources.filter(source => !remainingGroups.some(g => g.sources.some(s => s.id === source.id)));
+
+    for (const source of orphanedSources) {
+      try {
+        await (source.type === 'file' ? removeStoredFile(source.id) : removeStoredUrl(source.id));
+      } catch (e) {
+        console.error(`Error deleting ${source.id} from DB`, e);
+      }
+    }
+
+    setUrlGroups(relinkVersionsAfterRemoval(remainingGroups, orphanedSources));
+    if (activeUrlGroupId === groupId) {
+      setActiveUrlGroupId(remainingGroups[0].id);
+    }
+  };
+
+  const handleMoveSource = (sourceId: string, targetGroupId: string) => {
+    const source = activeGroup.sources.find(s => s.id === sourceId);
+    if (!source || targetGroupId === activeGroup.id) return;
+
+    setUrlGroups(prevGroups => prevGroups.map(group => {
+      if (group.id === activeGroup.id) {
+        return { ...group, sources: group.sources.filter(s => s.id !== sourceId) };
+      }
+      if (group.id === targetGroupId && !group.sources.some(s => s.id === sourceId)) {
+        return { ...group, sources: [...group.sources, source] };
+      }
+      return group;
+    }));
+  };
+
+  const handleSetPreviousVersion = (sourceId: string, previousVersionId: string | undefined) => {
+    setUrlGroups(prevGroups => prevGroups.map(group => ({
+      ...group,
+      sources: group.sources.map(s => s.id === sourceId ? { ...s, previousVersionId } : s)
+    })));
+  };
+
+  const handleCompareVersions = (sourceId: string) => {
+    const newer = librarySources.find(s => s.id === sourceId);
+    const older = newer?.previousVersionId ? librarySources.find(s => s.id === newer.previousVersionId) : undefined;
+    if (newer && older) {
+      setVersionComparison({ older, newer });
+    }
+  };
+
+  const handleSourceIndexed = (sourceId: string, textIndex: ReferenceSource['textIndex']) => {
+    setUrlGroups(prevGroups => prevGroups.map(group => ({
+      ...group,
+      sources: group.sources.map(s => s.id === sourceId ? { ...s, textIndex } : s)
+    })));
+  };
+
+  const handleToggleSourceIncluded = (sourceId: string, included: boolean) => {
+    setUrlGroups(prevGroups => prevGroups.map(group => ({
+      ...group,
+      sources: group.sources.map(s => s.id === sourceId ? { ...s, includeInContext: included } : s)
+    })));
+  };
+
+  const handleSetAllSourcesIncluded = (included: boolean) => {
+    setUrlGroups(prevGroups => prevGroups.map(group => {
+      if (group.id !== activeUrlGroupId) return group;
+      return { ...group, sources: group.sources.map(s => ({ ...s, includeInContext: included })) };
     }));
   };
 
@@ -189,85 +595,632 @@ const App: React.FC = () => {
     }));
   };
 
-  const handleSendMessage = async (query: string, tempAttachments: FileAttachment[]) => {
-    setIsLoading(true);
+  const handleOpenCitation = (source: ReferenceSource, page?: number) => {
+    if (source.type === 'url' && source.url) {
+      window.open(source.url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    setViewedCitation({ source, page });
+  };
+
+  const handleExtractObligations = async (sourceId: string) => {
+    const source = urlGroups.flatMap(g => g.sources).find(s => s.id === sourceId);
+    if (!source || extractingSourceIds.includes(sourceId)) return;
+
+    setExtractingSourceIds(prev => [...prev, sourceId]);
+    try {
+      const extracted = await extractObligationsForSource(source, { settings: generationSettings, attribution: usageAttribution });
+      setObligations(prev => [...prev.filter(o => o.sourceId !== sourceId), ...extracted]);
+      setIsChecklistOpen(true);
+    } catch (e) {
+      console.error(`Failed to extract obligations from ${sourceId}`, e);
+      alert(e instanceof Error ? e.message : "Failed to extract obligations.");
+    } finally {
+      setExtractingSourceIds(prev => prev.filter(id => id !== sourceId));
+    }
+  };
+
+  const handleUpdateObligation = (id: string, changes: Partial<Pick<Obligation, 'status' | 'notes'>>) => {
+    const obligation = obligations.find(o => o.id === id);
+    if (!obligation) return;
+    const updated = { ...obligation, ...changes, updatedAt: new Date() };
+    setObligations(prev => prev.map(o => o.id === id ? updated : o));
+    saveObligationsToDB([updated]).catch(e => console.error("Failed to save obligation", e));
+  };
+
+  const handleExtractMilestones = async (sourceId: string) => {
+    const source = librarySources.find(s => s.id === sourceId);
+    if (!source || extractingMilestoneSourceIds.includes(sourceId)) return;
+
+    setExtractingMilestoneSourceIds(prev => [...prev, sourceId]);
+    try {
+      const extracted = await extractMilestonesForSource(source, { settings: generationSettings, attribution: usageAttribution });
+      setMilestones(prev => [...prev.filter(m => m.sourceId !== sourceId), ...extracted]);
+    } catch (e) {
+      console.error(`Failed to extract milestones from ${sourceId}`, e);
+      alert(e instanceof Error ? e.message : "Failed to extract milestones.");
+    } finally {
+      setExtractingMilestoneSourceIds(prev => prev.filter(id => id !== sourceId));
+    }
+  };
+
+  const handleUpdateMilestone = (id: string, changes: Partial<Pick<Milestone, 'date' | 'title' | 'description' | 'article' | 'status'>>) => {
+    const milestone = milestones.find(m => m.id === id);
+    if (!milestone) return;
+    const updated = { ...milestone, ...changes, updatedAt: new Date() };
+    setMilestones(prev => prev.map(m => m.id === id ? updated : m));
+    saveMilestonesToDB([updated]).catch(e => console.error("Failed to save milestone", e));
+  };
 
-    // 1. Gather Context
-    const urls: string[] = [];
-    const filesToSend: FileAttachment[] = [...tempAttachments];
+  const handleDeleteMilestone = (id: string) => {
+    setMilestones(prev => prev.filter(m => m.id !== id));
+    deleteMilestoneFromDB(id).catch(e => console.error("Failed to delete milestone", e));
+  };
+
+  const storeSystemProfile = (profile: SystemProfile) => {
+    setSystemProfiles(prev => [profile, ...prev.filter(p => p.id !== profile.id)]);
+    saveSystemProfileToDB(profile).catch(e => console.error("Failed to save system profile", e));
+  };
 
-    // 2. Fetch Persisted Files from DB for active sources
-    for (const source of activeSources) {
-      if (source.type === 'url' && source.url) {
-        urls.push(source.url);
+  // Saves the profile, then classifies it against every included library source.
+  const handleClassifySystem = async (profile: SystemProfile) => {
+    if (classifyingProfileIds.includes(profile.id)) return;
+    storeSystemProfile(profile);
+
+    setClassifyingProfileIds(prev => [...prev, profile.id]);
+    try {
+      const sources = librarySources.filter(isSourceIncluded);
+      const { sources: contextSources, skipped } = await gatherLibraryContext(sources, classificationRetrievalQuery(profile), false);
+      const classification = await classifySystem(profile, contextSources, librarySignature(librarySources), { settings: generationSettings, attribution: usageAttribution });
+      storeSystemProfile({ ...profile, classification: { ...classification, skippedSources: skipped.length > 0 ? skipped : undefined }, updatedAt: new Date() });
+    } catch (e) {
+      console.error(`Failed to classify system ${profile.id}`, e);
+      alert(e instanceof Error ? e.message : "Failed to classify the system.");
+    } finally {
+      setClassifyingProfileIds(prev => prev.filter(id => id !== profile.id));
+    }
+  };
+
+  const handleDeleteSystemProfile = (profileId: string) => {
+    setSystemProfiles(prev => prev.filter(p => p.id !== profileId));
+    deleteSystemProfileFromDB(profileId).catch(e => console.error("Failed to delete system profile", e));
+  };
+
+  /**
+   * Loads library sources for a query: indexed documents and snapshotted URLs
+   * as retrieved passages, other URLs as references, and the rest inline where
+   * the format allows it. Files that can be sent none of these ways come back as
+   * skipped, so the answer can say it did not consult them. JSON-mode requests
+   * (comparison, classification) cannot use the URL context tool, so for them
+   * URLs without a snapshot are skipped too rather than sent as bare addresses.
+   */
+  const gatherLibraryContext = async (librarySources: ReferenceSource[], retrievalQuery: string, readsLiveUrls = true): Promise<LibraryContext> => {
+    const contextSources: ContextSource[] = [];
+    const skipped: SkippedSource[] = [];
+    const skip = (source: ReferenceSource, reason: string) => skipped.push({ id: source.id, title: source.title, type: source.type, reason });
+    const indexedSourceIds: string[] = [];
+    for (const source of librarySources) {
+      if (source.type === 'url' && isRetrievable(source)) {
+        indexedSourceIds.push(source.id);
+      } else if (source.type === 'url' && source.url && !readsLiveUrls) {
+        skip(source, 'The page has no snapshot, and comparisons and classifications cannot read live pages. Snapshot it to include it.');
+      } else if (source.type === 'url' && source.url) {
+        contextSources.push({ id: source.id, type: 'url', title: source.title, url: source.url });
       } else if (source.type === 'file') {
         try {
           const dbFile = await getFileFromDB(source.id);
-          if (dbFile) {
-            filesToSend.push({
-              name: source.title, // Use the renamed title if applicable
+          if (!dbFile) {
+            skip(source, 'The file is missing from this browser\'s storage.');
+            continue;
+          }
+
+          const loader = findDocumentLoader({ name: dbFile.name, mimeType: dbFile.mimeType });
+          let textIndex = source.textIndex;
+          // Files added before text extraction existed are indexed on first use
+          if (!textIndex && loader) {
+            try {
+              textIndex = await indexStoredFile(dbFile);
+              handleSourceIndexed(source.id, textIndex);
+            } catch (e) {
+              console.error(`Failed to index file ${source.id}`, e);
+            }
+          }
+
+          if (textIndex && isRetrievable({ ...source, textIndex })) {
+            indexedSourceIds.push(source.id);
+            continue;
+          }
+          // Only formats Gemini reads natively can fall back to being sent whole
+          if (!loader?.sendsInline) {
+            skip(source, 'No text could be extracted, and the model cannot read this format directly.');
+            continue;
+          }
+
+          contextSources.push({
+            id: source.id,
+            type: 'file',
+            title: source.title, // Use the renamed title if applicable
+            file: {
+              name: source.title,
               mimeType: dbFile.mimeType,
               data: dbFile.data
-            });
-          }
+            }
+          });
         } catch (e) {
           console.error(`Failed to load file ${source.id}`, e);
+          skip(source, 'The file could not be loaded.');
         }
       }
     }
-    
-    // Create User Message
+
+    // Select the passages most relevant to the query
+    if (indexedSourceIds.length > 0) {
+      const retrieved = await retrieveRelevantChunks(retrievalQuery, indexedSourceIds);
+      indexedSourceIds.forEach(sourceId => {
+        const source = librarySources.find(s => s.id === sourceId)!;
+        contextSources.push({ id: source.id, type: source.type, title: source.title, url: source.url, chunks: retrieved.get(sourceId) || [] });
+      });
+    }
+
+    return { sources: contextSources, skipped };
+  };
+
+  // Resolves to false when the question was not sent, so the input keeps it
+  const handleSendMessage = async (query: string, tempAttachments: FileAttachment[]): Promise<boolean> => {
+    setIsLoading(true);
+
+    const userMessageId = Date.now().toString();
+    const placeholderMessageId = (Date.now() + 1).toString();
+    const persona = activePersona;
+    const settings = generationSettings;
+
     const userMessage: ChatMessage = {
-      id: Date.now().toString(),
+      id: userMessageId,
       text: query,
       sender: MessageSender.USER,
       timestamp: new Date(),
-      attachments: tempAttachments // Only show temp attachments in bubble? Or all? Usually just what user "sent" this turn.
+      attachments: tempAttachments, // Only show temp attachments in bubble? Or all? Usually just what user "sent" this turn.
+      personaId: persona.id
     };
 
+    // 1. Gather Context: one-off attachments get turn-scoped ids so they can be cited too
+    const contextSources: ContextSource[] = tempAttachments.map((file, idx) => ({
+      id: `attachment-${userMessageId}-${idx}`,
+      type: 'file',
+      title: file.name,
+      file
+    }));
+
+    // 2. Library sources switched on for this query
+    let skippedSources: SkippedSource[] = [];
+    try {
+      const libraryContext = await gatherLibraryContext(activeSources.filter(isSourceIncluded), libraryRetrievalQuery(query, chatMessages));
+      contextSources.push(...libraryContext.sources);
+      skippedSources = libraryContext.skipped;
+    } catch (e) {
+      console.error("Failed to load the library context", e);
+      setChatMessages(prev => [...prev, userMessage, {
+        id: placeholderMessageId,
+        text: '',
+        sender: MessageSender.MODEL,
+        timestamp: new Date(),
+        personaId: persona.id,
+        generationSettings: settings,
+        ...libraryErrorChanges(e)
+      }]);
+      registerRetry(placeholderMessageId, () => runLibraryAnswer(query, contextSources, chatMessages, persona, settings, placeholderMessageId));
+      setIsLoading(false);
+      return true;
+    }
+
+    const estimatedPromptTokens = estimateTokens([persona.instructions, ...chatMessages.map(m => m.text), query].join('\n'))
+      + estimateSourcesTokens(contextSources);
+    const countPromptTokens = async () => [await countAnswerTokens(query, contextSources, chatMessages, { persona, settings })];
+    if (!await confirmWithinBudget(settings, [estimatedPromptTokens], countPromptTokens)) {
+      setIsLoading(false);
+      return false;
+    }
+
     setChatMessages(prev => [...prev, userMessage]);
 
     // Create placeholder
-    const placeholderMessageId = (Date.now() + 1).toString();
     const placeholderMessage: ChatMessage = {
       id: placeholderMessageId,
       text: '',
       sender: MessageSender.MODEL,
       timestamp: new Date(),
       isLoading: true,
+      personaId: persona.id,
+      generationSettings: settings,
+      skippedSources: skippedSources.length > 0 ? skippedSources : undefined,
     };
     setChatMessages(prev => [...prev, placeholderMessage]);
 
+    runAnswer(query, contextSources, chatMessages, persona, settings, placeholderMessageId);
+    return true;
+  };
+
+  /**
+   * With a daily budget set, asks whether to go ahead when today's spend plus
+   * the model calls a query makes would pass the budget. Prompts are estimated
+   * locally; only a query that may come close is counted exactly, which costs a
+   * round trip (and, behind the API server, a rate limit slot). Models without
+   * a price never block a query.
+   */
+  const confirmWithinBudget = async (
+    settings: GenerationSettings,
+    estimatedPromptTokens: number[],
+    countPromptTokens?: () => Promise<number[]>
+  ): Promise<boolean> => {
+    const pricing = findModelPricing(settings.provider || 'gemini', settings.model);
+    if (usageBudget.dailyLimitUsd <= 0 || !pricing) return true;
+
+    // Each call is priced on its own, as the long-context rate applies per call
+    const costOf = (promptTokens: number[]) => promptTokens.reduce(
+      (sum, tokens) => sum + estimateCost({ promptTokens: tokens, candidatesTokens: ESTIMATED_ANSWER_TOKENS, thinkingTokens: 0 }, pricing),
+      0
+    );
+    const remaining = usageBudget.dailyLimitUsd - spentOnDay(usageRecords);
+    let promptTokens = estimatedPromptTokens;
+    if (costOf(promptTokens) < remaining * EXACT_COUNT_BUDGET_SHARE) return true;
+
+    // Already over budget: the estimate is enough to ask
+    if (remaining > 0 && countPromptTokens) {
+      try {
+        promptTokens = await countPromptTokens();
+      } catch (e) {
+        // The estimate stands in for the count
+        console.error("Failed to count tokens before sending", e);
+      }
+    }
+    const queryCost = costOf(promptTokens);
+    if (queryCost <= remaining) return true;
+    const calls = promptTokens.length > 1 ? ` over ${promptTokens.length} model calls` : '';
+    return window.confirm(
+      `This query sends about ${promptTokens.reduce((sum, tokens) => sum + tokens, 0).toLocaleString()} tokens${calls} and will cost roughly ${formatCost(queryCost)}. ` +
+      `Together with the ${formatCost(usageBudget.dailyLimitUsd - remaining)} already spent today, that is over your daily budget of ${formatCost(usageBudget.dailyLimitUsd)}.\n\nSend it anyway?`
+    );
+  };
+
+
+  // Retry for a question whose library documents could not be loaded: gathers them again, then answers in place
+  const runLibraryAnswer = async (
+    query: string,
+    attachmentSources: ContextSource[],
+    history: ChatMessage[],
+    persona: Persona,
+    settings: GenerationSettings,
+    placeholderMessageId: string
+  ) => {
+    setIsLoading(true);
+    let libraryContext: LibraryContext;
+    try {
+      libraryContext = await gatherLibraryContext(activeSources.filter(isSourceIncluded), libraryRetrievalQuery(query, history));
+    } catch (e) {
+      console.error("Failed to load the library context", e);
+      updateMessage(placeholderMessageId, libraryErrorChanges(e));
+      registerRetry(placeholderMessageId, () => runLibraryAnswer(query, attachmentSources, history, persona, settings, placeholderMessageId));
+      setIsLoading(false);
+      return;
+    }
+
+    updateMessage(placeholderMessageId, { skippedSources: libraryContext.skipped.length > 0 ? libraryContext.skipped : undefined });
+    await runAnswer(query, [...attachmentSources, ...libraryContext.sources], history, persona, settings, placeholderMessageId);
+  };
+
+  const updateMessage = (messageId: string, changes: Partial<ChatMessage>) => {
+    setChatMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, ...changes } : msg));
+  };
+
+  // Continuations add to the tokens of the answer they extend
+  const addMessageUsage = (messageId: string, usage: TokenUsage) => {
+    setChatMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, usage: addTokenUsage(msg.usage, usage) } : msg));
+  };
+
+  // Keeps a way to re-run a failed turn in place; the closure holds the query and context it was sent with
+  const registerRetry = (messageId: string, run: () => Promise<void>) => {
+    setRetryActions(prev => ({
+      ...prev,
+      [messageId]: () => {
+        setRetryActions(({ [messageId]: _, ...rest }) => rest);
+        updateMessage(messageId, { text: '', isLoading: true, isError: false, errorKind: undefined, completion: undefined });
+        run();
+      }
+    }));
+  };
+
+  const registerContinue = (messageId: string, run: () => Promise<void>) => {
+    setContinueActions(prev => ({
+      ...prev,
+      [messageId]: () => {
+        setContinueActions(({ [messageId]: _, ...rest }) => rest);
+        run();
+      }
+    }));
+  };
+
+  const toErrorChanges = (error: unknown): Partial<ChatMessage> => {
+    const modelError = classifyModelError(error);
+    return { text: modelError.message, isLoading: false, isStreaming: false, isError: true, errorKind: modelError.kind };
+  };
+
+  const runAnswer = async (
+    query: string,
+    contextSources: ContextSource[],
+    history: ChatMessage[],
+    persona: Persona,
+    settings: GenerationSettings,
+    placeholderMessageId: string
+  ) => {
+    setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const updatePlaceholder = (changes: Partial<ChatMessage>) => updateMessage(placeholderMessageId, changes);
+
+    let partialText = '';
+    let isComplete = false;
     try {
-      const response = await generateContentWithUrlContext(query, urls, filesToSend);
-
-      setChatMessages(prev => prev.map(msg => {
-        if (msg.id === placeholderMessageId) {
-          return {
-            ...msg,
-            text: response.text,
-            isLoading: false,
-            urlContext: response.urlContextMetadata
-          };
+      const stream = streamContentWithUrlContext(query, contextSources, history, {
+        persona,
+        settings,
+        signal: abortController.signal,
+        attribution: usageAttribution
+      });
+      for await (const chunk of stream) {
+        partialText = chunk.text;
+        if (!chunk.done) {
+          updatePlaceholder({ text: chunk.text, isLoading: false, isStreaming: true });
+          continue;
         }
-        return msg;
-      }));
+
+        isComplete = true;
+        let text = chunk.text;
+        let usage = chunk.usage;
+        // Only the briefing format has a fixed structure to check against; blocked or cut-off answers are shown as they are
+        let violations = persona.answerFormat === 'briefing' && !chunk.completion ? parseBriefingAnswer(text).violations : [];
+        // Ask for one rewrite when the format is off; keep whichever version deviates less
+        if (violations.length > 0) {
+          updatePlaceholder({ text, isLoading: false, isStreaming: true });
+          try {
+            const repaired = await repairBriefingFormat(query, contextSources, history, text, violations, {
+              persona,
+              settings,
+              signal: abortController.signal,
+              attribution: usageAttribution
+            });
+            const repairedViolations = parseBriefingAnswer(repaired.text).violations;
+            if (repaired.usage) usage = addTokenUsage(usage, repaired.usage);
+            if (repaired.text.trim() && repairedViolations.length < violations.length) {
+              text = repaired.text;
+              violations = repairedViolations;
+            }
+          } catch (e) {
+            console.error("Failed to repair the answer format", e);
+          }
+        }
+
+        updatePlaceholder({
+          text,
+          isLoading: false,
+          isStreaming: false,
+          formatViolations: violations.length > 0 ? violations : undefined,
+          completion: chunk.completion,
+          usage,
+          urlContext: chunk.urlContextMetadata,
+          contextSources: contextSources.map(({ id, title, type }) => ({ id, title, type }))
+        });
+        if (chunk.completion?.finishReason === 'MAX_TOKENS') {
+          registerContinue(placeholderMessageId, () => runContinuation(query, contextSources, history, persona, settings, placeholderMessageId, text));
+        }
+      }
+
+      // The stream ends early without a final chunk when the user stops it
+      if (!isComplete && abortController.signal.aborted) {
+        updatePlaceholder({
+          text: partialText,
+          isLoading: false,
+          isStreaming: false,
+          isTruncated: true,
+          contextSources: contextSources.map(({ id, title, type }) => ({ id, title, type }))
+        });
+      }
     } catch (error) {
-      setChatMessages(prev => prev.map(msg => {
-        if (msg.id === placeholderMessageId) {
-          return {
-            ...msg,
-            text: "Apologies, I encountered a diplomatic communication error. Please ensure your files are valid and try again.",
-            isLoading: false,
-          };
+      updatePlaceholder(toErrorChanges(error));
+      registerRetry(placeholderMessageId, () => runAnswer(query, contextSources, history, persona, settings, placeholderMessageId));
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  // Appends the rest of an answer that stopped at the output token limit, in place
+  const runContinuation = async (
+    query: string,
+    contextSources: ContextSource[],
+    history: ChatMessage[],
+    persona: Persona,
+    settings: GenerationSettings,
+    messageId: string,
+    answer: string
+  ) => {
+    setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    let continuation = '';
+    let isComplete = false;
+    try {
+      const stream = streamAnswerContinuation(query, contextSources, history, answer, {
+        persona,
+        settings,
+        signal: abortController.signal,
+        attribution: usageAttribution
+      });
+      for await (const chunk of stream) {
+        continuation = chunk.text;
+        if (!chunk.done) {
+          updateMessage(messageId, { text: answer + continuation, isStreaming: true });
+          continue;
         }
-        return msg;
-      }));
+
+        isComplete = true;
+        const text = answer + continuation;
+        const violations = persona.answerFormat === 'briefing' && !chunk.completion ? parseBriefingAnswer(text).violations : [];
+        updateMessage(messageId, {
+          text,
+          isStreaming: false,
+          formatViolations: violations.length > 0 ? violations : undefined,
+          completion: chunk.completion,
+        });
+        if (chunk.usage) addMessageUsage(messageId, chunk.usage);
+        if (chunk.completion?.finishReason === 'MAX_TOKENS') {
+          registerContinue(messageId, () => runContinuation(query, contextSources, history, persona, settings, messageId, text));
+        }
+      }
+
+      if (!isComplete && abortController.signal.aborted) {
+        updateMessage(messageId, { text: answer + continuation, isStreaming: false, isTruncated: true, completion: undefined });
+      }
+    } catch (e) {
+      console.error("Failed to continue the answer", e);
+      // The answer stays as it was and can be continued again
+      updateMessage(messageId, { text: answer, isStreaming: false });
+      registerContinue(messageId, () => runContinuation(query, contextSources, history, persona, settings, messageId, answer));
+      alert(e instanceof Error ? e.message : "Failed to continue the answer.");
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const gatherComparisonContexts = (query: string, groups: URLGroup[]): Promise<LibraryContext[]> =>
+    Promise.all(groups.map(group => gatherLibraryContext(group.sources.filter(isSourceIncluded), query, false)));
+
+  // Comparison mode: the same question is put to each selected group, treated as a jurisdiction.
+  // Resolves to false when the question was not sent, so the input keeps it
+  const handleSendComparison = async (query: string, groupIds: string[]): Promise<boolean> => {
+    const groups = groupIds
+      .map(id => urlGroups.find(g => g.id === id))
+      .filter((g): g is URLGroup => !!g);
+    if (groups.length < 2) return false;
+
+    setIsLoading(true);
+    const settings = generationSettings;
+    const userMessageId = Date.now().toString();
+    const placeholderMessageId = (Date.now() + 1).toString();
+    const userMessage: ChatMessage = { id: userMessageId, text: query, sender: MessageSender.USER, timestamp: new Date() };
+
+    let libraryContexts: LibraryContext[];
+    try {
+      libraryContexts = await gatherComparisonContexts(query, groups);
+    } catch (error) {
+      console.error("Failed to load the library context", error);
+      setChatMessages(prev => [
+        ...prev,
+        userMessage,
+        { id: placeholderMessageId, text: '', sender: MessageSender.MODEL, timestamp: new Date(), generationSettings: settings, ...toErrorChanges(error) },
+      ]);
+      registerRetry(placeholderMessageId, () => runComparison(query, groups, settings, placeholderMessageId));
+      setIsLoading(false);
+      return true;
+    }
+
+    // One findings call per jurisdiction with sources, then one that aligns their findings
+    const estimatedPromptTokens = [
+      ...libraryContexts.filter(context => context.sources.length > 0).map(context => estimateTokens(query) + estimateSourcesTokens(context.sources)),
+      estimateTokens(query) + groups.length * ESTIMATED_ANSWER_TOKENS,
+    ];
+    if (!await confirmWithinBudget(settings, estimatedPromptTokens)) {
+      setIsLoading(false);
+      return false;
+    }
+
+    setChatMessages(prev => [
+      ...prev,
+      userMessage,
+      { id: placeholderMessageId, text: '', sender: MessageSender.MODEL, timestamp: new Date(), isLoading: true, generationSettings: settings },
+    ]);
+
+    runComparison(query, groups, settings, placeholderMessageId, libraryContexts);
+    return true;
+  };
+
+  // Retries gather the library context again; the first run reuses what the budget check was made on
+  const runComparison = async (
+    query: string,
+    groups: URLGroup[],
+    settings: GenerationSettings,
+    placeholderMessageId: string,
+    preparedContexts?: LibraryContext[]
+  ) => {
+    setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const updatePlaceholder = (changes: Partial<ChatMessage>) => updateMessage(placeholderMessageId, changes);
+
+    try {
+      const libraryContexts = preparedContexts || await gatherComparisonContexts(query, groups);
+      const jurisdictions = groups.map((group, index) => ({ id: group.id, name: group.name, sources: libraryContexts[index].sources }));
+      const skippedSources = libraryContexts.flatMap(context => context.skipped);
+      const table = await compareJurisdictions(query, jurisdictions, { settings, signal: abortController.signal, attribution: usageAttribution });
+
+      updatePlaceholder({
+        text: comparisonToMarkdown(table),
+        comparison: table,
+        isLoading: false,
+        skippedSources: skippedSources.length > 0 ? skippedSources : undefined,
+        contextSources: jurisdictions.flatMap(j => j.sources).map(({ id, title, type }) => ({ id, title, type }))
+      });
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        updatePlaceholder({ text: '', isLoading: false, isTruncated: true });
+      } else {
+        updatePlaceholder(toErrorChanges(error));
+        registerRetry(placeholderMessageId, () => runComparison(query, groups, settings, placeholderMessageId));
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleExportBriefing = async (format: ExportFormat, messageIds: string[] | null) => {
+    const sessionTitle = sessions.find(s => s.id === activeSessionId)?.title || deriveSessionTitle(chatMessages);
+    const memo = buildBriefingMemo(chatMessages, messageIds, activeSources, {
+      title: sessionTitle,
+      groupName: activeGroup.name
+    });
+    if (memo.entries.length === 0) {
+      alert("There are no answers to export yet.");
+      return;
+    }
+    try {
+      await exportBriefingMemo(memo, format);
+    } catch (e) {
+      console.error("Failed to export briefing", e);
+      alert(e instanceof Error ? e.message : "Failed to export the briefing.");
+    }
+  };
+
+  const handleSavePersona = (persona: Persona) => {
+    setCustomPersonas(prev => prev.some(p => p.id === persona.id)
+      ? prev.map(p => p.id === persona.id ? persona : p)
+      : [...prev, persona]);
+  };
+
+  const handleDeletePersona = (personaId: string) => {
+    setCustomPersonas(prev => prev.filter(p => p.id !== personaId));
+    if (activePersonaId === personaId) {
+      setActivePersonaId(DEFAULT_PERSONA_ID);
+    }
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Fetch initial suggestions based on context
   useEffect(() => {
     const fetchSuggestions = async () => {
@@ -279,7 +1232,7 @@ const App: React.FC = () => {
         
         // If we have files but no URLs, we can prompt generically about the files
         if (activeUrls.length > 0) {
-           const result = await getInitialSuggestions(activeUrls);
+           const result = await getInitialSuggestions(activeUrls, generationSettings, usageAttribution);
            try {
              const parsed = JSON.parse(result.text);
              if (parsed.suggestions) {
@@ -310,69 +1263,240 @@ const App: React.FC = () => {
   // Initial welcome message
   useEffect(() => {
     if (chatMessages.length === 0) {
-      const welcomeMessage: ChatMessage = {
-        id: 'system-welcome',
-        text: "Greetings. I am your Regulatory Envoy. Please upload your regulatory documents (PDFs) to the library on the left. They will be securely stored for our briefing sessions.",
-        sender: MessageSender.SYSTEM,
-        timestamp: new Date(),
-      };
-      setChatMessages([welcomeMessage]);
+      setChatMessages([createWelcomeMessage()]);
     }
   }, []);
 
-  return (
-    <div className="flex h-screen bg-gray-50 overflow-hidden text-gray-800">
-      {/* Sidebar - Desktop */}
-      <div className={`hidden md:flex flex-col w-80 h-full border-r border-gray-200 bg-[#F9FAFB]`}>
+  const handleNewSession = () => {
+    abortControllerRef.current?.abort();
+    setActiveSessionId(createSessionId());
+    setChatMessages([createWelcomeMessage()]);
+  };
+
+  const handleSelectSession = (sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session || sessionId === activeSessionId) return;
+    abortControllerRef.current?.abort();
+    setActiveSessionId(session.id);
+    setChatMessages(session.messages);
+    if (urlGroups.some(g => g.id === session.groupId)) {
+      setActiveUrlGroupId(session.groupId);
+    }
+  };
+
+  const handleRenameSession = (sessionId: string, newTitle: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+    const renamed = { ...session, title: newTitle };
+    setSessions(prev => prev.map(s => s.id === sessionId ? renamed : s));
+    saveSessionToDB(renamed).catch(e => console.error("Failed to rename session", e));
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    try {
+      await deleteSessionFromDB(sessionId);
+    } catch (e) {
+      console.error("Failed to delete session", e);
+    }
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+    if (sessionId === activeSessionId) {
+      handleNewSession();
+    }
+  };
+
+  const renderSidebar = (onCloseSidebar?: () => void) => (
+    <div className="flex flex-col h-full">
+      <div className="max-h-[35%] flex flex-col border-b border-gray-200">
+        <SessionList
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          onNewSession={handleNewSession}
+          onSelectSession={handleSelectSession}
+          onRenameSession={handleRenameSession}
+          onDeleteSession={handleDeleteSession}
+        />
+      </div>
+      <div className="flex-grow min-h-0">
         <KnowledgeBaseManager 
           sources={activeSources}
           onAddUrl={handleAddSource}
           onAddFile={handleAddPersistentFile}
           onRemoveSource={handleRemoveSource}
           onRenameSource={handleRenameSource}
+          onToggleSourceIncluded={handleToggleSourceIncluded}
+          onSetAllSourcesIncluded={handleSetAllSourcesIncluded}
           maxItems={MAX_ITEMS}
           urlGroups={urlGroups.map(g => ({ id: g.id, name: g.name }))}
           activeUrlGroupId={activeUrlGroupId}
           onSetGroupId={setActiveUrlGroupId}
+          onCreateGroup={handleCreateGroup}
+          onRenameGroup={handleRenameGroup}
+          onDeleteGroup={handleDeleteGroup}
+          onMoveSource={handleMoveSource}
+          onExtractObligations={handleExtractObligations}
+          extractingSourceIds={extractingSourceIds}
+          onOpenObligations={() => setIsChecklistOpen(true)}
+          onOpenTimeline={() => setIsTimelineOpen(true)}
+          onSetPreviousVersion={handleSetPreviousVersion}
+          onCompareVersions={handleCompareVersions}
+          onCheckUrlSource={handleCheckUrlSource}
+          checkingSourceIds={checkingSourceIds}
+          onViewSnapshotChanges={setSnapshotDiffSourceId}
+          onCloseSidebar={onCloseSidebar}
         />
       </div>
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-gray-50 overflow-hidden text-gray-800">
+      {/* Sidebar - Desktop */}
+      <div className={`hidden md:flex flex-col w-80 h-full border-r border-gray-200 bg-[#F9FAFB]`}>
+        {renderSidebar()}
+      </div>
 
        {/* Sidebar - Mobile */}
        {isSidebarOpen && (
         <div className="fixed inset-0 z-50 flex md:hidden">
           <div className="w-80 h-full bg-[#F9FAFB] shadow-xl border-r border-gray-200">
-             <KnowledgeBaseManager 
-                sources={activeSources}
-                onAddUrl={handleAddSource}
-                onAddFile={handleAddPersistentFile}
-                onRemoveSource={handleRemoveSource}
-                onRenameSource={handleRenameSource}
-                maxItems={MAX_ITEMS}
-                urlGroups={urlGroups.map(g => ({ id: g.id, name: g.name }))}
-                activeUrlGroupId={activeUrlGroupId}
-                onSetGroupId={setActiveUrlGroupId}
-                onCloseSidebar={() => setIsSidebarOpen(false)}
-              />
+             {renderSidebar(() => setIsSidebarOpen(false))}
           </div>
           <div className="flex-grow bg-black/20 backdrop-blur-sm" onClick={() => setIsSidebarOpen(false)}></div>
         </div>
       )}
 
       {/* Main Chat Area */}
-      <div className="flex-grow h-full flex flex-col relative bg-white">
+      <div className="flex-grow min-w-0 h-full flex flex-col relative bg-white">
         <div className="flex-grow h-full max-w-5xl mx-auto w-full p-4 md:p-6">
            <ChatInterface 
             messages={chatMessages}
             onSendMessage={handleSendMessage}
+            onStopGeneration={handleStopGeneration}
             isLoading={isLoading}
             placeholderText="Inquire about the uploaded documents..."
             initialQuerySuggestions={initialQuerySuggestions}
             onSuggestedQueryClick={(q) => handleSendMessage(q, [])}
             isFetchingSuggestions={isFetchingSuggestions}
             onToggleSidebar={() => setIsSidebarOpen(true)}
+            sources={librarySources}
+            onOpenCitation={handleOpenCitation}
+            onExport={handleExportBriefing}
+            personas={allPersonas}
+            activePersonaId={activePersona.id}
+            onSelectPersona={setActivePersonaId}
+            onManagePersonas={() => setIsPersonaManagerOpen(true)}
+            onOpenSettings={() => setIsSettingsOpen(true)}
+            onOpenUsage={() => setIsUsageOpen(true)}
+            onOpenClassifier={() => setIsClassifierOpen(prev => !prev)}
+            comparisonGroups={urlGroups}
+            onSendComparison={handleSendComparison}
+            retryActions={retryActions}
+            continueActions={continueActions}
            />
         </div>
       </div>
+
+      {/* Risk classification wizard, docked beside the chat (full screen on mobile) */}
+      {isClassifierOpen && (
+        <div className="fixed inset-0 z-40 md:static md:z-auto md:w-96 md:flex-shrink-0 h-full">
+          <RiskClassifierPanel
+            profiles={systemProfiles}
+            sources={librarySources}
+            classifyingProfileIds={classifyingProfileIds}
+            onClassify={handleClassifySystem}
+            onDeleteProfile={handleDeleteSystemProfile}
+            onOpenCitation={handleOpenCitation}
+            onClose={() => setIsClassifierOpen(false)}
+          />
+        </div>
+      )}
+
+      {isChecklistOpen && (
+        <ObligationChecklist
+          obligations={obligations}
+          sources={librarySources}
+          onUpdateObligation={handleUpdateObligation}
+          onExportCsv={(items) => exportObligationsCsv(items, librarySources, `obligations-${new Date().toISOString().slice(0, 10)}`)}
+          onOpenSource={handleOpenCitation}
+          onClose={() => setIsChecklistOpen(false)}
+        />
+      )}
+
+      {isTimelineOpen && (
+        <TimelineView
+          milestones={milestones}
+          sources={librarySources}
+          extractingSourceIds={extractingMilestoneSourceIds}
+          onExtractMilestones={handleExtractMilestones}
+          onUpdateMilestone={handleUpdateMilestone}
+          onDeleteMilestone={handleDeleteMilestone}
+          onExportIcs={(items) => exportMilestonesIcs(items, librarySources, `regulatory-timeline-${new Date().toISOString().slice(0, 10)}`)}
+          onOpenSource={handleOpenCitation}
+          onClose={() => setIsTimelineOpen(false)}
+        />
+      )}
+
+      {versionComparison && (
+        <VersionDiffView
+          older={versionComparison.older}
+          newer={versionComparison.newer}
+          sources={librarySources}
+          settings={generationSettings}
+          attribution={usageAttribution}
+          onOpenSource={handleOpenCitation}
+          onClose={() => setVersionComparison(null)}
+        />
+      )}
+
+      {snapshotDiffSource && (
+        <SnapshotDiffView
+          source={snapshotDiffSource}
+          onAccept={handleAcceptSnapshot}
+          onDiscard={handleDiscardSnapshot}
+          onClose={() => setSnapshotDiffSourceId(null)}
+        />
+      )}
+
+      {viewedCitation && (
+        <SourceViewer
+          source={viewedCitation.source}
+          page={viewedCitation.page}
+          onClose={() => setViewedCitation(null)}
+        />
+      )}
+
+      {isPersonaManagerOpen && (
+        <PersonaManager
+          personas={allPersonas}
+          activePersonaId={activePersona.id}
+          onSavePersona={handleSavePersona}
+          onDeletePersona={handleDeletePersona}
+          onSelectPersona={setActivePersonaId}
+          onClose={() => setIsPersonaManagerOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <GenerationSettingsPanel
+          settings={generationSettings}
+          onSave={setGenerationSettings}
+          fetchProxyUrl={fetchProxyUrl}
+          onSaveFetchProxyUrl={setFetchProxyUrl}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsageDashboard
+          records={usageRecords}
+          sessions={sessions}
+          urlGroups={urlGroups}
+          activeSessionId={activeSessionId}
+          budget={usageBudget}
+          onSaveBudget={setUsageBudget}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
     </div>
   );
 };
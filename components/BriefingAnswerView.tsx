@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { marked } from 'marked';
+import { ReferenceSource, SourceReference } from '../types';
+import { BriefingAnswer } from '../utils/briefingFormat';
+import { renderCitationChips } from '../utils/citations';
+
+interface BriefingAnswerViewProps {
+  answer: BriefingAnswer;
+  sources: ReferenceSource[];
+  turnSources?: SourceReference[];
+}
+
+const BriefingAnswerView: React.FC<BriefingAnswerViewProps> = ({ answer, sources, turnSources }) => {
+  const toHtml = (text: string) => ({
+    __html: marked.parseInline(renderCitationChips(text, sources, turnSources)) as string,
+  });
+
+  return (
+    <div className="prose prose-sm prose-slate w-full min-w-0 max-w-none">
+      <h2 dangerouslySetInnerHTML={toHtml(answer.title)} />
+
+      <h3>Short Review</h3>
+      <p dangerouslySetInnerHTML={toHtml(answer.review.text)} />
+
+      <h3>Key Details</h3>
+      {answer.details.length > 0 ? (
+        <ul>
+          {answer.details.map((detail, idx) => (
+            <li key={idx} dangerouslySetInnerHTML={toHtml(detail.text)} />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-400 italic">No key details were provided.</p>
+      )}
+
+      {answer.closing && <p>{answer.closing}</p>}
+    </div>
+  );
+};
+
+export default BriefingAnswerView;
@@ -4,33 +4,75 @@
 */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, MessageSender, FileAttachment } from '../types'; 
+import { ChatMessage, MessageSender, FileAttachment, ReferenceSource, Persona, URLGroup } from '../types'; 
 import MessageItem from './MessageItem';
-import { Send, Menu, Paperclip, X } from 'lucide-react';
+import ExportMenu from './ExportMenu';
+import { ExportFormat } from '../utils/briefingExport';
+import { findDocumentLoader, toModelAttachment, SUPPORTED_DOCUMENT_ACCEPT, SUPPORTED_DOCUMENT_LABEL } from '../utils/documentLoaders';
+import { Send, Menu, Paperclip, X, Square, UserCog, SlidersHorizontal, Columns2, ShieldCheck, Coins } from 'lucide-react';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
-  onSendMessage: (query: string, attachments: FileAttachment[]) => void;
+  // Resolves to false when the question was not sent (e.g. over budget), so the input keeps it
+  onSendMessage: (query: string, attachments: FileAttachment[]) => Promise<boolean>;
+  onStopGeneration?: () => void;
   isLoading: boolean;
   placeholderText?: string;
   initialQuerySuggestions?: string[];
   onSuggestedQueryClick?: (query: string) => void;
   isFetchingSuggestions?: boolean;
   onToggleSidebar?: () => void;
+  sources?: ReferenceSource[];
+  onOpenCitation?: (source: ReferenceSource, page?: number) => void;
+  // messageIds is null when the whole session is exported
+  onExport?: (format: ExportFormat, messageIds: string[] | null) => void;
+  personas?: Persona[];
+  activePersonaId?: string;
+  onSelectPersona?: (personaId: string) => void;
+  onManagePersonas?: () => void;
+  onOpenSettings?: () => void;
+  onOpenUsage?: () => void;
+  onOpenClassifier?: () => void;
+  // Groups that can be compared as jurisdictions in comparison mode
+  comparisonGroups?: URLGroup[];
+  onSendComparison?: (query: string, groupIds: string[]) => Promise<boolean>;
+  // Re-sends a failed answer, keyed by message id; errors from earlier visits have none
+  retryActions?: Record<string, () => void>;
+  // Continues an answer cut off at the output token limit, keyed by message id
+  continueActions?: Record<string, () => void>;
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   messages, 
   onSendMessage, 
+  onStopGeneration,
   isLoading, 
   placeholderText,
   initialQuerySuggestions,
   onSuggestedQueryClick,
   isFetchingSuggestions,
   onToggleSidebar,
+  sources,
+  onOpenCitation,
+  onExport,
+  personas = [],
+  activePersonaId,
+  onSelectPersona,
+  onManagePersonas,
+  onOpenSettings,
+  onOpenUsage,
+  onOpenClassifier,
+  comparisonGroups = [],
+  onSendComparison,
+  retryActions = {},
+  continueActions = {},
 }) => {
   const [userQuery, setUserQuery] = useState('');
   const [attachments, setAttachments] = useState<FileAttachment[]>([]);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedMessageIds, setSelectedMessageIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparisonGroupIds, setComparisonGroupIds] = useState<string[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -40,9 +82,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   useEffect(scrollToBottom, [messages]);
 
-  const handleSend = () => {
-    if ((userQuery.trim() || attachments.length > 0) && !isLoading) {
-      onSendMessage(userQuery.trim(), attachments);
+  const canCompare = !!onSendComparison && comparisonGroups.length >= 2;
+  const selectedComparisonGroupIds = comparisonGroupIds.filter(id => comparisonGroups.some(g => g.id === id));
+  const isComparisonReady = selectedComparisonGroupIds.length >= 2;
+
+  const toggleComparisonGroup = (groupId: string) => {
+    setComparisonGroupIds(prev => prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]);
+  };
+
+  const handleSend = async () => {
+    if (isComparing) {
+      if (userQuery.trim() && isComparisonReady && !isLoading && await onSendComparison?.(userQuery.trim(), selectedComparisonGroupIds)) {
+        setUserQuery('');
+      }
+      return;
+    }
+    if ((userQuery.trim() || attachments.length > 0) && !isLoading && await onSendMessage(userQuery.trim(), attachments)) {
       setUserQuery('');
       setAttachments([]);
     }
@@ -54,19 +109,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       const newAttachments: FileAttachment[] = [];
 
       for (const file of filesArray) {
-        if (file.type === 'application/pdf') {
+        if (findDocumentLoader({ name: file.name, mimeType: file.type })) {
           try {
             const base64 = await fileToBase64(file);
-            newAttachments.push({
+            // Non-PDF formats are converted to plain text the model can read
+            newAttachments.push(await toModelAttachment({
               name: file.name,
               mimeType: file.type,
               data: base64
-            });
+            }));
           } catch (error) {
             console.error("Error processing file:", file.name, error);
+            alert(`Could not read ${file.name}.`);
           }
         } else {
-            alert(`Only PDF files are supported. Skipped: ${file.name}`);
+            alert(`Unsupported file type. Supported formats: ${SUPPORTED_DOCUMENT_LABEL}. Skipped: ${file.name}`);
         }
       }
       setAttachments(prev => [...prev, ...newAttachments]);
@@ -92,6 +149,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
+  const hasAnswers = messages.some(m => m.sender === MessageSender.MODEL && !m.isLoading && !m.isError);
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedMessageIds([]);
+  };
+
+  const toggleMessageSelected = (id: string) => {
+    setSelectedMessageIds(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    onExport?.(format, isSelecting ? selectedMessageIds : null);
+    if (isSelecting) toggleSelecting();
+  };
+
   const showSuggestions = initialQuerySuggestions && initialQuerySuggestions.length > 0 && messages.filter(m => m.sender !== MessageSender.SYSTEM).length <= 1;
 
   return (
@@ -114,13 +187,87 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             )}
           </div>
         </div>
+        <div className="flex items-center gap-2">
+        {onSelectPersona && personas.length > 0 && (
+          <div className="flex items-center gap-1">
+            <select
+              value={activePersonaId}
+              onChange={(e) => onSelectPersona(e.target.value)}
+              disabled={isLoading}
+              className="h-8 max-w-[11rem] py-1 pl-2 pr-7 border border-gray-300 bg-white text-gray-800 rounded-md text-xs focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] disabled:opacity-50"
+              title={personas.find(p => p.id === activePersonaId)?.description || 'Answering persona'}
+              aria-label="Answering persona"
+            >
+              {personas.map(persona => (
+                <option key={persona.id} value={persona.id}>{persona.name}</option>
+              ))}
+            </select>
+            {onManagePersonas && (
+              <button
+                onClick={onManagePersonas}
+                className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors"
+                title="Manage personas"
+              >
+                <UserCog size={18} />
+              </button>
+            )}
+          </div>
+        )}
+        {onOpenClassifier && (
+          <button
+            onClick={onOpenClassifier}
+            className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors"
+            title="Classify an AI system"
+          >
+            <ShieldCheck size={18} />
+          </button>
+        )}
+        {onOpenSettings && (
+          <button
+            onClick={onOpenSettings}
+            className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors"
+            title="Model settings"
+          >
+            <SlidersHorizontal size={18} />
+          </button>
+        )}
+        {onOpenUsage && (
+          <button
+            onClick={onOpenUsage}
+            className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors"
+            title="Token usage and cost"
+          >
+            <Coins size={18} />
+          </button>
+        )}
+        {onExport && (
+          <ExportMenu
+            isSelecting={isSelecting}
+            selectedCount={selectedMessageIds.length}
+            disabled={!hasAnswers}
+            onToggleSelecting={toggleSelecting}
+            onExport={handleExport}
+          />
+        )}
+        </div>
       </div>
 
       <div className="flex-grow p-4 overflow-y-auto chat-container bg-white">
         {/* New wrapper for max-width and centering */}
         <div className="max-w-4xl mx-auto w-full">
           {messages.map((msg) => (
-            <MessageItem key={msg.id} message={msg} />
+            <MessageItem
+              key={msg.id}
+              message={msg}
+              persona={msg.personaId ? personas.find(p => p.id === msg.personaId) : undefined}
+              sources={sources}
+              onOpenCitation={onOpenCitation}
+              isSelectable={isSelecting && msg.sender === MessageSender.MODEL && !msg.isLoading && !msg.isError}
+              isSelected={selectedMessageIds.includes(msg.id)}
+              onToggleSelected={() => toggleMessageSelected(msg.id)}
+              onRetry={isLoading ? undefined : retryActions[msg.id]}
+              onContinue={isLoading ? undefined : continueActions[msg.id]}
+            />
           ))}
           
           {isFetchingSuggestions && (
@@ -171,19 +318,52 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         )}
 
+        {isComparing && (
+          <div className="flex flex-wrap items-center gap-1.5 mb-2">
+            <span className="text-xs text-gray-500 font-medium uppercase tracking-wider mr-1">Compare:</span>
+            {comparisonGroups.map(group => {
+              const isSelected = selectedComparisonGroupIds.includes(group.id);
+              return (
+                <button
+                  key={group.id}
+                  onClick={() => toggleComparisonGroup(group.id)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${isSelected ? 'bg-[#4c0c0a] text-white border-[#4c0c0a]' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'}`}
+                  aria-pressed={isSelected}
+                >
+                  {group.name}
+                </button>
+              );
+            })}
+            {!isComparisonReady && (
+              <span className="text-xs text-gray-400">Select at least two groups to compare.</span>
+            )}
+          </div>
+        )}
+
         <div className="flex items-end gap-2">
           <input 
             type="file" 
             ref={fileInputRef} 
             onChange={handleFileSelect} 
-            accept="application/pdf" 
+            accept={SUPPORTED_DOCUMENT_ACCEPT} 
             multiple 
             className="hidden" 
           />
+          {canCompare && (
+            <button
+              onClick={() => setIsComparing(!isComparing)}
+              className={`h-10 w-10 p-2 rounded-lg transition-colors flex-shrink-0 flex items-center justify-center ${isComparing ? 'bg-[#4c0c0a]/10 text-[#4c0c0a]' : 'text-gray-500 hover:text-[#4c0c0a] hover:bg-gray-200'}`}
+              title={isComparing ? "Leave comparison mode" : "Compare groups side by side"}
+              aria-pressed={isComparing}
+            >
+              <Columns2 size={20} />
+            </button>
+          )}
           <button
             onClick={() => fileInputRef.current?.click()}
-            className="h-10 w-10 p-2 text-gray-500 hover:text-[#4c0c0a] hover:bg-gray-200 rounded-lg transition-colors flex-shrink-0 flex items-center justify-center"
-            title="Upload PDF"
+            disabled={isComparing}
+            className="h-10 w-10 p-2 text-gray-500 hover:text-[#4c0c0a] hover:bg-gray-200 rounded-lg transition-colors flex-shrink-0 flex items-center justify-center disabled:opacity-40 disabled:hover:bg-transparent"
+            title={isComparing ? "Attachments are not used in comparison mode" : "Attach document"}
           >
             <Paperclip size={20} />
           </button>
@@ -191,7 +371,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <textarea
             value={userQuery}
             onChange={(e) => setUserQuery(e.target.value)}
-            placeholder="Ask a question or upload a regulatory PDF..."
+            placeholder={isComparing ? "Ask how the selected jurisdictions differ, e.g. on incident reporting..." : "Ask a question or attach a regulatory document..."}
             className="flex-grow h-10 min-h-[40px] py-2 px-3 border border-gray-300 bg-white text-gray-900 placeholder-gray-400 rounded-lg focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] transition-shadow resize-none text-sm"
             rows={1}
             disabled={isLoading || isFetchingSuggestions}
@@ -202,17 +382,30 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               }
             }}
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || isFetchingSuggestions || (!userQuery.trim() && attachments.length === 0)}
-            className="h-10 w-10 p-2 bg-[#4c0c0a] hover:bg-[#3b0908] text-white rounded-lg transition-colors disabled:bg-gray-300 disabled:text-gray-500 flex items-center justify-center flex-shrink-0 shadow-sm"
-            aria-label="Send message"
-          >
-            {(isLoading && messages[messages.length-1]?.isLoading && messages[messages.length-1]?.sender === MessageSender.MODEL) ? 
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div> 
-              : <Send size={18} />
-            }
-          </button>
+          {isLoading && onStopGeneration ? (
+            <button
+              onClick={onStopGeneration}
+              className="h-10 w-10 p-2 bg-white border border-[#4c0c0a] text-[#4c0c0a] hover:bg-red-50 rounded-lg transition-colors flex items-center justify-center flex-shrink-0 shadow-sm"
+              aria-label="Stop generating"
+              title="Stop generating"
+            >
+              <Square size={14} fill="currentColor" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={isLoading || isFetchingSuggestions || (isComparing
+                ? !userQuery.trim() || !isComparisonReady
+                : !userQuery.trim() && attachments.length === 0)}
+              className="h-10 w-10 p-2 bg-[#4c0c0a] hover:bg-[#3b0908] text-white rounded-lg transition-colors disabled:bg-gray-300 disabled:text-gray-500 flex items-center justify-center flex-shrink-0 shadow-sm"
+              aria-label="Send message"
+            >
+              {(isLoading && messages[messages.length-1]?.isLoading && messages[messages.length-1]?.sender === MessageSender.MODEL) ? 
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div> 
+                : <Send size={18} />
+              }
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { marked } from 'marked';
+import { ComparisonTable, ReferenceSource, SourceReference } from '../types';
+import { renderCitationChips } from '../utils/citations';
+
+interface ComparisonTableViewProps {
+  table: ComparisonTable;
+  sources: ReferenceSource[];
+  turnSources?: SourceReference[];
+}
+
+const ComparisonTableView: React.FC<ComparisonTableViewProps> = ({ table, sources, turnSources }) => {
+  const toHtml = (text: string) => ({
+    __html: marked.parseInline(renderCitationChips(text, sources, turnSources)) as string,
+  });
+
+  return (
+    <div className="w-full min-w-0">
+      <h2 className="text-base font-bold text-gray-900 mb-3">Comparison: {table.question}</h2>
+      {table.rows.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">The selected sources did not address this question.</p>
+      ) : (
+        <div className="overflow-x-auto chat-container border border-gray-200 rounded-lg bg-white">
+          <table className="min-w-full text-xs text-gray-800 border-collapse">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left font-semibold text-gray-600 px-3 py-2 border-b border-gray-200 w-40">Obligation</th>
+                {table.jurisdictions.map(jurisdiction => (
+                  <th key={jurisdiction.id} className="text-left font-semibold text-[#4c0c0a] px-3 py-2 border-b border-gray-200 min-w-[12rem]">
+                    {jurisdiction.name}
+                  </th>
+                ))}
+                <th className="text-left font-semibold text-gray-600 px-3 py-2 border-b border-gray-200 min-w-[12rem]">Divergence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, idx) => (
+                <tr key={idx} className="align-top border-b border-gray-100 last:border-b-0">
+                  <td className="px-3 py-2 font-medium">{row.obligation}</td>
+                  {row.cells.map(cell => (
+                    <td key={cell.jurisdictionId} className="px-3 py-2 leading-relaxed" dangerouslySetInnerHTML={toHtml(cell.text)} />
+                  ))}
+                  <td className="px-3 py-2 text-gray-600 italic leading-relaxed">{row.divergence}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonTableView;
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { VersionDiff, VersionDiffLine } from '../services/versionDiff';
+
+interface DiffHunksProps {
+  diff: VersionDiff;
+  // Renders the page reference of a line in the old or new text; omitted for single-page texts
+  renderPageLink?: (side: 'old' | 'new', page: number) => React.ReactNode;
+}
+
+const LINE_STYLES: Record<VersionDiffLine['type'], string> = {
+  context: 'text-gray-600',
+  removed: 'bg-red-50 text-red-900',
+  added: 'bg-green-50 text-green-900',
+  changed: 'bg-amber-50/60 text-gray-800',
+};
+
+const LINE_MARKERS: Record<VersionDiffLine['type'], string> = {
+  context: ' ',
+  removed: '−',
+  added: '+',
+  changed: '~',
+};
+
+const renderLineText = (line: VersionDiffLine) => {
+  if (line.type === 'changed') {
+    return line.words.map((part, idx) => (
+      <span
+        key={idx}
+        className={part.type === 'removed' ? 'bg-red-200/70 line-through decoration-red-700' : part.type === 'added' ? 'bg-green-200/70' : ''}
+      >
+        {part.items.join('')}
+      </span>
+    ));
+  }
+  return line.type === 'removed' ? line.old.text : line.new.text;
+};
+
+// Line counts and hunks of a text diff, shared by version and snapshot comparisons.
+const DiffHunks: React.FC<DiffHunksProps> = ({ diff, renderPageLink }) => (
+  <>
+    <div className="flex items-center gap-3 text-xs text-gray-600">
+      <span className="text-red-700">{diff.removedCount} removed</span>
+      <span className="text-green-700">{diff.addedCount} added</span>
+      <span className="text-amber-700">{diff.changedCount} edited</span>
+      <span className="text-gray-400">lines</span>
+    </div>
+
+    <div className="space-y-3">
+      {diff.hunks.map((hunk, hunkIdx) => (
+        <div key={hunkIdx}>
+          {hunk.skippedBefore > 0 && (
+            <p className="text-[11px] text-gray-400 text-center mb-1">⋯ {hunk.skippedBefore} unchanged lines ⋯</p>
+          )}
+          <div className="border border-gray-200 rounded-lg overflow-hidden font-mono text-xs">
+            {hunk.lines.map((line, lineIdx) => (
+              <div key={lineIdx} className={`flex gap-2 px-2 py-0.5 ${LINE_STYLES[line.type]}`}>
+                <span className="w-3 flex-shrink-0 select-none text-gray-400">{LINE_MARKERS[line.type]}</span>
+                <span className="flex-grow whitespace-pre-wrap break-words">{renderLineText(line)}</span>
+                {renderPageLink && (
+                  <span className="flex-shrink-0 text-[10px] text-gray-400 whitespace-nowrap">
+                    {line.type !== 'added' && renderPageLink('old', line.old.page)}
+                    {line.type !== 'added' && line.type !== 'removed' && ' / '}
+                    {line.type !== 'removed' && renderPageLink('new', line.new.page)}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+export default DiffHunks;
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Download, CheckSquare, X } from 'lucide-react';
+import { ExportFormat } from '../utils/briefingExport';
+
+interface ExportMenuProps {
+  isSelecting: boolean;
+  selectedCount: number;
+  disabled?: boolean;
+  onToggleSelecting: () => void;
+  onExport: (format: ExportFormat) => void;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'docx', label: 'Word memo (.docx)' },
+  { format: 'pdf', label: 'Print / PDF' },
+  { format: 'markdown', label: 'Markdown (.md)' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  isSelecting,
+  selectedCount,
+  disabled,
+  onToggleSelecting,
+  onExport,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    onExport(format);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {isSelecting ? (
+        <button
+          onClick={onToggleSelecting}
+          className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:bg-gray-200 px-2 py-1.5 rounded-md transition-colors"
+          title="Cancel selection"
+        >
+          <X size={14} />
+          {selectedCount} selected
+        </button>
+      ) : (
+        <button
+          onClick={onToggleSelecting}
+          disabled={disabled}
+          className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40"
+          title="Select answers to export"
+        >
+          <CheckSquare size={18} />
+        </button>
+      )}
+
+      <div className="relative">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled || (isSelecting && selectedCount === 0)}
+          className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40"
+          title={isSelecting ? 'Export selected answers' : 'Export briefing as memo'}
+        >
+          <Download size={18} />
+        </button>
+        {isOpen && (
+          <div className="absolute right-0 mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+            <p className="px-3 py-1 text-[10px] uppercase font-bold text-gray-400 tracking-wider">
+              {isSelecting ? `Export ${selectedCount} answer(s)` : 'Export briefing'}
+            </p>
+            {FORMAT_OPTIONS.map(option => (
+              <button
+                key={option.format}
+                onClick={() => handleExport(option.format)}
+                className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { GenerationSettings, ModelProviderId, SafetyCategory, SafetyThreshold } from '../types';
+import {
+  MODEL_OPTIONS, PROVIDER_OPTIONS, SAFETY_CATEGORY_LABELS, SAFETY_THRESHOLD_OPTIONS, DEFAULT_GENERATION_SETTINGS,
+  findModelOption, findProviderOption, normaliseGenerationSettings
+} from '../services/generationSettings';
+import { DEFAULT_FETCH_PROXY_URL } from '../services/urlSnapshots';
+import {
+  DEFAULT_OPENAI_CONNECTION, loadOpenAiConnection, saveOpenAiConnection,
+  isRecordingFixtures, countRecordedFixtures, exportRecordedFixtures
+} from '../services/modelProvider';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onSave: (settings: GenerationSettings) => void;
+  fetchProxyUrl: string;
+  onSaveFetchProxyUrl: (proxyUrl: string) => void;
+  onClose: () => void;
+}
+
+type ThinkingMode = 'auto' | 'off' | 'custom';
+
+const inputClasses = "w-full h-9 py-1.5 px-2.5 border border-gray-300 bg-white rounded-md text-sm text-gray-900 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a]";
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onSave, fetchProxyUrl, onSaveFetchProxyUrl, onClose }) => {
+  const [draft, setDraft] = useState<GenerationSettings>(settings);
+  const [proxyDraft, setProxyDraft] = useState(fetchProxyUrl);
+  const [connectionDraft, setConnectionDraft] = useState(loadOpenAiConnection);
+  const provider = findProviderOption(draft.provider);
+  const isGemini = provider.id === 'gemini';
+  const model = findModelOption(draft.model);
+
+  const thinkingMode: ThinkingMode = draft.thinkingBudget === -1 ? 'auto' : draft.thinkingBudget === 0 ? 'off' : 'custom';
+
+  const update = (changes: Partial<GenerationSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleThinkingModeChange = (mode: ThinkingMode) => {
+    if (mode === 'auto') update({ thinkingBudget: -1 });
+    else if (mode === 'off') update({ thinkingBudget: 0 });
+    else update({ thinkingBudget: Math.max(model.minThinkingBudget, 1024) });
+  };
+
+  const handleSafetyChange = (category: SafetyCategory, threshold: SafetyThreshold) => {
+    update({ safety: { ...draft.safety, [category]: threshold } });
+  };
+
+  // The model list differs per provider, so switching starts from the provider's default model
+  const handleProviderChange = (providerId: ModelProviderId) => {
+    setDraft(prev => normaliseGenerationSettings({ ...prev, provider: providerId, model: '' }));
+  };
+
+  const handleSave = () => {
+    onSave(normaliseGenerationSettings(draft));
+    onSaveFetchProxyUrl(proxyDraft.trim() || DEFAULT_FETCH_PROXY_URL);
+    saveOpenAiConnection({ baseUrl: connectionDraft.baseUrl.trim() || DEFAULT_OPENAI_CONNECTION.baseUrl, apiKey: connectionDraft.apiKey.trim() });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6] rounded-t-xl">
+          <h3 className="font-semibold text-[#4c0c0a] font-serif">Model Settings</h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+            aria-label="Close model settings"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto chat-container p-4 space-y-4">
+          <label className="block text-xs font-medium text-gray-600">
+            Provider
+            <select
+              value={provider.id}
+              onChange={(e) => handleProviderChange(e.target.value as ModelProviderId)}
+              className={`${inputClasses} mt-1`}
+            >
+              {PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            {provider.id === 'mock' && (
+              <span className="font-normal text-[11px] text-gray-400">Answers offline from recorded fixtures, or from the retrieved passages when no fixture matches. Nothing is sent to a model.</span>
+            )}
+          </label>
+
+          {provider.id === 'openai' && (
+            <>
+              <label className="block text-xs font-medium text-gray-600">
+                Base URL
+                <input
+                  type="text"
+                  value={connectionDraft.baseUrl}
+                  onChange={(e) => setConnectionDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+                  placeholder={DEFAULT_OPENAI_CONNECTION.baseUrl}
+                  className={`${inputClasses} mt-1 font-mono text-xs`}
+                />
+                <span className="font-normal text-[11px] text-gray-400">Requests go to {'{base URL}'}/chat/completions. URL sources and web search are not available; uploaded PDFs are only read through their indexed text.</span>
+              </label>
+              <label className="block text-xs font-medium text-gray-600">
+                API key
+                <input
+                  type="password"
+                  value={connectionDraft.apiKey}
+                  onChange={(e) => setConnectionDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+                  placeholder="Not needed for most local servers"
+                  className={`${inputClasses} mt-1`}
+                  autoComplete="off"
+                />
+              </label>
+            </>
+          )}
+
+          {isGemini ? (
+            <label className="block text-xs font-medium text-gray-600">
+              Model
+              <select
+                value={draft.model}
+                // Re-normalised so the thinking budget stays within the new model's range
+                onChange={(e) => setDraft(prev => normaliseGenerationSettings({ ...prev, model: e.target.value }))}
+                className={`${inputClasses} mt-1`}
+              >
+                {MODEL_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          ) : provider.id === 'openai' && (
+            <label className="block text-xs font-medium text-gray-600">
+              Model
+              <input
+                type="text"
+                value={draft.model}
+                onChange={(e) => update({ model: e.target.value })}
+                placeholder={provider.defaultModel}
+                className={`${inputClasses} mt-1 font-mono text-xs`}
+              />
+            </label>
+          )}
+
+          <label className="block text-xs font-medium text-gray-600">
+            <span className="flex justify-between">
+              <span>Temperature</span>
+              <span className="text-gray-800">{draft.temperature.toFixed(2)}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.05}
+              value={draft.temperature}
+              onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+              className="mt-2 w-full accent-[#4c0c0a]"
+            />
+            <span className="font-normal text-[11px] text-gray-400">Lower values give more literal, repeatable answers.</span>
+          </label>
+
+          <label className="block text-xs font-medium text-gray-600">
+            Max output tokens
+            <input
+              type="number"
+              min={256}
+              max={isGemini ? model.maxOutputTokens : undefined}
+              step={256}
+              value={draft.maxOutputTokens}
+              onChange={(e) => update({ maxOutputTokens: parseInt(e.target.value, 10) })}
+              className={`${inputClasses} mt-1`}
+            />
+            <span className="font-normal text-[11px] text-gray-400">Includes thinking tokens, so keep it well above the thinking budget.</span>
+          </label>
+
+          {isGemini && <div className="text-xs font-medium text-gray-600">
+            Thinking budget
+            <div className="mt-1 flex gap-2">
+              <select
+                value={thinkingMode}
+                onChange={(e) => handleThinkingModeChange(e.target.value as ThinkingMode)}
+                className={`${inputClasses} flex-1`}
+                aria-label="Thinking mode"
+              >
+                <option value="auto">Automatic</option>
+                {model.minThinkingBudget === 0 && <option value="off">Off</option>}
+                <option value="custom">Fixed budget</option>
+              </select>
+              {thinkingMode === 'custom' && (
+                <input
+                  type="number"
+                  min={model.minThinkingBudget}
+                  max={model.maxThinkingBudget}
+                  step={128}
+                  value={draft.thinkingBudget}
+                  onChange={(e) => update({ thinkingBudget: parseInt(e.target.value, 10) })}
+                  className={`${inputClasses} flex-1`}
+                  aria-label="Thinking budget in tokens"
+                />
+              )}
+            </div>
+            {thinkingMode === 'custom' && (
+              <span className="font-normal text-[11px] text-gray-400">{model.minThinkingBudget}–{model.maxThinkingBudget} tokens for {model.label}.</span>
+            )}
+          </div>}
+
+          {isGemini && <div>
+            <h4 className="text-[10px] uppercase font-bold text-gray-500 mb-2 tracking-wider">Safety Thresholds</h4>
+            <div className="space-y-2">
+              {(Object.keys(SAFETY_CATEGORY_LABELS) as SafetyCategory[]).map(category => (
+                <label key={category} className="flex items-center justify-between gap-3 text-xs text-gray-600">
+                  <span>{SAFETY_CATEGORY_LABELS[category]}</span>
+                  <select
+                    value={draft.safety[category]}
+                    onChange={(e) => handleSafetyChange(category, e.target.value as SafetyThreshold)}
+                    className="h-8 py-1 px-2 border border-gray-300 bg-white rounded-md text-xs text-gray-900 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a]"
+                  >
+                    {SAFETY_THRESHOLD_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>}
+
+          <div>
+            <h4 className="text-[10px] uppercase font-bold text-gray-500 mb-2 tracking-wider">Web Access</h4>
+            {isGemini && <label className="flex items-start gap-2 text-xs font-medium text-gray-600 mb-3">
+              <input
+                type="checkbox"
+                checked={draft.searchGrounding}
+                onChange={(e) => update({ searchGrounding: e.target.checked })}
+                className="mt-0.5 h-3.5 w-3.5 accent-[#4c0c0a] flex-shrink-0"
+              />
+              <span>
+                Ground answers in Google Search
+                <span className="block font-normal text-[11px] text-gray-400">Off by default: answers then rely only on the library. Search results are listed as external links under the answer.</span>
+              </span>
+            </label>}
+            <label className="block text-xs font-medium text-gray-600">
+              Fetch proxy URL
+              <input
+                type="text"
+                value={proxyDraft}
+                onChange={(e) => setProxyDraft(e.target.value)}
+                placeholder={DEFAULT_FETCH_PROXY_URL}
+                className={`${inputClasses} mt-1 font-mono text-xs`}
+              />
+              <span className="font-normal text-[11px] text-gray-400">URL sources are downloaded through this proxy and snapshotted locally. {'{url}'} is replaced by the page address.</span>
+            </label>
+          </div>
+
+          {isRecordingFixtures() && (
+            <div>
+              <h4 className="text-[10px] uppercase font-bold text-gray-500 mb-2 tracking-wider">Fixture Recording</h4>
+              <button
+                onClick={exportRecordedFixtures}
+                className="flex items-center gap-1.5 text-xs text-[#4c0c0a] border border-gray-300 hover:bg-gray-100 px-2.5 py-1.5 rounded-md transition-colors"
+              >
+                <Download size={14} />
+                Download recorded fixtures ({countRecordedFixtures()})
+              </button>
+              <span className="block mt-1 font-normal text-[11px] text-gray-400">Serve the file with the app and set MOCK_FIXTURES_URL to replay these responses with the offline mock provider.</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-3 border-t border-gray-200 flex items-center justify-between">
+          <button
+            onClick={() => { setDraft(DEFAULT_GENERATION_SETTINGS); setProxyDraft(DEFAULT_FETCH_PROXY_URL); setConnectionDraft(DEFAULT_OPENAI_CONNECTION); }}
+            className="text-sm text-gray-600 hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors"
+          >
+            Reset to defaults
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onClose}
+              className="text-sm text-gray-600 hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="text-sm bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-1.5 rounded-md transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -4,8 +4,19 @@
 */
 
 import React, { useState, useRef } from 'react';
-import { Plus, Trash2, ChevronDown, X, Edit2, Check, ExternalLink, Upload, FileText, Globe } from 'lucide-react';
+import { Plus, Trash2, ChevronDown, X, Edit2, Check, ExternalLink, Upload, FileText, FileType, FileCode, Hash, File as FileIcon, Globe, FolderPlus, FolderInput, ListChecks, ClipboardList, CalendarDays, Loader2, GitBranch, GitCompare, RefreshCw, AlertTriangle } from 'lucide-react';
 import { ReferenceSource } from '../types';
+import { findDocumentLoader, DocumentKind, SUPPORTED_DOCUMENT_ACCEPT, SUPPORTED_DOCUMENT_LABEL } from '../utils/documentLoaders';
+import { estimateContext, isSourceIncluded, isRetrievable, formatBytes, formatTokens } from '../utils/contextBudget';
+import { canBePreviousVersion } from '../services/versionDiff';
+
+const DOCUMENT_ICONS: Record<DocumentKind, React.FC<{ size?: number; className?: string }>> = {
+  pdf: FileText,
+  docx: FileType,
+  html: FileCode,
+  markdown: Hash,
+  text: FileIcon,
+};
 
 interface KnowledgeBaseManagerProps {
   sources: ReferenceSource[];
@@ -13,23 +24,59 @@ interface KnowledgeBaseManagerProps {
   onAddFile: (file: File) => void;
   onRemoveSource: (id: string) => void;
   onRenameSource: (id: string, newTitle: string) => void;
+  onToggleSourceIncluded: (id: string, included: boolean) => void;
+  onSetAllSourcesIncluded: (included: boolean) => void;
   maxItems?: number;
   urlGroups: {id: string, name: string}[];
   activeUrlGroupId: string;
   onSetGroupId: (id: string) => void;
+  onCreateGroup: (name: string) => void;
+  onRenameGroup: (id: string, newName: string) => void;
+  onDeleteGroup: (id: string) => void;
+  onMoveSource: (sourceId: string, targetGroupId: string) => void;
+  onExtractObligations?: (sourceId: string) => void;
+  // Sources whose obligations are currently being extracted
+  extractingSourceIds?: string[];
+  onOpenObligations?: () => void;
+  onOpenTimeline?: () => void;
+  onSetPreviousVersion?: (sourceId: string, previousVersionId: string | undefined) => void;
+  onCompareVersions?: (sourceId: string) => void;
+  // Fetches a URL source (again) and compares it with its snapshot
+  onCheckUrlSource?: (sourceId: string) => void;
+  // URL sources currently being fetched
+  checkingSourceIds?: string[];
+  onViewSnapshotChanges?: (sourceId: string) => void;
   onCloseSidebar?: () => void;
 }
 
+const formatSnapshotDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
 const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({ 
   sources, 
   onAddUrl, 
   onAddFile,
   onRemoveSource, 
   onRenameSource,
+  onToggleSourceIncluded,
+  onSetAllSourcesIncluded,
   maxItems = 50,
   urlGroups,
   activeUrlGroupId,
   onSetGroupId,
+  onCreateGroup,
+  onRenameGroup,
+  onDeleteGroup,
+  onMoveSource,
+  onExtractObligations,
+  extractingSourceIds = [],
+  onOpenObligations,
+  onOpenTimeline,
+  onSetPreviousVersion,
+  onCompareVersions,
+  onCheckUrlSource,
+  checkingSourceIds = [],
+  onViewSnapshotChanges,
   onCloseSidebar,
 }) => {
   const [currentUrlInput, setCurrentUrlInput] = useState('');
@@ -37,6 +84,11 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [editingSourceId, setEditingSourceId] = useState<string | null>(null);
   const [editTitleInput, setEditTitleInput] = useState('');
+  // 'new' while creating a group, 'rename' while renaming the active one
+  const [groupEditMode, setGroupEditMode] = useState<'new' | 'rename' | null>(null);
+  const [groupNameInput, setGroupNameInput] = useState('');
+  const [movingSourceId, setMovingSourceId] = useState<string | null>(null);
+  const [versioningSourceId, setVersioningSourceId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const isValidUrl = (urlString: string): boolean => {
@@ -70,8 +122,9 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      if (file.type !== 'application/pdf') {
-        setError('Only PDF files are currently supported for the library.');
+      if (!findDocumentLoader({ name: file.name, mimeType: file.type })) {
+        setError(`"${file.name}" is not supported. Upload ${SUPPORTED_DOCUMENT_LABEL} files.`);
+        if (fileInputRef.current) fileInputRef.current.value = '';
         return;
       }
       if (sources.length >= maxItems) {
@@ -103,10 +156,79 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
     setEditTitleInput('');
   };
 
+  const contextEstimate = estimateContext(sources);
+  // Snapshotted URLs are counted like documents; the rest are read by the model's tools
+  const hasUrlInContext = sources.some(s => s.type === 'url' && !isRetrievable(s) && isSourceIncluded(s));
+
+  const activeGroupName = urlGroups.find(g => g.id === activeUrlGroupId)?.name || '';
+
+  const startGroupEdit = (mode: 'new' | 'rename') => {
+    setGroupEditMode(mode);
+    setGroupNameInput(mode === 'rename' ? activeGroupName : '');
+    setError(null);
+  };
+
+  const saveGroupEdit = () => {
+    const name = groupNameInput.trim();
+    if (!name) {
+      setError('Group name cannot be empty.');
+      return;
+    }
+    if (urlGroups.some(g => g.name.toLowerCase() === name.toLowerCase() && (groupEditMode === 'new' || g.id !== activeUrlGroupId))) {
+      setError('A group with this name already exists.');
+      return;
+    }
+    if (groupEditMode === 'new') {
+      onCreateGroup(name);
+    } else {
+      onRenameGroup(activeUrlGroupId, name);
+    }
+    setGroupEditMode(null);
+    setGroupNameInput('');
+    setError(null);
+  };
+
+  const handleDeleteGroup = () => {
+    if (urlGroups.length <= 1) {
+      setError('The last remaining group cannot be deleted.');
+      return;
+    }
+    if (window.confirm(`Delete the group "${activeGroupName}" and its ${sources.length} source(s)? Documents still used by another group are kept.`)) {
+      onDeleteGroup(activeUrlGroupId);
+      setError(null);
+    }
+  };
+
+  const handleMoveSource = (sourceId: string, targetGroupId: string) => {
+    if (targetGroupId) {
+      onMoveSource(sourceId, targetGroupId);
+    }
+    setMovingSourceId(null);
+  };
+
   return (
     <div className="p-4 bg-[#F9FAFB] shadow-md rounded-xl h-full flex flex-col border border-gray-200">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-lg font-bold text-[#4c0c0a] font-serif">Knowledge Library</h2>
+        <div className="flex items-center gap-1">
+        {onOpenObligations && (
+          <button
+            onClick={onOpenObligations}
+            className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors"
+            title="Obligations checklist"
+          >
+            <ClipboardList size={18} />
+          </button>
+        )}
+        {onOpenTimeline && (
+          <button
+            onClick={onOpenTimeline}
+            className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors"
+            title="Regulatory timeline"
+          >
+            <CalendarDays size={18} />
+          </button>
+        )}
         {onCloseSidebar && (
           <button
             onClick={onCloseSidebar}
@@ -116,6 +238,7 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
             <X size={24} />
           </button>
         )}
+        </div>
       </div>
       
       {/* Hidden File Input */}
@@ -123,7 +246,7 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileSelect} 
-        accept="application/pdf" 
+        accept={SUPPORTED_DOCUMENT_ACCEPT} 
         className="hidden" 
       />
 
@@ -131,24 +254,64 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
         <label htmlFor="url-group-select-kb" className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">
           Active Group
         </label>
-        <div className="relative w-full mb-3">
-          <select
-            id="url-group-select-kb"
-            value={activeUrlGroupId}
-            onChange={(e) => onSetGroupId(e.target.value)}
-            className="w-full py-2 pl-3 pr-8 appearance-none border border-gray-300 bg-white text-gray-800 rounded-md focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] text-sm shadow-sm"
-          >
-            {urlGroups.map(group => (
-              <option key={group.id} value={group.id}>
-                {group.name}
-              </option>
-            ))}
-          </select>
-          <ChevronDown
-            className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500 pointer-events-none"
-            aria-hidden="true"
-          />
-        </div>
+        {groupEditMode ? (
+          <div className="flex items-center gap-2 mb-3">
+            <input
+              type="text"
+              value={groupNameInput}
+              onChange={(e) => setGroupNameInput(e.target.value)}
+              placeholder={groupEditMode === 'new' ? 'e.g. EU AI Act' : 'Group name'}
+              className="flex-grow h-9 py-1 px-3 border border-gray-300 bg-white text-gray-800 placeholder-gray-400 rounded-md focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] text-sm"
+              onKeyPress={(e) => e.key === 'Enter' && saveGroupEdit()}
+              autoFocus
+            />
+            <button onClick={saveGroupEdit} className="text-green-600 hover:text-green-800 p-1" title="Save group"><Check size={16}/></button>
+            <button onClick={() => setGroupEditMode(null)} className="text-red-500 hover:text-red-700 p-1" title="Cancel"><X size={16}/></button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1 mb-3">
+            <div className="relative flex-grow">
+              <select
+                id="url-group-select-kb"
+                value={activeUrlGroupId}
+                onChange={(e) => onSetGroupId(e.target.value)}
+                className="w-full py-2 pl-3 pr-8 appearance-none border border-gray-300 bg-white text-gray-800 rounded-md focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] text-sm shadow-sm"
+              >
+                {urlGroups.map(group => (
+                  <option key={group.id} value={group.id}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+              <ChevronDown
+                className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500 pointer-events-none"
+                aria-hidden="true"
+              />
+            </div>
+            <button
+              onClick={() => startGroupEdit('new')}
+              className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors"
+              title="New group"
+            >
+              <FolderPlus size={16} />
+            </button>
+            <button
+              onClick={() => startGroupEdit('rename')}
+              className="p-1.5 text-gray-500 hover:text-blue-600 rounded-md hover:bg-gray-200 transition-colors"
+              title="Rename group"
+            >
+              <Edit2 size={14} />
+            </button>
+            <button
+              onClick={handleDeleteGroup}
+              disabled={urlGroups.length <= 1}
+              className="p-1.5 text-gray-500 hover:text-red-500 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:hover:text-gray-500"
+              title="Delete group"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        )}
 
         <div className="flex gap-2">
             <button
@@ -157,7 +320,7 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
                 className="flex-1 py-2 px-3 bg-[#4c0c0a] hover:bg-[#3b0908] text-white rounded-lg transition-colors disabled:bg-gray-300 disabled:text-gray-500 flex items-center justify-center text-sm font-medium shadow-sm gap-2"
             >
                 <Upload size={16} />
-                Upload PDF
+                Upload Document
             </button>
             <button
                 onClick={() => setShowUrlInput(!showUrlInput)}
@@ -190,16 +353,37 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
       )}
 
       {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+      {sources.length > 0 && (
+        <div className="mb-2 px-1">
+          <div className="flex items-center justify-between text-[11px] text-gray-500">
+            <span className="font-semibold uppercase tracking-wider">In context: {contextEstimate.includedCount}/{sources.length}</span>
+            <span className="flex items-center gap-1">
+              <button onClick={() => onSetAllSourcesIncluded(true)} className="hover:text-[#4c0c0a] hover:underline">All</button>
+              <span>·</span>
+              <button onClick={() => onSetAllSourcesIncluded(false)} className="hover:text-[#4c0c0a] hover:underline">None</button>
+            </span>
+          </div>
+          <p className="text-[10px] text-gray-400 mt-0.5" title="Approximate size of the documents sent with the next query">
+            Next query: ~{formatTokens(contextEstimate.tokens)} tokens · {formatBytes(contextEstimate.sizeBytes)}
+            {hasUrlInContext && ' + linked pages'}
+          </p>
+        </div>
+      )}
       
       <div className="flex-grow overflow-y-auto space-y-2 chat-container pr-1">
         {sources.length === 0 && (
           <div className="flex flex-col items-center justify-center py-8 text-gray-400">
              <Upload size={32} className="mb-2 opacity-50" />
-             <p className="text-sm italic text-center">No documents in library.<br/>Upload a PDF to begin.</p>
+             <p className="text-sm italic text-center">No documents in library.<br/>Upload a document to begin.</p>
           </div>
         )}
-        {sources.map((source) => (
-          <div key={source.id} className="flex flex-col p-2.5 bg-white border border-gray-200 rounded-lg shadow-sm hover:shadow-md transition-shadow group">
+        {sources.map((source) => {
+          const loader = source.type === 'file' ? findDocumentLoader({ name: source.title, mimeType: source.mimeType }) : undefined;
+          const DocumentIcon = loader ? DOCUMENT_ICONS[loader.kind] : FileText;
+          const previousVersion = source.previousVersionId ? sources.find(s => s.id === source.previousVersionId) : undefined;
+          return (
+          <div key={source.id} className={`flex flex-col p-2.5 bg-white border border-gray-200 rounded-lg shadow-sm hover:shadow-md transition-shadow group ${isSourceIncluded(source) ? '' : 'opacity-60'}`}>
             
             {editingSourceId === source.id ? (
               <div className="flex items-center gap-2 mb-1">
@@ -217,14 +401,52 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
             ) : (
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2 truncate flex-grow mr-2">
+                    <input
+                      type="checkbox"
+                      checked={isSourceIncluded(source)}
+                      onChange={(e) => onToggleSourceIncluded(source.id, e.target.checked)}
+                      className="h-3.5 w-3.5 accent-[#4c0c0a] flex-shrink-0 cursor-pointer"
+                      title="Include in context for the next query"
+                    />
                     {source.type === 'file' ? (
-                        <FileText size={14} className="text-[#4c0c0a] flex-shrink-0" />
+                        <DocumentIcon size={14} className="text-[#4c0c0a] flex-shrink-0" />
                     ) : (
                         <Globe size={14} className="text-blue-600 flex-shrink-0" />
                     )}
                     <span className="font-medium text-gray-800 text-sm truncate" title={source.title}>{source.title}</span>
                 </div>
+                {extractingSourceIds.includes(source.id) && (
+                  <Loader2 size={12} className="text-[#4c0c0a] animate-spin flex-shrink-0 mr-1" aria-label="Extracting obligations" />
+                )}
                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+                  {source.type === 'file' && onExtractObligations && (
+                    <button
+                      onClick={() => onExtractObligations(source.id)}
+                      disabled={extractingSourceIds.includes(source.id)}
+                      className="p-1 text-gray-400 hover:text-[#4c0c0a] rounded-md hover:bg-gray-100 transition-colors disabled:opacity-40"
+                      title="Extract obligations"
+                    >
+                      <ListChecks size={12} />
+                    </button>
+                  )}
+                  {source.type === 'file' && onSetPreviousVersion && (
+                    <button
+                      onClick={() => setVersioningSourceId(versioningSourceId === source.id ? null : source.id)}
+                      className="p-1 text-gray-400 hover:text-[#4c0c0a] rounded-md hover:bg-gray-100 transition-colors"
+                      title="Mark as a new version of…"
+                    >
+                      <GitBranch size={12} />
+                    </button>
+                  )}
+                  {urlGroups.length > 1 && (
+                    <button 
+                      onClick={() => setMovingSourceId(movingSourceId === source.id ? null : source.id)}
+                      className="p-1 text-gray-400 hover:text-[#4c0c0a] rounded-md hover:bg-gray-100 transition-colors"
+                      title="Move to…"
+                    >
+                      <FolderInput size={12} />
+                    </button>
+                  )}
                    <button 
                     onClick={() => startEditing(source)}
                     className="p-1 text-gray-400 hover:text-blue-600 rounded-md hover:bg-blue-50 transition-colors"
@@ -243,18 +465,105 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
               </div>
             )}
             
+            {movingSourceId === source.id && (
+              <select
+                value=""
+                onChange={(e) => handleMoveSource(source.id, e.target.value)}
+                onBlur={() => setMovingSourceId(null)}
+                className="mt-1.5 ml-11 py-1 px-2 border border-gray-300 bg-white text-gray-700 rounded text-xs focus:border-[#4c0c0a] outline-none"
+                autoFocus
+              >
+                <option value="" disabled>Move to…</option>
+                {urlGroups.filter(g => g.id !== activeUrlGroupId).map(group => (
+                  <option key={group.id} value={group.id}>{group.name}</option>
+                ))}
+              </select>
+            )}
+
+            {versioningSourceId === source.id && onSetPreviousVersion && (
+              <select
+                value={source.previousVersionId || ''}
+                onChange={(e) => {
+                  onSetPreviousVersion(source.id, e.target.value || undefined);
+                  setVersioningSourceId(null);
+                }}
+                onBlur={() => setVersioningSourceId(null)}
+                className="mt-1.5 ml-11 py-1 px-2 border border-gray-300 bg-white text-gray-700 rounded text-xs focus:border-[#4c0c0a] outline-none"
+                autoFocus
+              >
+                <option value="">Not a new version</option>
+                {sources
+                  .filter(s => s.type === 'file' && canBePreviousVersion(source.id, s, sources))
+                  .map(s => <option key={s.id} value={s.id}>New version of: {s.title}</option>)}
+              </select>
+            )}
+
             {source.type === 'url' && (
-                 <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-[10px] text-gray-400 hover:text-[#4c0c0a] hover:underline truncate w-full flex items-center gap-1 mt-0.5 pl-6">
+                 <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-[10px] text-gray-400 hover:text-[#4c0c0a] hover:underline truncate w-full flex items-center gap-1 mt-0.5 pl-11">
                  {source.url} <ExternalLink size={8} />
                </a>
             )}
+            {source.type === 'url' && (
+              <span className="flex items-center gap-1 text-[10px] text-gray-400 pl-11 mt-0.5">
+                <span className="truncate" title={source.snapshot ? `Last checked ${new Date(source.snapshot.checkedAt).toLocaleString()}` : undefined}>
+                  {source.snapshot
+                    ? `Snapshot of ${formatSnapshotDate(source.snapshot.fetchedAt)}`
+                    : 'No snapshot · read live by the model'}
+                </span>
+                {checkingSourceIds.includes(source.id) ? (
+                  <Loader2 size={10} className="text-[#4c0c0a] animate-spin flex-shrink-0" aria-label="Fetching page" />
+                ) : onCheckUrlSource && (
+                  <button
+                    onClick={() => onCheckUrlSource(source.id)}
+                    className="flex items-center gap-0.5 text-[#4c0c0a] hover:underline flex-shrink-0"
+                    title={source.snapshot ? 'Fetch the page again and compare it with the snapshot' : 'Fetch the page and store a snapshot'}
+                  >
+                    <RefreshCw size={10} /> {source.snapshot ? 'Check' : 'Fetch'}
+                  </button>
+                )}
+              </span>
+            )}
+            {source.snapshot?.pendingSnapshotId && (
+              <span className="flex items-center gap-1 text-[10px] text-amber-700 pl-11 mt-0.5">
+                <AlertTriangle size={10} className="flex-shrink-0" />
+                <span className="truncate">Changed since last snapshot</span>
+                {onViewSnapshotChanges && (
+                  <button
+                    onClick={() => onViewSnapshotChanges(source.id)}
+                    className="text-[#4c0c0a] hover:underline flex-shrink-0"
+                  >
+                    View changes
+                  </button>
+                )}
+              </span>
+            )}
             {source.type === 'file' && (
-                 <span className="text-[10px] text-gray-400 pl-6">
-                    PDF Document
+                 <span className="text-[10px] text-gray-400 pl-11">
+                    {loader?.label || 'Document'}
+                    {source.textIndex && (source.textIndex.chunkCount > 0
+                      ? (loader?.kind === 'pdf' ? ` · ${source.textIndex.pageCount} pages indexed` : ' · indexed')
+                      : (loader?.sendsInline ? ' · no text layer, sent whole' : ' · no extractable text'))}
+                    {source.sizeBytes ? ` · ${formatBytes(source.sizeBytes)}` : ''}
                  </span>
             )}
+            {previousVersion && (
+              <span className="flex items-center gap-1 text-[10px] text-gray-500 pl-11 mt-0.5">
+                <GitBranch size={10} className="flex-shrink-0" />
+                <span className="truncate" title={previousVersion.title}>Amends {previousVersion.title}</span>
+                {onCompareVersions && (
+                  <button
+                    onClick={() => onCompareVersions(source.id)}
+                    className="flex items-center gap-0.5 text-[#4c0c0a] hover:underline flex-shrink-0"
+                    title="Compare with the previous version"
+                  >
+                    <GitCompare size={10} /> Compare
+                  </button>
+                )}
+              </span>
+            )}
           </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -3,11 +3,21 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { marked } from 'marked';
 import hljs from 'highlight.js';
-import { ChatMessage, MessageSender } from '../types';
-import { FileText } from 'lucide-react';
+import { ChatMessage, MessageSender, ReferenceSource, Persona, UrlContextMetadataItem, ModelErrorKind } from '../types';
+import {
+  FileText, StopCircle, AlertTriangle, CheckCircle2, XCircle, Globe, KeyRound, Hourglass, FileWarning,
+  ShieldAlert, WifiOff, Timer, ServerCrash, RotateCcw, Scissors, ArrowDownToLine
+} from 'lucide-react';
+import { renderCitationChips, stripIncompleteCitation } from '../utils/citations';
+import { parseBriefingAnswer } from '../utils/briefingFormat';
+import BriefingAnswerView from './BriefingAnswerView';
+import ComparisonTableView from './ComparisonTableView';
+import { describeGenerationSettings } from '../services/generationSettings';
+import { findModelPricing, estimateCost, formatCost } from '../services/usage';
+import { formatTokens } from '../utils/contextBudget';
 
 // Configure marked to use highlight.js for syntax highlighting
 marked.setOptions({
@@ -18,8 +28,63 @@ marked.setOptions({
   langPrefix: 'hljs language-', // Prefix for CSS classes
 } as any);
 
+// Why the URL context tool did not read a library URL
+const RETRIEVAL_FAILURE_LABELS: Record<string, string> = {
+  URL_RETRIEVAL_STATUS_ERROR: 'could not be read',
+  URL_RETRIEVAL_STATUS_PAYWALL: 'behind a paywall',
+  URL_RETRIEVAL_STATUS_UNSAFE: 'blocked as unsafe',
+  URL_RETRIEVAL_STATUS_UNSPECIFIED: 'not read',
+};
+
+// What a failed answer means for the user and what they can do about it
+const ERROR_STATES: Record<ModelErrorKind, { icon: React.ElementType; title: string; advice: string }> = {
+  auth: { icon: KeyRound, title: 'The API key was rejected', advice: 'Check GEMINI_API_KEY, or the key of the provider chosen in Model Settings.' },
+  'rate-limit': { icon: Hourglass, title: 'Rate limit or quota reached', advice: 'Wait a minute and retry. If it persists, the daily quota of the key may be used up.' },
+  'payload-too-large': { icon: FileWarning, title: 'The inquiry is too large', advice: 'Switch off some library sources or remove attachments, then ask again.' },
+  safety: { icon: ShieldAlert, title: 'Blocked by the safety filters', advice: 'Rephrase the inquiry, or relax the safety thresholds in Model Settings.' },
+  network: { icon: WifiOff, title: 'The model could not be reached', advice: 'Check the network connection, or that the API server is running, then retry.' },
+  timeout: { icon: Timer, title: 'The model took too long to answer', advice: 'Retry, or lower the thinking budget or the number of sources.' },
+  unavailable: { icon: ServerCrash, title: 'The model service is unavailable', advice: 'The service is overloaded or down. Retry in a moment.' },
+  unknown: { icon: AlertTriangle, title: 'The answer could not be produced', advice: 'Retry. If it keeps failing, the browser console has details.' },
+};
+
+// Finish reasons other than the token limit, which gets its own notice with a continue action
+const FINISH_REASON_NOTICES: Record<string, string> = {
+  SAFETY: 'Answer stopped by the safety filters',
+  PROHIBITED_CONTENT: 'Answer stopped: it touched prohibited content',
+  BLOCKLIST: 'Answer stopped: it contained blocklisted terms',
+  SPII: 'Answer stopped: it contained sensitive personal information',
+  RECITATION: 'Answer stopped because it was reproducing copyrighted text',
+  LANGUAGE: 'Answer stopped: the language is not supported',
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// HARM_CATEGORY_HATE_SPEECH -> "hate speech"
+const harmCategoryLabel = (category: string): string =>
+  category.replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' ');
+
+const hostnameOf = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
 interface MessageItemProps {
   message: ChatMessage;
+  // Persona recorded on the message; answers without one predate personas and use the briefing format
+  persona?: Persona;
+  sources?: ReferenceSource[];
+  onOpenCitation?: (source: ReferenceSource, page?: number) => void;
+  isSelectable?: boolean;
+  isSelected?: boolean;
+  onToggleSelected?: () => void;
+  // Present while a failed answer can be sent again
+  onRetry?: () => void;
+  // Present while an answer cut off at the token limit can be continued
+  onContinue?: () => void;
 }
 
 const SenderAvatar: React.FC<{ sender: MessageSender }> = ({ sender }) => {
@@ -48,16 +113,210 @@ const SenderAvatar: React.FC<{ sender: MessageSender }> = ({ sender }) => {
   );
 };
 
-const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
+const MessageItem: React.FC<MessageItemProps> = ({
+  message,
+  persona,
+  sources = [],
+  onOpenCitation,
+  isSelectable,
+  isSelected,
+  onToggleSelected,
+  onRetry,
+  onContinue,
+}) => {
   const isUser = message.sender === MessageSender.USER;
   const isModel = message.sender === MessageSender.MODEL;
   const isSystem = message.sender === MessageSender.SYSTEM;
+  // Answers saved before providers existed all came from Gemini
+  const usagePricing = message.generationSettings && findModelPricing(message.generationSettings.provider || 'gemini', message.generationSettings.model);
+
+  // Citation chips are injected as raw HTML, so clicks are resolved via delegation.
+  const handleCitationClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const chip = (e.target as HTMLElement).closest<HTMLElement>('[data-citation-id]');
+    if (!chip || !onOpenCitation) return;
+    const source = sources.find(s => s.id === chip.dataset.citationId);
+    if (!source) return;
+    const page = parseInt(chip.dataset.citationPage || '', 10);
+    onOpenCitation(source, Number.isFinite(page) ? page : undefined);
+  };
+
+  // Finished answers render from the parsed briefing; anything that does not parse falls back to markdown
+  const briefing = useMemo(() => {
+    const isFinishedAnswer = isModel && !message.isLoading && !message.isStreaming && !message.isError && !message.isTruncated && !message.completion;
+    const isBriefingFormat = !message.comparison && (persona?.answerFormat ?? 'briefing') === 'briefing';
+    return isFinishedAnswer && isBriefingFormat ? parseBriefingAnswer(message.text || "").answer : null;
+  }, [isModel, persona?.answerFormat, message.comparison, message.isLoading, message.isStreaming, message.isError, message.isTruncated, message.completion, message.text]);
+
+  // Library URLs show whether the model could read them; anything else is an external web result
+  const renderSourceLink = (meta: UrlContextMetadataItem, index: number) => {
+    const librarySource = meta.origin === 'library' ? sources.find(s => s.id === meta.sourceId) : undefined;
+    const isRead = meta.urlRetrievalStatus === 'URL_RETRIEVAL_STATUS_SUCCESS';
+    let icon: React.ReactNode;
+    let label: string;
+    if (meta.origin === 'library') {
+      icon = isRead
+        ? <CheckCircle2 size={11} className="text-green-600 flex-shrink-0" />
+        : <XCircle size={11} className="text-red-500 flex-shrink-0" />;
+      label = isRead ? 'Library · read' : `Library · ${RETRIEVAL_FAILURE_LABELS[meta.urlRetrievalStatus] || 'not read'}`;
+    } else {
+      icon = <Globe size={11} className="text-gray-400 flex-shrink-0" />;
+      label = 'Web result';
+    }
+
+    return (
+      <li key={index} className="text-[11px] text-gray-500 flex items-center gap-1.5">
+        {icon}
+        <a
+          href={meta.retrievedUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hover:underline truncate text-[#4c0c0a] font-medium min-w-0"
+          title={meta.retrievedUrl}
+        >
+          {librarySource?.title || meta.title || (meta.origin === 'library' ? meta.retrievedUrl : hostnameOf(meta.retrievedUrl))}
+        </a>
+        <span
+          className={`text-[9px] px-1 rounded ml-auto flex-shrink-0 whitespace-nowrap ${meta.origin === 'library' && !isRead ? 'bg-red-50 text-red-600' : 'bg-gray-200 text-gray-500'}`}
+        >
+          {label}
+        </span>
+      </li>
+    );
+  };
+
+  // Why the answer is empty or ends early; hidden while a continuation streams in
+  const renderCompletionNotice = () => {
+    const completion = message.completion;
+    if (!completion || message.isStreaming) return null;
+    const categories = completion.flaggedCategories?.map(harmCategoryLabel).join(', ');
+
+    if (completion.blockReason || completion.finishReason !== 'MAX_TOKENS') {
+      const title = completion.blockReason
+        ? 'Inquiry blocked by the safety filters'
+        : FINISH_REASON_NOTICES[completion.finishReason || ''] || `Answer ended early (${completion.finishReason})`;
+      const isSafety = !!completion.blockReason || SAFETY_FINISH_REASONS.includes(completion.finishReason || '');
+      const Icon = isSafety ? ShieldAlert : AlertTriangle;
+      return (
+        <div className="mt-3 flex items-start gap-2 text-[11px] text-red-800 bg-red-50 border border-red-200 px-2.5 py-2 rounded">
+          <Icon size={14} className="flex-shrink-0 mt-px" />
+          <div>
+            <p className="font-semibold">
+              {title}{categories ? `: ${categories}` : completion.blockReason ? ` (${completion.blockReason})` : ''}
+            </p>
+            <p className="mt-0.5 text-red-700">
+              {completion.blockReason ? 'Nothing was generated. ' : ''}
+              {isSafety ? 'Rephrase the inquiry, or relax the safety thresholds in Model Settings.' : 'Rephrase the inquiry and ask again.'}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="mt-3 flex items-start gap-2 text-[11px] text-amber-800 bg-amber-50 border border-amber-200 px-2.5 py-2 rounded">
+        <Scissors size={14} className="flex-shrink-0 mt-px" />
+        <div>
+          <p className="font-semibold">
+            Answer cut off at the output token limit{message.generationSettings ? ` (${message.generationSettings.maxOutputTokens} tokens)` : ''}
+          </p>
+          <p className="mt-0.5 text-amber-700">Continue it here, or raise Max output tokens in Model Settings for future answers.</p>
+          {onContinue && (
+            <button
+              onClick={onContinue}
+              className="mt-2 inline-flex items-center gap-1.5 text-xs bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-2.5 py-1.5 rounded-md transition-colors"
+            >
+              <ArrowDownToLine size={12} />
+              Continue
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderErrorState = () => {
+    const state = ERROR_STATES[message.errorKind || 'unknown'];
+    const Icon = state.icon;
+    return (
+      <div className="flex items-start gap-2.5 text-sm">
+        <Icon size={18} className="text-red-700 flex-shrink-0 mt-0.5" />
+        <div className="min-w-0">
+          <p className="font-semibold text-gray-900">{state.title}</p>
+          <p className="text-gray-600 mt-0.5">{state.advice}</p>
+          {message.text && <p className="text-[11px] text-gray-400 mt-1.5 break-words">{message.text}</p>}
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="mt-2.5 inline-flex items-center gap-1.5 text-xs bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-2.5 py-1.5 rounded-md transition-colors"
+            >
+              <RotateCcw size={12} />
+              Retry
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
 
   const renderMessageContent = () => {
+    // Errors saved before they were classified keep their original apology text
+    if (isModel && message.isError && message.errorKind) {
+      return renderErrorState();
+    }
     if (isModel && !message.isLoading) {
       const proseClasses = "prose prose-sm prose-slate w-full min-w-0 max-w-none"; 
-      const rawMarkup = marked.parse(message.text || "") as string;
-      return <div className={proseClasses} dangerouslySetInnerHTML={{ __html: rawMarkup }} />;
+      const text = message.isStreaming ? stripIncompleteCitation(message.text || "") : (message.text || "");
+      return (
+        <>
+          {message.comparison ? (
+            <div onClick={handleCitationClick}>
+              <ComparisonTableView table={message.comparison} sources={sources} turnSources={message.contextSources} />
+            </div>
+          ) : briefing ? (
+            <div onClick={handleCitationClick}>
+              <BriefingAnswerView answer={briefing} sources={sources} turnSources={message.contextSources} />
+            </div>
+          ) : (
+            <div
+              className={proseClasses}
+              onClick={handleCitationClick}
+              dangerouslySetInnerHTML={{ __html: marked.parse(renderCitationChips(text, sources, message.contextSources)) as string }}
+            />
+          )}
+          {message.isStreaming && (
+            <span className="inline-block w-1.5 h-4 bg-gray-400 animate-pulse align-middle" aria-hidden="true"></span>
+          )}
+          {message.isTruncated && (
+            <div className="mt-3 inline-flex items-center gap-1.5 text-[11px] font-medium text-amber-800 bg-amber-50 border border-amber-200 px-2 py-1 rounded">
+              <StopCircle size={12} />
+              Response stopped — this answer is incomplete.
+            </div>
+          )}
+          {renderCompletionNotice()}
+          {message.skippedSources && message.skippedSources.length > 0 && (
+            <div className="mt-3 text-[11px] text-amber-900 bg-amber-50 border border-amber-200 px-2.5 py-2 rounded">
+              <div className="flex items-center gap-1.5 font-medium">
+                <FileWarning size={12} />
+                Not consulted: {message.skippedSources.length} included source(s) could not be sent to the model
+              </div>
+              <ul className="mt-1 ml-5 list-disc space-y-0.5">
+                {message.skippedSources.map(source => (
+                  <li key={source.id}><span className="font-medium">{source.title}</span> — {source.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {message.formatViolations && message.formatViolations.length > 0 && (
+            <div
+              className="mt-3 inline-flex items-center gap-1.5 text-[11px] font-medium text-gray-600 bg-gray-100 border border-gray-300 px-2 py-1 rounded cursor-help"
+              title={message.formatViolations.join('\n')}
+            >
+              <AlertTriangle size={12} />
+              Format deviated from the briefing structure
+            </div>
+          )}
+        </>
+      );
     }
     
     let textColorClass = '';
@@ -87,9 +346,35 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
   return (
     <div className={`flex mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`flex items-start gap-3 max-w-[90%] md:max-w-[85%]`}>
+        {isSelectable && (
+          <input
+            type="checkbox"
+            checked={!!isSelected}
+            onChange={onToggleSelected}
+            className="mt-2.5 h-4 w-4 accent-[#4c0c0a] flex-shrink-0 cursor-pointer"
+            aria-label="Select answer for export"
+          />
+        )}
         {!isUser && !isSystem && <SenderAvatar sender={message.sender} />}
         
         <div className="flex flex-col gap-1 w-full">
+          {isModel && (persona || message.generationSettings || message.usage) && (
+            <div className="flex flex-wrap items-baseline gap-x-2 text-[10px] text-gray-400">
+              {persona && <span className="uppercase font-bold tracking-wider">{persona.name}</span>}
+              {message.generationSettings && (
+                <span title={`Max output tokens: ${message.generationSettings.maxOutputTokens}\nSafety: ${Object.values(message.generationSettings.safety).join(', ')}`}>
+                  {describeGenerationSettings(message.generationSettings)}
+                </span>
+              )}
+              {message.usage && (
+                <span title={`Prompt: ${message.usage.promptTokens.toLocaleString()} tokens\nAnswer: ${message.usage.candidatesTokens.toLocaleString()} tokens\nThinking: ${message.usage.thinkingTokens.toLocaleString()} tokens`}>
+                  {formatTokens(message.usage.promptTokens)} in · {formatTokens(message.usage.candidatesTokens + message.usage.thinkingTokens)} out
+                  {usagePricing && ` · ~${formatCost(estimateCost(message.usage, usagePricing))}`}
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Attachments Display */}
           {message.attachments && message.attachments.length > 0 && (
             <div className={`flex flex-wrap gap-2 mb-1 ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -117,21 +402,7 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
               <div className="mt-4 pt-3 border-t border-gray-300/50">
                 <h4 className="text-[10px] uppercase font-bold text-gray-500 mb-2 tracking-wider">Source Links:</h4>
                 <ul className="space-y-1.5">
-                  {message.urlContext.map((meta, index) => {
-                    const statusText = typeof meta.urlRetrievalStatus === 'string' 
-                      ? meta.urlRetrievalStatus.replace('URL_RETRIEVAL_STATUS_', '') 
-                      : 'UNKNOWN';
-                    const isSuccess = meta.urlRetrievalStatus === 'URL_RETRIEVAL_STATUS_SUCCESS';
-
-                    return (
-                      <li key={index} className="text-[11px] text-gray-500 flex items-center justify-between">
-                        <a href={meta.retrievedUrl} target="_blank" rel="noopener noreferrer" className="hover:underline truncate max-w-[90%] text-[#4c0c0a] font-medium block">
-                          {meta.retrievedUrl}
-                        </a>
-                        {!isSuccess && <span className="text-[9px] bg-gray-200 text-gray-500 px-1 rounded ml-2">{statusText}</span>}
-                      </li>
-                    );
-                  })}
+                  {message.urlContext.map((meta, index) => renderSourceLink(meta, index))}
                 </ul>
               </div>
             )}
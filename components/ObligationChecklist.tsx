@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X, Download, ClipboardList } from 'lucide-react';
+import { Obligation, ObligationActor, ObligationStatus, ReferenceSource, RiskTier } from '../types';
+import { ACTOR_LABELS, RISK_TIER_LABELS, STATUS_LABELS } from '../services/obligations';
+
+interface ObligationChecklistProps {
+  obligations: Obligation[];
+  sources: ReferenceSource[];
+  onUpdateObligation: (id: string, changes: Partial<Pick<Obligation, 'status' | 'notes'>>) => void;
+  onExportCsv: (obligations: Obligation[]) => void;
+  onOpenSource?: (source: ReferenceSource, page?: number) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ObligationStatus, string> = {
+  open: 'border-gray-300 text-gray-700',
+  done: 'border-green-300 bg-green-50 text-green-800',
+  not_applicable: 'border-gray-200 bg-gray-100 text-gray-500',
+};
+
+const selectClasses = "h-8 py-1 px-2 border border-gray-300 bg-white rounded-md text-xs text-gray-800 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a]";
+
+const ObligationChecklist: React.FC<ObligationChecklistProps> = ({
+  obligations,
+  sources,
+  onUpdateObligation,
+  onExportCsv,
+  onOpenSource,
+  onClose,
+}) => {
+  const [sourceFilter, setSourceFilter] = useState<string>('all');
+  const [actorFilter, setActorFilter] = useState<ObligationActor | 'all'>('all');
+  const [tierFilter, setTierFilter] = useState<RiskTier | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<ObligationStatus | 'all'>('all');
+
+  const sourceTitle = (sourceId: string) => sources.find(s => s.id === sourceId)?.title || 'Removed document';
+  const sourceIds = Array.from(new Set<string>(obligations.map(o => o.sourceId)));
+
+  const filtered = obligations
+    .filter(o =>
+      (sourceFilter === 'all' || o.sourceId === sourceFilter) &&
+      (actorFilter === 'all' || o.actor === actorFilter) &&
+      (tierFilter === 'all' || o.riskTier === tierFilter) &&
+      (statusFilter === 'all' || o.status === statusFilter)
+    )
+    // Document order: by source, then page
+    .sort((a, b) => sourceTitle(a.sourceId).localeCompare(sourceTitle(b.sourceId)) || (a.page ?? Infinity) - (b.page ?? Infinity));
+  const doneCount = filtered.filter(o => o.status !== 'open').length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-5xl h-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6] rounded-t-xl">
+          <div className="flex items-center gap-2">
+            <ClipboardList size={16} className="text-[#4c0c0a]" />
+            <h3 className="font-semibold text-[#4c0c0a] font-serif">Obligations Checklist</h3>
+            <span className="text-xs text-gray-500">{doneCount}/{filtered.length} resolved</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onExportCsv(filtered)}
+              disabled={filtered.length === 0}
+              className="flex items-center gap-1.5 text-xs font-medium text-gray-600 hover:text-[#4c0c0a] hover:bg-gray-200 px-2 py-1.5 rounded-md transition-colors disabled:opacity-40"
+              title="Export the filtered obligations as CSV"
+            >
+              <Download size={14} /> CSV
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+              aria-label="Close obligations checklist"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-3 border-b border-gray-200 flex flex-wrap items-center gap-2">
+          <select value={sourceFilter} onChange={(e) => setSourceFilter(e.target.value)} className={selectClasses} aria-label="Filter by document">
+            <option value="all">All documents</option>
+            {sourceIds.map(id => <option key={id} value={id}>{sourceTitle(id)}</option>)}
+          </select>
+          <select value={actorFilter} onChange={(e) => setActorFilter(e.target.value as ObligationActor | 'all')} className={selectClasses} aria-label="Filter by actor">
+            <option value="all">All actors</option>
+            {(Object.keys(ACTOR_LABELS) as ObligationActor[]).map(actor => <option key={actor} value={actor}>{ACTOR_LABELS[actor]}</option>)}
+          </select>
+          <select value={tierFilter} onChange={(e) => setTierFilter(e.target.value as RiskTier | 'all')} className={selectClasses} aria-label="Filter by risk tier">
+            <option value="all">All risk tiers</option>
+            {(Object.keys(RISK_TIER_LABELS) as RiskTier[]).map(tier => <option key={tier} value={tier}>{RISK_TIER_LABELS[tier]}</option>)}
+          </select>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as ObligationStatus | 'all')} className={selectClasses} aria-label="Filter by status">
+            <option value="all">Any status</option>
+            {(Object.keys(STATUS_LABELS) as ObligationStatus[]).map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+          </select>
+        </div>
+
+        <div className="flex-grow overflow-y-auto chat-container p-3 space-y-2">
+          {obligations.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-10">
+              No obligations yet. Use "Extract obligations" on a document in the library.
+            </p>
+          )}
+          {obligations.length > 0 && filtered.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-10">No obligations match these filters.</p>
+          )}
+          {filtered.map(obligation => {
+            const source = sources.find(s => s.id === obligation.sourceId);
+            return (
+              <div key={obligation.id} className={`border border-gray-200 rounded-lg p-3 ${obligation.status === 'not_applicable' ? 'opacity-60' : ''}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px] text-gray-500 mb-1">
+                      {source && onOpenSource ? (
+                        <button
+                          onClick={() => onOpenSource(source, obligation.page)}
+                          className="font-semibold text-[#4c0c0a] hover:underline"
+                          title={`Open ${source.title}`}
+                        >
+                          {obligation.article || 'Unreferenced'}{obligation.page ? ` · p. ${obligation.page}` : ''}
+                        </button>
+                      ) : (
+                        <span className="font-semibold text-gray-700">{obligation.article || 'Unreferenced'}</span>
+                      )}
+                      <span className="truncate max-w-[14rem]">{sourceTitle(obligation.sourceId)}</span>
+                      <span className="bg-gray-100 px-1.5 rounded">{ACTOR_LABELS[obligation.actor]}</span>
+                      <span className="bg-gray-100 px-1.5 rounded">{RISK_TIER_LABELS[obligation.riskTier]}</span>
+                      {obligation.deadline && <span className="bg-amber-50 text-amber-800 px-1.5 rounded">Deadline: {obligation.deadline}</span>}
+                    </div>
+                    <p className={`text-sm text-gray-800 ${obligation.status === 'done' ? 'line-through decoration-gray-400' : ''}`}>{obligation.text}</p>
+                  </div>
+                  <select
+                    value={obligation.status}
+                    onChange={(e) => onUpdateObligation(obligation.id, { status: e.target.value as ObligationStatus })}
+                    className={`h-8 py-1 px-2 border rounded-md text-xs flex-shrink-0 ${STATUS_STYLES[obligation.status]}`}
+                    aria-label="Obligation status"
+                  >
+                    {(Object.keys(STATUS_LABELS) as ObligationStatus[]).map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+                  </select>
+                </div>
+                <textarea
+                  defaultValue={obligation.notes}
+                  onBlur={(e) => e.target.value !== obligation.notes && onUpdateObligation(obligation.id, { notes: e.target.value })}
+                  placeholder="Notes (owner, evidence, rationale for N/A)..."
+                  rows={1}
+                  className="mt-2 w-full py-1.5 px-2 border border-gray-200 rounded-md text-xs text-gray-700 placeholder-gray-400 resize-y focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a]"
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ObligationChecklist;
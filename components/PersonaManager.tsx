@@ -0,0 +1,238 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X, Plus, Copy, Trash2, Lock } from 'lucide-react';
+import { Persona, AnswerFormat } from '../types';
+import { createPersonaId } from '../services/personas';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  activePersonaId: string;
+  onSavePersona: (persona: Persona) => void;
+  onDeletePersona: (personaId: string) => void;
+  onSelectPersona: (personaId: string) => void;
+  onClose: () => void;
+}
+
+const ANSWER_FORMAT_OPTIONS: { value: AnswerFormat; label: string }[] = [
+  { value: 'briefing', label: 'Briefing (validated: title, short review, key details)' },
+  { value: 'freeform', label: 'Free-form (structure described in the instructions)' },
+];
+
+const PersonaManager: React.FC<PersonaManagerProps> = ({
+  personas,
+  activePersonaId,
+  onSavePersona,
+  onDeletePersona,
+  onSelectPersona,
+  onClose,
+}) => {
+  const [editedId, setEditedId] = useState<string>(activePersonaId);
+  // Unsaved edits of the persona open in the editor
+  const [draft, setDraft] = useState<Persona | null>(null);
+
+  const edited = draft || personas.find(p => p.id === editedId) || personas[0];
+  const isDirty = draft !== null;
+
+  const openPersona = (personaId: string) => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this persona?")) return;
+    setDraft(null);
+    setEditedId(personaId);
+  };
+
+  const startDraft = (persona: Persona) => {
+    setDraft(persona);
+    setEditedId(persona.id);
+  };
+
+  const handleCreate = () => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this persona?")) return;
+    startDraft({
+      id: createPersonaId(),
+      name: 'New persona',
+      description: '',
+      instructions: '',
+      answerFormat: 'freeform',
+    });
+  };
+
+  const handleDuplicate = () => {
+    startDraft({
+      ...edited,
+      id: createPersonaId(),
+      name: `${edited.name} (copy)`,
+      isBuiltIn: false,
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.instructions.trim()) {
+      alert("A persona needs a name and instructions.");
+      return;
+    }
+    onSavePersona({ ...draft, name: draft.name.trim(), description: draft.description.trim() });
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the persona "${edited.name}"?`)) return;
+    onDeletePersona(edited.id);
+    setDraft(null);
+    setEditedId(personas[0].id);
+  };
+
+  const updateDraft = (changes: Partial<Persona>) => {
+    setDraft({ ...edited, ...changes });
+  };
+
+  const isReadOnly = !!edited.isBuiltIn;
+  const isSaved = personas.some(p => p.id === edited.id);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-4xl h-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6] rounded-t-xl">
+          <h3 className="font-semibold text-[#4c0c0a] font-serif">Personas</h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+            aria-label="Close persona manager"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-grow flex min-h-0">
+          <div className="w-56 border-r border-gray-200 flex flex-col">
+            <ul className="flex-grow overflow-y-auto chat-container p-2 space-y-1">
+              {personas.map(persona => (
+                <li key={persona.id}>
+                  <button
+                    onClick={() => openPersona(persona.id)}
+                    className={`w-full text-left px-2.5 py-2 rounded-md text-sm transition-colors ${persona.id === edited.id ? 'bg-[#4c0c0a]/10 text-[#4c0c0a] font-medium' : 'text-gray-700 hover:bg-gray-100'}`}
+                  >
+                    <span className="flex items-center gap-1.5">
+                      {persona.isBuiltIn && <Lock size={11} className="text-gray-400 flex-shrink-0" />}
+                      <span className="truncate">{persona.name}</span>
+                    </span>
+                    {persona.id === activePersonaId && (
+                      <span className="text-[10px] uppercase tracking-wider text-gray-400">In use</span>
+                    )}
+                  </button>
+                </li>
+              ))}
+              {draft && !isSaved && (
+                <li className="px-2.5 py-2 rounded-md text-sm bg-[#4c0c0a]/10 text-[#4c0c0a] font-medium truncate">{draft.name || 'New persona'}</li>
+              )}
+            </ul>
+            <div className="p-2 border-t border-gray-200">
+              <button
+                onClick={handleCreate}
+                className="w-full flex items-center justify-center gap-1.5 text-sm text-[#4c0c0a] hover:bg-gray-100 rounded-md py-1.5 transition-colors"
+              >
+                <Plus size={14} /> New persona
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-grow flex flex-col min-w-0 p-4 gap-3 overflow-y-auto chat-container">
+            {isReadOnly && (
+              <p className="text-xs text-gray-500 bg-gray-50 border border-gray-200 rounded-md px-3 py-2">
+                Built-in personas cannot be edited. Duplicate this one to customise its instructions.
+              </p>
+            )}
+            <label className="text-xs font-medium text-gray-600">
+              Name
+              <input
+                value={edited.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                disabled={isReadOnly}
+                className="mt-1 w-full h-9 py-1.5 px-2.5 border border-gray-300 rounded-md text-sm text-gray-900 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] disabled:bg-gray-50"
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              Description
+              <input
+                value={edited.description}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                disabled={isReadOnly}
+                className="mt-1 w-full h-9 py-1.5 px-2.5 border border-gray-300 rounded-md text-sm text-gray-900 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] disabled:bg-gray-50"
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              Answer format
+              <select
+                value={edited.answerFormat}
+                onChange={(e) => updateDraft({ answerFormat: e.target.value as AnswerFormat })}
+                disabled={isReadOnly}
+                className="mt-1 w-full h-9 py-1.5 px-2 border border-gray-300 rounded-md text-sm text-gray-900 bg-white focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] disabled:bg-gray-50"
+              >
+                {ANSWER_FORMAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-600 flex-grow flex flex-col">
+              System instructions
+              <textarea
+                value={edited.instructions}
+                onChange={(e) => updateDraft({ instructions: e.target.value })}
+                disabled={isReadOnly}
+                placeholder="Role, tone, context rule and answer structure..."
+                className="mt-1 flex-grow min-h-[220px] w-full py-2 px-2.5 border border-gray-300 rounded-md text-xs font-mono text-gray-900 resize-none focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a] disabled:bg-gray-50"
+              />
+              <span className="mt-1 font-normal text-[11px] text-gray-400">The citation rules are appended automatically.</span>
+            </label>
+
+            <div className="flex items-center justify-between gap-2 pt-1">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleDuplicate}
+                  className="flex items-center gap-1.5 text-sm text-gray-600 hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors"
+                >
+                  <Copy size={14} /> Duplicate
+                </button>
+                {!isReadOnly && isSaved && (
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center gap-1.5 text-sm text-red-600 hover:bg-red-50 px-3 py-1.5 rounded-md transition-colors"
+                  >
+                    <Trash2 size={14} /> Delete
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {isSaved && !isDirty && edited.id !== activePersonaId && (
+                  <button
+                    onClick={() => onSelectPersona(edited.id)}
+                    className="text-sm text-[#4c0c0a] border border-[#4c0c0a] hover:bg-red-50 px-3 py-1.5 rounded-md transition-colors"
+                  >
+                    Use this persona
+                  </button>
+                )}
+                {!isReadOnly && (
+                  <button
+                    onClick={handleSave}
+                    disabled={!isDirty}
+                    className="text-sm bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-1.5 rounded-md transition-colors disabled:opacity-40"
+                  >
+                    Save
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaManager;
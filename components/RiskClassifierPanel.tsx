@@ -0,0 +1,366 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { marked } from 'marked';
+import { X, Plus, ChevronLeft, ChevronRight, RefreshCw, Pencil, Trash2, Loader2, ShieldCheck, AlertTriangle, FileWarning } from 'lucide-react';
+import { AISystemDescription, ReferenceSource, RiskTier, SystemProfile } from '../types';
+import { RISK_TIER_LABELS } from '../services/obligations';
+import { WIZARD_STEPS, EMPTY_SYSTEM_DESCRIPTION, createSystemProfileId, isClassificationStale } from '../services/riskClassification';
+import { renderCitationChips } from '../utils/citations';
+import { isSourceIncluded } from '../utils/contextBudget';
+
+interface RiskClassifierPanelProps {
+  profiles: SystemProfile[];
+  sources: ReferenceSource[];
+  classifyingProfileIds: string[];
+  onClassify: (profile: SystemProfile) => void;
+  onDeleteProfile: (profileId: string) => void;
+  onOpenCitation?: (source: ReferenceSource, page?: number) => void;
+  onClose: () => void;
+}
+
+type PanelView =
+  | { mode: 'list' }
+  | { mode: 'wizard'; profileId?: string; draft: AISystemDescription; step: number }
+  | { mode: 'result'; profileId: string };
+
+const TIER_STYLES: Record<RiskTier, string> = {
+  prohibited: 'bg-red-100 text-red-800 border-red-200',
+  high: 'bg-amber-100 text-amber-800 border-amber-200',
+  limited: 'bg-blue-50 text-blue-800 border-blue-200',
+  minimal: 'bg-green-50 text-green-800 border-green-200',
+  gpai: 'bg-purple-50 text-purple-800 border-purple-200',
+  gpai_systemic: 'bg-purple-100 text-purple-900 border-purple-200',
+  unspecified: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+const inputClasses = "w-full py-1.5 px-2.5 border border-gray-300 bg-white rounded-md text-sm text-gray-900 placeholder-gray-400 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a]";
+
+const TierBadge: React.FC<{ tier: RiskTier }> = ({ tier }) => (
+  <span className={`text-[11px] font-semibold px-1.5 py-0.5 rounded border ${TIER_STYLES[tier]}`}>{RISK_TIER_LABELS[tier]}</span>
+);
+
+const RiskClassifierPanel: React.FC<RiskClassifierPanelProps> = ({
+  profiles,
+  sources,
+  classifyingProfileIds,
+  onClassify,
+  onDeleteProfile,
+  onOpenCitation,
+  onClose,
+}) => {
+  const [view, setView] = useState<PanelView>({ mode: 'list' });
+  const hasLibrarySources = sources.some(isSourceIncluded);
+
+  const startWizard = (profile?: SystemProfile) => {
+    const draft: AISystemDescription = profile
+      ? { name: profile.name, purpose: profile.purpose, sector: profile.sector, users: profile.users, data: profile.data, autonomy: profile.autonomy }
+      : EMPTY_SYSTEM_DESCRIPTION;
+    setView({ mode: 'wizard', profileId: profile?.id, draft, step: 0 });
+  };
+
+  const handleSubmitWizard = (profileId: string | undefined, draft: AISystemDescription) => {
+    const existing = profiles.find(p => p.id === profileId);
+    const now = new Date();
+    const profile: SystemProfile = {
+      ...draft,
+      id: existing?.id || createSystemProfileId(),
+      // A changed description needs a fresh evaluation
+      classification: undefined,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    onClassify(profile);
+    setView({ mode: 'result', profileId: profile.id });
+  };
+
+  const handleDelete = (profile: SystemProfile) => {
+    if (!window.confirm(`Delete the system profile "${profile.name}"?`)) return;
+    onDeleteProfile(profile.id);
+    setView({ mode: 'list' });
+  };
+
+  // Citation chips are injected as raw HTML, so clicks are resolved via delegation.
+  const handleCitationClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const chip = (e.target as HTMLElement).closest<HTMLElement>('[data-citation-id]');
+    if (!chip || !onOpenCitation) return;
+    const source = sources.find(s => s.id === chip.dataset.citationId);
+    if (!source) return;
+    const page = parseInt(chip.dataset.citationPage || '', 10);
+    onOpenCitation(source, Number.isFinite(page) ? page : undefined);
+  };
+
+  const renderList = () => (
+    <div className="p-3 space-y-2">
+      <button
+        onClick={() => startWizard()}
+        className="w-full flex items-center justify-center gap-1.5 text-sm bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-2 rounded-md transition-colors"
+      >
+        <Plus size={16} /> Classify a new system
+      </button>
+      {profiles.length === 0 && (
+        <p className="text-xs text-gray-400 italic text-center py-6">
+          No saved systems yet. Describe an AI system to see where it falls under the EU AI Act.
+        </p>
+      )}
+      {profiles.map(profile => {
+        const isClassifying = classifyingProfileIds.includes(profile.id);
+        return (
+          <button
+            key={profile.id}
+            onClick={() => setView({ mode: 'result', profileId: profile.id })}
+            className="w-full text-left border border-gray-200 rounded-lg p-2.5 hover:border-[#4c0c0a] hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium text-gray-900 truncate">{profile.name || 'Untitled system'}</span>
+              {isClassifying ? (
+                <Loader2 size={14} className="animate-spin text-gray-400 flex-shrink-0" />
+              ) : profile.classification ? (
+                <TierBadge tier={profile.classification.tier} />
+              ) : (
+                <span className="text-[11px] text-gray-400">Not evaluated</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 mt-1 text-[11px] text-gray-500">
+              <span className="truncate">{profile.sector}</span>
+              {isClassificationStale(profile, sources) && !isClassifying && (
+                <span className="flex items-center gap-0.5 text-amber-700 flex-shrink-0"><AlertTriangle size={11} /> Library changed</span>
+              )}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderWizard = (wizard: Extract<PanelView, { mode: 'wizard' }>) => {
+    const step = WIZARD_STEPS[wizard.step];
+    const isLastStep = wizard.step === WIZARD_STEPS.length - 1;
+    const isStepComplete = step.fields.every(field => wizard.draft[field.key].trim());
+    const updateDraft = (key: keyof AISystemDescription, value: string) => {
+      setView({ ...wizard, draft: { ...wizard.draft, [key]: value } });
+    };
+
+    return (
+      <div className="p-3 flex flex-col gap-3">
+        <ol className="flex items-center gap-1 text-[11px]">
+          {WIZARD_STEPS.map((s, idx) => (
+            <li
+              key={s.title}
+              className={`flex-1 text-center py-1 rounded ${idx === wizard.step ? 'bg-[#4c0c0a] text-white' : idx < wizard.step ? 'bg-gray-200 text-gray-700' : 'bg-gray-100 text-gray-400'}`}
+            >
+              {idx + 1}. {s.title}
+            </li>
+          ))}
+        </ol>
+
+        {step.fields.map(field => (
+          <label key={field.key} className="block text-xs font-medium text-gray-600">
+            {field.label}
+            {field.multiline ? (
+              <textarea
+                value={wizard.draft[field.key]}
+                onChange={(e) => updateDraft(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                rows={4}
+                className={`${inputClasses} mt-1 resize-y`}
+              />
+            ) : (
+              <input
+                type="text"
+                value={wizard.draft[field.key]}
+                onChange={(e) => updateDraft(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                className={`${inputClasses} mt-1 h-9`}
+              />
+            )}
+          </label>
+        ))}
+
+        {isLastStep && !hasLibrarySources && (
+          <p className="text-[11px] text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2">
+            The library has no sources switched on. Add the EU AI Act to the library so the classification can cite it.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between pt-1">
+          <button
+            onClick={() => wizard.step === 0
+              ? setView(wizard.profileId ? { mode: 'result', profileId: wizard.profileId } : { mode: 'list' })
+              : setView({ ...wizard, step: wizard.step - 1 })}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors"
+          >
+            <ChevronLeft size={16} /> {wizard.step === 0 ? 'Cancel' : 'Back'}
+          </button>
+          {isLastStep ? (
+            <button
+              onClick={() => handleSubmitWizard(wizard.profileId, wizard.draft)}
+              disabled={!isStepComplete || !hasLibrarySources}
+              className="flex items-center gap-1.5 text-sm bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-1.5 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-[#4c0c0a]"
+            >
+              <ShieldCheck size={16} /> Save and classify
+            </button>
+          ) : (
+            <button
+              onClick={() => setView({ ...wizard, step: wizard.step + 1 })}
+              disabled={!isStepComplete}
+              className="flex items-center gap-1 text-sm bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-1.5 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-[#4c0c0a]"
+            >
+              Next <ChevronRight size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderResult = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return renderList();
+    const classification = profile.classification;
+    const isClassifying = classifyingProfileIds.includes(profile.id);
+    const isStale = isClassificationStale(profile, sources);
+
+    return (
+      <div className="p-3 space-y-3" onClick={handleCitationClick}>
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h4 className="text-sm font-semibold text-gray-900">{profile.name}</h4>
+            <p className="text-[11px] text-gray-500">{profile.sector}</p>
+          </div>
+          <div className="flex items-center gap-0.5 flex-shrink-0">
+            <button
+              onClick={() => onClassify(profile)}
+              disabled={isClassifying || !hasLibrarySources}
+              className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40"
+              title="Re-evaluate against the current library"
+            >
+              <RefreshCw size={15} className={isClassifying ? 'animate-spin' : ''} />
+            </button>
+            <button
+              onClick={() => startWizard(profile)}
+              disabled={isClassifying}
+              className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40"
+              title="Edit description"
+            >
+              <Pencil size={15} />
+            </button>
+            <button
+              onClick={() => handleDelete(profile)}
+              disabled={isClassifying}
+              className="p-1.5 text-gray-500 hover:text-red-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40"
+              title="Delete profile"
+            >
+              <Trash2 size={15} />
+            </button>
+          </div>
+        </div>
+
+        {isClassifying && (
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <Loader2 size={14} className="animate-spin" /> Evaluating against the library...
+          </div>
+        )}
+
+        {isStale && !isClassifying && (
+          <div className="flex items-start gap-2 text-[11px] text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+            <AlertTriangle size={14} className="flex-shrink-0 mt-px" />
+            <span>The library has changed since this classification. Re-evaluate to take the current sources into account.</span>
+          </div>
+        )}
+
+        {classification ? (
+          <>
+            <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+              <div className="flex flex-wrap items-center gap-2 mb-1.5">
+                <TierBadge tier={classification.tier} />
+                {classification.category && <span className="text-xs text-gray-700">{classification.category}</span>}
+              </div>
+              <p className="text-sm text-gray-800">{classification.summary}</p>
+              <p className="text-[10px] text-gray-400 mt-2">Evaluated {classification.evaluatedAt.toLocaleString()}</p>
+            </div>
+
+            {classification.skippedSources && classification.skippedSources.length > 0 && (
+              <div className="text-[11px] text-amber-900 bg-amber-50 border border-amber-200 px-2.5 py-2 rounded-md">
+                <div className="flex items-center gap-1.5 font-medium">
+                  <FileWarning size={12} />
+                  Not consulted: {classification.skippedSources.length} included source(s) could not be sent to the model
+                </div>
+                <ul className="mt-1 ml-5 list-disc space-y-0.5">
+                  {classification.skippedSources.map(source => (
+                    <li key={source.id}><span className="font-medium">{source.title}</span> — {source.reason}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-[10px] uppercase font-bold text-gray-500 mb-2 tracking-wider">Reasoning</h4>
+              <ol className="space-y-2">
+                {classification.steps.map((step, idx) => (
+                  <li key={idx} className="text-xs text-gray-800">
+                    <p className="font-semibold text-gray-700">{idx + 1}. {step.question}</p>
+                    <p
+                      className="leading-relaxed mt-0.5"
+                      dangerouslySetInnerHTML={{ __html: marked.parseInline(renderCitationChips(step.finding, sources)) as string }}
+                    />
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        ) : !isClassifying && (
+          <p className="text-xs text-gray-400 italic">Not evaluated yet.</p>
+        )}
+
+        <details className="text-xs text-gray-600">
+          <summary className="cursor-pointer font-medium text-gray-500">System description</summary>
+          <dl className="mt-2 space-y-1.5">
+            {WIZARD_STEPS.flatMap(s => s.fields).filter(f => f.key !== 'name').map(field => (
+              <div key={field.key}>
+                <dt className="font-medium text-gray-500">{field.label}</dt>
+                <dd className="text-gray-800 whitespace-pre-wrap">{profile[field.key]}</dd>
+              </div>
+            ))}
+          </dl>
+        </details>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-gray-200">
+      <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6]">
+        <div className="flex items-center gap-1">
+          {view.mode !== 'list' && (
+            <button
+              onClick={() => setView({ mode: 'list' })}
+              className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+              aria-label="Back to saved systems"
+            >
+              <ChevronLeft size={18} />
+            </button>
+          )}
+          <h3 className="font-semibold text-[#4c0c0a] font-serif">Risk Classification</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+          aria-label="Close risk classification"
+        >
+          <X size={20} />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto chat-container">
+        {view.mode === 'list' && renderList()}
+        {view.mode === 'wizard' && renderWizard(view)}
+        {view.mode === 'result' && renderResult(view.profileId)}
+      </div>
+    </div>
+  );
+};
+
+export default RiskClassifierPanel;
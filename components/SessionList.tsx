@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit2, Check, X, MessageSquare } from 'lucide-react';
+import { ChatSession } from '../types';
+
+interface SessionListProps {
+  sessions: ChatSession[];
+  activeSessionId: string;
+  onNewSession: () => void;
+  onSelectSession: (id: string) => void;
+  onRenameSession: (id: string, newTitle: string) => void;
+  onDeleteSession: (id: string) => void;
+}
+
+const formatSessionDate = (date: Date): string => {
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const SessionList: React.FC<SessionListProps> = ({
+  sessions,
+  activeSessionId,
+  onNewSession,
+  onSelectSession,
+  onRenameSession,
+  onDeleteSession,
+}) => {
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [editTitleInput, setEditTitleInput] = useState('');
+
+  const startEditing = (session: ChatSession) => {
+    setEditingSessionId(session.id);
+    setEditTitleInput(session.title);
+  };
+
+  const saveEditing = () => {
+    if (editingSessionId && editTitleInput.trim()) {
+      onRenameSession(editingSessionId, editTitleInput.trim());
+      setEditingSessionId(null);
+      setEditTitleInput('');
+    }
+  };
+
+  const cancelEditing = () => {
+    setEditingSessionId(null);
+    setEditTitleInput('');
+  };
+
+  return (
+    <div className="p-4 pb-2 flex flex-col min-h-0">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Briefings</h2>
+        <button
+          onClick={onNewSession}
+          className="flex items-center gap-1 text-xs font-medium text-[#4c0c0a] hover:bg-gray-200 px-2 py-1 rounded-md transition-colors"
+          title="Start a new briefing"
+        >
+          <Plus size={14} />
+          New
+        </button>
+      </div>
+
+      <div className="overflow-y-auto space-y-1 chat-container pr-1">
+        {sessions.length === 0 && (
+          <p className="text-xs italic text-gray-400 py-1">No saved briefings yet.</p>
+        )}
+        {sessions.map(session => {
+          const isActive = session.id === activeSessionId;
+          return (
+            <div
+              key={session.id}
+              className={`group flex items-center gap-2 px-2 py-1.5 rounded-md border transition-colors ${isActive ? 'bg-white border-gray-300 shadow-sm' : 'border-transparent hover:bg-gray-100'}`}
+            >
+              {editingSessionId === session.id ? (
+                <div className="flex items-center gap-1 flex-grow">
+                  <input
+                    type="text"
+                    value={editTitleInput}
+                    onChange={(e) => setEditTitleInput(e.target.value)}
+                    className="flex-grow border border-gray-300 rounded px-2 py-0.5 text-sm focus:border-[#4c0c0a] outline-none"
+                    autoFocus
+                    onKeyPress={(e) => e.key === 'Enter' && saveEditing()}
+                  />
+                  <button onClick={saveEditing} className="text-green-600 hover:text-green-800 p-1"><Check size={14}/></button>
+                  <button onClick={cancelEditing} className="text-red-500 hover:text-red-700 p-1"><X size={14}/></button>
+                </div>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelectSession(session.id)}
+                    className="flex items-center gap-2 flex-grow min-w-0 text-left"
+                  >
+                    <MessageSquare size={14} className={`flex-shrink-0 ${isActive ? 'text-[#4c0c0a]' : 'text-gray-400'}`} />
+                    <span className="flex flex-col min-w-0">
+                      <span className={`text-sm truncate ${isActive ? 'font-semibold text-gray-900' : 'text-gray-700'}`} title={session.title}>{session.title}</span>
+                      <span className="text-[10px] text-gray-400">{formatSessionDate(session.updatedAt)}</span>
+                    </span>
+                  </button>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+                    <button
+                      onClick={() => startEditing(session)}
+                      className="p-1 text-gray-400 hover:text-blue-600 rounded-md hover:bg-blue-50 transition-colors"
+                      title="Rename"
+                    >
+                      <Edit2 size={12} />
+                    </button>
+                    <button
+                      onClick={() => onDeleteSession(session.id)}
+                      className="p-1 text-gray-400 hover:text-red-500 rounded-md hover:bg-red-50 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { X, Globe, Loader2, Check } from 'lucide-react';
+import { ReferenceSource } from '../types';
+import { computeSnapshotDiff } from '../services/urlSnapshots';
+import { VersionDiff } from '../services/versionDiff';
+import DiffHunks from './DiffHunks';
+
+interface SnapshotDiffViewProps {
+  source: ReferenceSource;
+  onAccept: (sourceId: string) => Promise<void>;
+  onDiscard: (sourceId: string) => void;
+  onClose: () => void;
+}
+
+const formatSnapshotDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SnapshotDiffView: React.FC<SnapshotDiffViewProps> = ({ source, onAccept, onDiscard, onClose }) => {
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDiff(null);
+    setError(null);
+    computeSnapshotDiff(source)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(e => {
+        console.error(`Failed to compare snapshots of ${source.id}`, e);
+        if (!cancelled) setError(e instanceof Error ? e.message : 'The snapshots could not be compared.');
+      });
+    return () => { cancelled = true; };
+  }, [source.id, source.snapshot?.pendingSnapshotId]);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      await onAccept(source.id);
+      onClose();
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    onDiscard(source.id);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-5xl h-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6] rounded-t-xl">
+          <div className="flex items-center gap-2 min-w-0">
+            <Globe size={16} className="text-[#4c0c0a] flex-shrink-0" />
+            <h3 className="font-semibold text-[#4c0c0a] font-serif truncate">Changes to {source.title}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+            aria-label="Close snapshot comparison"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto chat-container p-4 space-y-4">
+          {source.snapshot && (
+            <p className="text-xs text-gray-500">
+              Snapshot of {formatSnapshotDate(source.snapshot.fetchedAt)} compared with the page as fetched on {formatSnapshotDate(source.snapshot.checkedAt)}.
+              Queries keep using the older snapshot until you accept the update.
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!diff && !error && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 size={16} className="animate-spin" /> Comparing the snapshots...
+            </div>
+          )}
+
+          {diff && (
+            <>
+              <DiffHunks diff={diff} />
+
+              {diff.isTooLarge && (
+                <p className="text-sm text-gray-500 italic">The page changed too much for a line-by-line comparison.</p>
+              )}
+              {!diff.isTooLarge && diff.hunks.length === 0 && (
+                <p className="text-sm text-gray-500 italic">Only the layout changed; the text lines are identical.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-3 border-t border-gray-200 flex items-center justify-end gap-2">
+          <button
+            onClick={handleDiscard}
+            className="text-sm text-gray-600 hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors"
+          >
+            Keep old snapshot
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={isAccepting}
+            className="flex items-center gap-1.5 text-sm bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-1.5 rounded-md transition-colors disabled:opacity-40"
+          >
+            {isAccepting ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+            Use new snapshot
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotDiffView;
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, FileText } from 'lucide-react';
+import { ReferenceSource } from '../types';
+import { getFileFromDB } from '../utils/db';
+import { base64ToBytes } from '../utils/encoding';
+import { findDocumentLoader } from '../utils/documentLoaders';
+
+interface SourceViewerProps {
+  source: ReferenceSource;
+  page?: number;
+  onClose: () => void;
+}
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ source, page, onClose }) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  // Formats the browser cannot display natively are shown as extracted text
+  const [textPages, setTextPages] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    let createdUrl: string | null = null;
+    let cancelled = false;
+
+    const loadFile = async () => {
+      try {
+        const storedFile = await getFileFromDB(source.id);
+        if (cancelled) return;
+        if (!storedFile) {
+          setError('This document is no longer stored in the library.');
+          return;
+        }
+        const loader = findDocumentLoader({ name: storedFile.name, mimeType: storedFile.mimeType });
+        if (loader && loader.kind !== 'pdf') {
+          const pages = await loader.extractPages(storedFile.data);
+          if (!cancelled) setTextPages(pages);
+          return;
+        }
+        createdUrl = URL.createObjectURL(new Blob([base64ToBytes(storedFile.data)], { type: storedFile.mimeType }));
+        setObjectUrl(createdUrl);
+      } catch (e) {
+        console.error(`Failed to open source ${source.id}`, e);
+        if (!cancelled) setError('The document could not be opened.');
+      }
+    };
+
+    setObjectUrl(null);
+    setTextPages(null);
+    setError(null);
+    loadFile();
+
+    return () => {
+      cancelled = true;
+      if (createdUrl) URL.revokeObjectURL(createdUrl);
+    };
+  }, [source.id]);
+
+  useEffect(() => {
+    if (textPages && page) {
+      pageRefs.current[page - 1]?.scrollIntoView({ block: 'start' });
+    }
+  }, [textPages, page]);
+
+  // The browser's built-in PDF viewer honours the #page fragment.
+  const viewerUrl = objectUrl ? `${objectUrl}${page ? `#page=${page}` : ''}` : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-5xl h-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6] rounded-t-xl">
+          <div className="flex items-center gap-2 min-w-0">
+            <FileText size={16} className="text-[#4c0c0a] flex-shrink-0" />
+            <span className="font-medium text-gray-800 text-sm truncate" title={source.title}>{source.title}</span>
+            {page && <span className="text-xs text-gray-500 flex-shrink-0">Page {page}</span>}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+            aria-label="Close document viewer"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        <div className="flex-grow bg-gray-100 rounded-b-xl overflow-hidden">
+          {error ? (
+            <div className="h-full flex items-center justify-center text-sm text-red-500">{error}</div>
+          ) : textPages ? (
+            <div className="h-full overflow-y-auto chat-container bg-white p-6 space-y-6">
+              {textPages.map((pageText, idx) => (
+                <div key={idx} ref={el => { pageRefs.current[idx] = el; }}>
+                  {textPages.length > 1 && (
+                    <p className={`text-[10px] uppercase font-bold tracking-wider mb-2 ${page === idx + 1 ? 'text-[#4c0c0a]' : 'text-gray-400'}`}>Page {idx + 1}</p>
+                  )}
+                  <pre className="whitespace-pre-wrap font-sans text-sm text-gray-800 leading-relaxed">{pageText}</pre>
+                </div>
+              ))}
+            </div>
+          ) : viewerUrl ? (
+            // Keying on the URL forces a reload so jumping to another page of the same file works.
+            <iframe key={viewerUrl} src={viewerUrl} title={source.title} className="w-full h-full border-0" />
+          ) : (
+            <div className="h-full flex items-center justify-center text-sm text-gray-400">Retrieving document...</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
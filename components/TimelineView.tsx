@@ -0,0 +1,278 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X, Download, CalendarDays, Check, Pencil, Trash2, Loader2, Sparkles } from 'lucide-react';
+import { Milestone, ReferenceSource } from '../types';
+import { daysUntil, formatCountdown, formatMilestoneDate } from '../services/timeline';
+
+type MilestoneChanges = Partial<Pick<Milestone, 'date' | 'title' | 'description' | 'article' | 'status'>>;
+
+interface TimelineViewProps {
+  milestones: Milestone[];
+  sources: ReferenceSource[];
+  extractingSourceIds: string[];
+  onExtractMilestones: (sourceId: string) => void;
+  onUpdateMilestone: (id: string, changes: MilestoneChanges) => void;
+  onDeleteMilestone: (id: string) => void;
+  onExportIcs: (milestones: Milestone[]) => void;
+  onOpenSource?: (source: ReferenceSource, page?: number) => void;
+  onClose: () => void;
+}
+
+const inputClasses = "w-full py-1.5 px-2 border border-gray-300 bg-white rounded-md text-xs text-gray-900 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a]";
+
+const countdownClasses = (days: number): string => {
+  if (days < 0) return 'bg-gray-100 text-gray-500';
+  if (days <= 30) return 'bg-red-50 text-red-700 border border-red-200';
+  if (days <= 90) return 'bg-amber-50 text-amber-800 border border-amber-200';
+  return 'bg-gray-100 text-gray-700';
+};
+
+const TimelineView: React.FC<TimelineViewProps> = ({
+  milestones,
+  sources,
+  extractingSourceIds,
+  onExtractMilestones,
+  onUpdateMilestone,
+  onDeleteMilestone,
+  onExportIcs,
+  onOpenSource,
+  onClose,
+}) => {
+  const fileSources = sources.filter(s => s.type === 'file');
+  const [selectedSourceId, setSelectedSourceId] = useState<string>(fileSources[0]?.id || '');
+  const [showPast, setShowPast] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<Pick<Milestone, 'date' | 'title' | 'description' | 'article'>>({ date: '', title: '', description: '', article: '' });
+
+  const ordered = [...milestones].sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+  const upcoming = ordered.filter(m => daysUntil(m.date) >= 0);
+  const past = ordered.filter(m => daysUntil(m.date) < 0);
+  const confirmed = ordered.filter(m => m.status === 'confirmed');
+  const suggestedCount = ordered.length - confirmed.length;
+  const isExtractingSelected = extractingSourceIds.includes(selectedSourceId);
+
+  const startEditing = (milestone: Milestone) => {
+    setEditingId(milestone.id);
+    setEditDraft({ date: milestone.date, title: milestone.title, description: milestone.description, article: milestone.article });
+  };
+
+  // Saving an edit also confirms the milestone: the user has reviewed it
+  const handleSaveEdit = (id: string) => {
+    if (!editDraft.date || !editDraft.title.trim()) return;
+    onUpdateMilestone(id, { ...editDraft, title: editDraft.title.trim(), status: 'confirmed' });
+    setEditingId(null);
+  };
+
+  const renderMilestone = (milestone: Milestone) => {
+    const source = sources.find(s => s.id === milestone.sourceId);
+    const days = daysUntil(milestone.date);
+    const isSuggested = milestone.status === 'suggested';
+
+    if (editingId === milestone.id) {
+      return (
+        <div key={milestone.id} className="border border-[#4c0c0a] rounded-lg p-3 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={editDraft.date}
+              onChange={(e) => setEditDraft(prev => ({ ...prev, date: e.target.value }))}
+              className={`${inputClasses} w-40 flex-shrink-0`}
+              aria-label="Milestone date"
+            />
+            <input
+              type="text"
+              value={editDraft.title}
+              onChange={(e) => setEditDraft(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="Title"
+              className={inputClasses}
+              aria-label="Milestone title"
+            />
+          </div>
+          <input
+            type="text"
+            value={editDraft.article}
+            onChange={(e) => setEditDraft(prev => ({ ...prev, article: e.target.value }))}
+            placeholder="Article / section"
+            className={inputClasses}
+            aria-label="Article or section"
+          />
+          <textarea
+            value={editDraft.description}
+            onChange={(e) => setEditDraft(prev => ({ ...prev, description: e.target.value }))}
+            placeholder="What applies from this date..."
+            rows={2}
+            className={`${inputClasses} resize-y`}
+            aria-label="Milestone description"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditingId(null)}
+              className="text-xs text-gray-600 hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleSaveEdit(milestone.id)}
+              disabled={!editDraft.date || !editDraft.title.trim()}
+              className="text-xs bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-1.5 rounded-md transition-colors disabled:opacity-40"
+            >
+              Save and confirm
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={milestone.id}
+        className={`flex items-start gap-3 border rounded-lg p-3 ${isSuggested ? 'border-dashed border-gray-300 bg-gray-50/60' : 'border-gray-200'}`}
+      >
+        <div className="w-24 flex-shrink-0 text-center">
+          <div className="text-xs font-semibold text-gray-800">{formatMilestoneDate(milestone.date)}</div>
+          <span className={`inline-block mt-1 text-[10px] font-medium px-1.5 py-0.5 rounded ${countdownClasses(days)}`}>{formatCountdown(days)}</span>
+        </div>
+        <div className="min-w-0 flex-grow">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium text-gray-900">{milestone.title}</p>
+            {isSuggested && (
+              <span className="flex items-center gap-0.5 text-[10px] text-gray-500 bg-white border border-gray-200 px-1.5 rounded" title="Extracted by the model; not yet confirmed">
+                <Sparkles size={10} /> Suggested
+              </span>
+            )}
+          </div>
+          {milestone.description && <p className="text-xs text-gray-700 mt-0.5">{milestone.description}</p>}
+          <div className="flex flex-wrap items-center gap-x-2 text-[11px] text-gray-500 mt-1">
+            {source && onOpenSource ? (
+              <button
+                onClick={() => onOpenSource(source, milestone.page)}
+                className="font-semibold text-[#4c0c0a] hover:underline"
+                title={`Open ${source.title}`}
+              >
+                {milestone.article || source.title}{milestone.page ? ` · p. ${milestone.page}` : ''}
+              </button>
+            ) : (
+              <span className="font-semibold text-gray-700">{milestone.article || 'Unreferenced'}</span>
+            )}
+            <span className="truncate max-w-[16rem]">{source?.title || 'Removed document'}</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-0.5 flex-shrink-0">
+          {isSuggested && (
+            <button
+              onClick={() => onUpdateMilestone(milestone.id, { status: 'confirmed' })}
+              className="p-1.5 text-gray-500 hover:text-green-700 rounded-md hover:bg-gray-200 transition-colors"
+              title="Confirm milestone"
+            >
+              <Check size={15} />
+            </button>
+          )}
+          <button
+            onClick={() => startEditing(milestone)}
+            className="p-1.5 text-gray-500 hover:text-[#4c0c0a] rounded-md hover:bg-gray-200 transition-colors"
+            title="Edit milestone"
+          >
+            <Pencil size={15} />
+          </button>
+          <button
+            onClick={() => onDeleteMilestone(milestone.id)}
+            className="p-1.5 text-gray-500 hover:text-red-700 rounded-md hover:bg-gray-200 transition-colors"
+            title="Delete milestone"
+          >
+            <Trash2 size={15} />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-4xl h-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6] rounded-t-xl">
+          <div className="flex items-center gap-2">
+            <CalendarDays size={16} className="text-[#4c0c0a]" />
+            <h3 className="font-semibold text-[#4c0c0a] font-serif">Regulatory Timeline</h3>
+            <span className="text-xs text-gray-500">
+              {confirmed.length} confirmed{suggestedCount > 0 ? `, ${suggestedCount} to review` : ''}
+            </span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onExportIcs(confirmed)}
+              disabled={confirmed.length === 0}
+              className="flex items-center gap-1.5 text-xs font-medium text-gray-600 hover:text-[#4c0c0a] hover:bg-gray-200 px-2 py-1.5 rounded-md transition-colors disabled:opacity-40"
+              title="Export confirmed milestones as an iCalendar file"
+            >
+              <Download size={14} /> .ics
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+              aria-label="Close timeline"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-3 border-b border-gray-200 flex flex-wrap items-center gap-2">
+          <select
+            value={selectedSourceId}
+            onChange={(e) => setSelectedSourceId(e.target.value)}
+            disabled={fileSources.length === 0}
+            className="h-8 max-w-xs py-1 px-2 border border-gray-300 bg-white rounded-md text-xs text-gray-800 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a]"
+            aria-label="Document to extract dates from"
+          >
+            {fileSources.length === 0 && <option value="">No documents in the library</option>}
+            {fileSources.map(source => <option key={source.id} value={source.id}>{source.title}</option>)}
+          </select>
+          <button
+            onClick={() => onExtractMilestones(selectedSourceId)}
+            disabled={!selectedSourceId || isExtractingSelected}
+            className="h-8 flex items-center gap-1.5 text-xs bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 rounded-md transition-colors disabled:opacity-40"
+          >
+            {isExtractingSelected ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+            {isExtractingSelected ? 'Extracting dates...' : 'Extract dates'}
+          </button>
+          <label className="ml-auto flex items-center gap-1.5 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={showPast}
+              onChange={(e) => setShowPast(e.target.checked)}
+              className="accent-[#4c0c0a]"
+            />
+            Show past milestones ({past.length})
+          </label>
+        </div>
+
+        <div className="flex-grow overflow-y-auto chat-container p-3 space-y-2">
+          {milestones.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-10">
+              No milestones yet. Pick a document and use "Extract dates" to find its application dates and deadlines.
+            </p>
+          )}
+          {milestones.length > 0 && upcoming.length === 0 && !showPast && (
+            <p className="text-sm text-gray-400 italic text-center py-10">No upcoming milestones.</p>
+          )}
+          {upcoming.map(renderMilestone)}
+          {showPast && past.length > 0 && (
+            <>
+              <h4 className="text-[10px] uppercase font-bold text-gray-500 pt-3 tracking-wider">Past</h4>
+              {past.map(renderMilestone)}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { ChatSession, URLGroup, UsageRecord } from '../types';
+import { UsageBudget, UsageSummary, summarizeUsage, usageDayKey, formatCost, totalTokens } from '../services/usage';
+import { formatTokens } from '../utils/contextBudget';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  sessions: ChatSession[];
+  urlGroups: URLGroup[];
+  activeSessionId: string;
+  budget: UsageBudget;
+  onSaveBudget: (budget: UsageBudget) => void;
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+
+const inputClasses = "w-28 h-9 py-1.5 px-2.5 border border-gray-300 bg-white rounded-md text-sm text-gray-900 focus:ring-1 focus:ring-[#4c0c0a] focus:border-[#4c0c0a]";
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, sessions, urlGroups, activeSessionId, budget, onSaveBudget, onClose }) => {
+  const [budgetDraft, setBudgetDraft] = useState(budget.dailyLimitUsd > 0 ? String(budget.dailyLimitUsd) : '');
+
+  const today = usageDayKey(new Date());
+  const byDay = useMemo(
+    () => summarizeUsage(records, record => usageDayKey(record.timestamp)).sort((a, b) => b.key.localeCompare(a.key)),
+    [records]
+  );
+  const bySession = useMemo(() => summarizeUsage(records, record => record.sessionId), [records]);
+  const byGroup = useMemo(() => summarizeUsage(records, record => record.groupId), [records]);
+  const todaySummary = byDay.find(summary => summary.key === today);
+  const spentToday = todaySummary?.cost || 0;
+  const budgetShare = budget.dailyLimitUsd > 0 ? spentToday / budget.dailyLimitUsd : 0;
+
+  // Sessions are only saved once they have a question, and may have been deleted since
+  const sessionLabel = (sessionId: string): string =>
+    sessions.find(s => s.id === sessionId)?.title || (sessionId === activeSessionId ? 'Current briefing' : 'Deleted briefing');
+  const groupLabel = (groupId: string): string =>
+    urlGroups.find(g => g.id === groupId)?.name || 'Deleted group';
+  const dayLabel = (key: string): string =>
+    key === today ? 'Today' : new Date(`${key}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const handleSaveBudget = () => {
+    const limit = parseFloat(budgetDraft);
+    onSaveBudget({ dailyLimitUsd: Number.isFinite(limit) && limit > 0 ? limit : 0 });
+  };
+
+  const renderTable = (title: string, summaries: UsageSummary[], labelOf: (key: string) => string) => (
+    <section>
+      <h4 className="text-[10px] uppercase font-bold text-gray-500 mb-2 tracking-wider">{title}</h4>
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-xs text-gray-800 border-collapse">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="text-left font-semibold text-gray-600 px-3 py-2 border-b border-gray-200"></th>
+              <th className="text-right font-semibold text-gray-600 px-3 py-2 border-b border-gray-200">Calls</th>
+              <th className="text-right font-semibold text-gray-600 px-3 py-2 border-b border-gray-200">Prompt</th>
+              <th className="text-right font-semibold text-gray-600 px-3 py-2 border-b border-gray-200">Answer</th>
+              <th className="text-right font-semibold text-gray-600 px-3 py-2 border-b border-gray-200">Thinking</th>
+              <th className="text-right font-semibold text-gray-600 px-3 py-2 border-b border-gray-200">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => (
+              <tr key={summary.key} className="border-b border-gray-100 last:border-b-0">
+                <td className="px-3 py-2 font-medium max-w-[14rem] truncate" title={labelOf(summary.key)}>{labelOf(summary.key)}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{summary.calls}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{formatTokens(summary.promptTokens)}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{formatTokens(summary.candidatesTokens)}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{formatTokens(summary.thinkingTokens)}</td>
+                <td
+                  className="px-3 py-2 text-right tabular-nums"
+                  title={summary.unpricedCalls > 0 ? `${summary.unpricedCalls} call(s) to models without a known price are not included` : undefined}
+                >
+                  {formatCost(summary.cost)}{summary.unpricedCalls > 0 ? '*' : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6] rounded-t-xl">
+          <h3 className="font-semibold text-[#4c0c0a] font-serif">Usage &amp; Cost</h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+            aria-label="Close usage dashboard"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto chat-container p-4 space-y-5">
+          <section className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="border border-gray-200 rounded-lg p-3">
+              <div className="text-[10px] uppercase font-bold text-gray-500 tracking-wider">Today</div>
+              <div className="text-2xl font-semibold text-[#4c0c0a] tabular-nums">{formatCost(spentToday)}</div>
+              <div className="text-xs text-gray-500">
+                {todaySummary ? `${formatTokens(totalTokens(todaySummary))} tokens in ${todaySummary.calls} call(s)` : 'No model calls yet today'}
+              </div>
+              {budget.dailyLimitUsd > 0 && (
+                <div className="mt-2">
+                  <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${budgetShare >= 1 ? 'bg-red-500' : budgetShare >= 0.8 ? 'bg-amber-500' : 'bg-[#4c0c0a]'}`}
+                      style={{ width: `${Math.min(100, budgetShare * 100)}%` }}
+                    />
+                  </div>
+                  <div className="text-[11px] text-gray-500 mt-1">{Math.round(budgetShare * 100)}% of the {formatCost(budget.dailyLimitUsd)} daily budget</div>
+                </div>
+              )}
+            </div>
+
+            <div className="border border-gray-200 rounded-lg p-3">
+              <label className="block text-xs font-medium text-gray-600">
+                Daily budget (USD)
+                <div className="flex items-center gap-2 mt-1">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={budgetDraft}
+                    onChange={(e) => setBudgetDraft(e.target.value)}
+                    placeholder="No limit"
+                    className={inputClasses}
+                  />
+                  <button
+                    onClick={handleSaveBudget}
+                    className="text-sm bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-1.5 rounded-md transition-colors"
+                  >
+                    Save
+                  </button>
+                </div>
+                <span className="font-normal text-[11px] text-gray-400">Before each question the prompt is counted, and you are asked to confirm when it would take today's spend over the budget. Leave empty for no warning.</span>
+              </label>
+            </div>
+          </section>
+
+          {records.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No model calls have been recorded yet.</p>
+          ) : (
+            <>
+              {renderTable(`Last ${DAYS_SHOWN} days`, byDay.slice(0, DAYS_SHOWN), dayLabel)}
+              {renderTable('By briefing', bySession, sessionLabel)}
+              {renderTable('By library group', byGroup, groupLabel)}
+            </>
+          )}
+
+          <p className="text-[11px] text-gray-400">
+            Costs are estimates at Gemini paid-tier list prices; the free tier, cached tokens and other providers are not priced (*).
+            Calls are attributed to the briefing and library group open when they were made, including extraction and classification runs.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
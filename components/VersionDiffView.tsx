@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { marked } from 'marked';
+import { X, GitCompare, Loader2, Sparkles } from 'lucide-react';
+import { GenerationSettings, ReferenceSource, UsageAttribution } from '../types';
+import { computeVersionDiff, summarizeVersionChanges, VersionDiff, VersionChange } from '../services/versionDiff';
+import { renderCitationChips } from '../utils/citations';
+import DiffHunks from './DiffHunks';
+
+interface VersionDiffViewProps {
+  older: ReferenceSource;
+  newer: ReferenceSource;
+  sources: ReferenceSource[];
+  settings: GenerationSettings;
+  attribution?: UsageAttribution;
+  onOpenSource?: (source: ReferenceSource, page?: number) => void;
+  onClose: () => void;
+}
+
+const VersionDiffView: React.FC<VersionDiffViewProps> = ({ older, newer, sources, settings, attribution, onOpenSource, onClose }) => {
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [changes, setChanges] = useState<VersionChange[] | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDiff(null);
+    setError(null);
+    setChanges(null);
+    computeVersionDiff(older, newer)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(e => {
+        console.error(`Failed to compare ${older.id} with ${newer.id}`, e);
+        if (!cancelled) setError(e instanceof Error ? e.message : 'The versions could not be compared.');
+      });
+    return () => { cancelled = true; };
+  }, [older.id, newer.id]);
+
+  const handleSummarize = async () => {
+    if (!diff) return;
+    setIsSummarizing(true);
+    setSummaryError(null);
+    try {
+      setChanges(await summarizeVersionChanges(older, newer, diff, { settings, attribution }));
+    } catch (e) {
+      console.error("Failed to summarise version changes", e);
+      setSummaryError(e instanceof Error ? e.message : 'The changes could not be summarised.');
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  // Citation chips are injected as raw HTML, so clicks are resolved via delegation.
+  const handleCitationClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const chip = (e.target as HTMLElement).closest<HTMLElement>('[data-citation-id]');
+    if (!chip || !onOpenSource) return;
+    const source = sources.find(s => s.id === chip.dataset.citationId);
+    if (!source) return;
+    const page = parseInt(chip.dataset.citationPage || '', 10);
+    onOpenSource(source, Number.isFinite(page) ? page : undefined);
+  };
+
+  const renderPageLink = (source: ReferenceSource, page: number) => (
+    onOpenSource ? (
+      <button onClick={() => onOpenSource(source, page)} className="hover:text-[#4c0c0a] hover:underline">p. {page}</button>
+    ) : <span>p. {page}</span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-5xl h-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between bg-[#F3F4F6] rounded-t-xl">
+          <div className="flex items-center gap-2 min-w-0">
+            <GitCompare size={16} className="text-[#4c0c0a] flex-shrink-0" />
+            <h3 className="font-semibold text-[#4c0c0a] font-serif truncate">
+              {older.title} <span className="text-gray-400 font-sans">→</span> {newer.title}
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-900 rounded-md hover:bg-gray-200 transition-colors"
+            aria-label="Close version comparison"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto chat-container p-4 space-y-4" onClick={handleCitationClick}>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!diff && !error && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 size={16} className="animate-spin" /> Comparing the extracted text...
+            </div>
+          )}
+
+          {diff && (
+            <>
+              <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+                <div className="flex items-center justify-between gap-3">
+                  <h4 className="text-[10px] uppercase font-bold text-gray-500 tracking-wider">Substantive changes</h4>
+                  <button
+                    onClick={handleSummarize}
+                    disabled={isSummarizing || diff.hunks.length === 0}
+                    className="flex items-center gap-1.5 text-xs bg-[#4c0c0a] text-white hover:bg-[#3b0908] px-3 py-1.5 rounded-md transition-colors disabled:opacity-40"
+                  >
+                    {isSummarizing ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                    {changes ? 'Summarise again' : 'Summarise changes'}
+                  </button>
+                </div>
+                {summaryError && <p className="text-xs text-red-600 mt-2">{summaryError}</p>}
+                {changes && changes.length === 0 && (
+                  <p className="text-xs text-gray-500 italic mt-2">No substantive changes were identified.</p>
+                )}
+                {changes && changes.length > 0 && (
+                  <ul className="mt-2 space-y-2">
+                    {changes.map((change, idx) => (
+                      <li key={idx} className="text-sm text-gray-800">
+                        <span className="font-semibold">{change.article}: </span>
+                        <span dangerouslySetInnerHTML={{ __html: marked.parseInline(renderCitationChips(change.summary, sources)) as string }} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {!changes && !isSummarizing && diff.hunks.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">Sends the differences below to the model for a summary by article, with citations into both versions.</p>
+                )}
+              </div>
+
+              <DiffHunks diff={diff} renderPageLink={(side, page) => renderPageLink(side === 'old' ? older : newer, page)} />
+
+              {diff.isTooLarge && (
+                <p className="text-sm text-gray-500 italic">These versions differ too much for a line-by-line comparison.</p>
+              )}
+              {!diff.isTooLarge && diff.hunks.length === 0 && (
+                <p className="text-sm text-gray-500 italic">The extracted text of both versions is identical.</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionDiffView;
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ServerConfig {
+  port: number;
+  apiKey: string | undefined;
+  // Sent as Access-Control-Allow-Origin; only needed when the app is served from elsewhere
+  allowedOrigin: string;
+  // Header set by an authenticating reverse proxy (e.g. "x-forwarded-email"); clients are keyed by IP without it
+  userHeader: string | undefined;
+  maxRequestBytes: number;
+  maxFetchBytes: number;
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  usageLogFile: string;
+  // The built app (vite build), served alongside the API when present
+  staticDir: string;
+}
+
+const MB = 1024 * 1024;
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const loadServerConfig = (): ServerConfig => {
+  try {
+    // Shares .env.local with the dev server
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No file: the environment is configured some other way
+  }
+
+  return {
+    port: readNumber('API_SERVER_PORT', 8787),
+    apiKey: process.env.GEMINI_API_KEY,
+    allowedOrigin: process.env.ALLOWED_ORIGIN || 'http://localhost:3000',
+    userHeader: process.env.USER_HEADER?.toLowerCase(),
+    // Library PDFs are sent inline as base64, so requests are large by design
+    maxRequestBytes: readNumber('MAX_REQUEST_MB', 40) * MB,
+    maxFetchBytes: readNumber('MAX_FETCH_MB', 20) * MB,
+    requestsPerMinute: readNumber('RATE_LIMIT_PER_MINUTE', 20),
+    requestsPerDay: readNumber('RATE_LIMIT_PER_DAY', 500),
+    usageLogFile: process.env.USAGE_LOG_FILE || 'logs/usage.jsonl',
+    staticDir: process.env.STATIC_DIR || 'dist',
+  };
+};
@@ -0,0 +1,364 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { lookup } from 'node:dns/promises';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+import { Content, Schema } from '@google/genai';
+import { createGeminiProvider } from '../services/providers/geminiProvider.js';
+import { normaliseGenerationSettings } from '../services/generationSettings.js';
+import { ModelJsonRequest, ModelRequest } from '../services/modelProvider.js';
+import { classifyModelError } from '../services/modelErrors.js';
+import { GenerationSettings, TokenUsage } from '../types.js';
+import { loadServerConfig } from './config.js';
+import { isPrivateAddress } from './privateAddresses.js';
+import { createRateLimiter } from './rateLimiter.js';
+import { createUsageLog } from './usageLog.js';
+
+type ModelOperation = 'generate' | 'stream' | 'generate-json' | 'count-tokens';
+
+const MODEL_ROUTES: Record<string, ModelOperation> = {
+  '/api/generate': 'generate',
+  '/api/stream': 'stream',
+  '/api/generate-json': 'generate-json',
+  '/api/count-tokens': 'count-tokens',
+};
+
+const FETCH_TIMEOUT_MS = 20000;
+const MAX_FETCH_REDIRECTS = 5;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+// The server's own rejections (limits, bad requests); model failures are ModelErrors
+class HttpError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(status: number, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const config = loadServerConfig();
+const gemini = createGeminiProvider(config.apiKey);
+const limiter = createRateLimiter({ perMinute: config.requestsPerMinute, perDay: config.requestsPerDay });
+const usageLog = createUsageLog(config.usageLogFile);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const identifyUser = (req: IncomingMessage): string => {
+  const header = config.userHeader && req.headers[config.userHeader];
+  return (Array.isArray(header) ? header[0] : header) || req.socket.remoteAddress || 'unknown';
+};
+
+const takeRateLimit = (user: string) => {
+  const rejection = limiter.take(user);
+  if (rejection) {
+    throw new HttpError(429, `Rate limit reached: ${rejection.reason}. Try again in ${rejection.retryAfterSeconds} seconds.`, rejection.retryAfterSeconds);
+  }
+};
+
+// Model failures keep the upstream status and travel with their kind, so the browser can advise and retry alike
+const toErrorResponse = (error: unknown): { status: number; body: { error: string; kind?: string; retryAfterMs?: number } } => {
+  if (error instanceof HttpError) return { status: error.status, body: { error: error.message } };
+  const modelError = classifyModelError(error);
+  return {
+    status: modelError.status && modelError.status >= 400 ? modelError.status : 502,
+    body: { error: modelError.message, kind: modelError.kind, retryAfterMs: modelError.retryAfterMs },
+  };
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> => new Promise((resolveBody, reject) => {
+  const tooLarge = new HttpError(413, `Request is larger than the ${Math.round(maxBytes / 1024 / 1024)} MB limit. Remove some documents from the library or ask with fewer sources.`);
+  // The rest of an oversized body is read and dropped rather than the socket being
+  // destroyed, so the client gets to read the 413 (sent with Connection: close)
+  if (Number(req.headers['content-length']) > maxBytes) {
+    req.resume();
+    reject(tooLarge);
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      chunks.length = 0;
+      reject(tooLarge);
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolveBody(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only the fields the Gemini adapter reads are passed on; settings are clamped to the supported models
+const parseModelRequest = (body: Buffer): ModelJsonRequest & Pick<ModelRequest, 'tools'> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+  if (!isObject(parsed) || !Array.isArray(parsed.contents) || !isObject(parsed.settings)) {
+    throw new HttpError(400, 'Request must include contents and settings.');
+  }
+  const tools = isObject(parsed.tools) ? parsed.tools : {};
+  return {
+    // Missing or out-of-range fields are filled in and clamped by the normalisation
+    settings: normaliseGenerationSettings({ ...parsed.settings, provider: 'gemini' } as GenerationSettings),
+    contents: parsed.contents as Content[],
+    systemInstruction: typeof parsed.systemInstruction === 'string' ? parsed.systemInstruction : undefined,
+    tools: { urlContext: tools.urlContext === true, googleSearch: tools.googleSearch === true },
+    responseSchema: parsed.responseSchema as Schema,
+  };
+};
+
+const handleModelCall = async (operation: ModelOperation, req: IncomingMessage, res: ServerResponse) => {
+  const started = Date.now();
+  const user = identifyUser(req);
+  let requestBytes = 0;
+  let responseBytes = 0;
+  let model: string | undefined;
+  let usage: TokenUsage | undefined;
+
+  const write = (data: string) => {
+    responseBytes += Buffer.byteLength(data);
+    res.write(data);
+  };
+
+  const log = (status: number, error?: string) => usageLog.record({
+    time: new Date(started).toISOString(),
+    user,
+    operation,
+    model,
+    status,
+    requestBytes,
+    responseBytes,
+    durationMs: Date.now() - started,
+    usage,
+    error,
+  });
+
+  try {
+    takeRateLimit(user);
+    const body = await readBody(req, config.maxRequestBytes);
+    requestBytes = body.length;
+    const request = parseModelRequest(body);
+    model = request.settings.model;
+
+    // Stops the model call when the browser aborts or goes away
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    request.signal = controller.signal;
+
+    if (operation === 'stream') {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      for await (const chunk of gemini.stream(request)) {
+        usage = chunk.usage ?? usage;
+        write(`${JSON.stringify(chunk)}\n`);
+      }
+    } else if (operation === 'count-tokens') {
+      const totalTokens = await gemini.countTokens(request);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      write(JSON.stringify({ totalTokens }));
+    } else {
+      const result = operation === 'generate-json'
+        ? await gemini.generateJson(request)
+        : await gemini.generate(request);
+      usage = result.usage;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      write(JSON.stringify(result));
+    }
+    res.end();
+    log(200);
+  } catch (error) {
+    const { status, body } = toErrorResponse(error);
+    if (!(error instanceof HttpError)) console.error(`${operation} failed for ${user}`, error);
+    if (res.headersSent) {
+      // Mid-stream: the status is already 200, so the error travels as the last line
+      write(`${JSON.stringify(body)}\n`);
+      res.end();
+    } else {
+      if (error instanceof HttpError && error.retryAfterSeconds) res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      // A body left unread (too large, or rejected before reading) is drained, and the connection not reused
+      if (!req.complete) {
+        req.resume();
+        res.setHeader('Connection', 'close');
+      }
+      sendJson(res, status, body);
+    }
+    log(status, body.error);
+  }
+};
+
+// Every address the host resolves to must be public. fetch resolves the name again,
+// so a DNS server that answers differently the second time is not caught:
+// deployments should also restrict the server's outbound network.
+const assertPublicUrl = async (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new HttpError(400, 'Only http and https addresses can be fetched.');
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true });
+  } catch {
+    throw new HttpError(502, `${url.hostname} could not be resolved.`);
+  }
+  if (addresses.some(({ address, family }) => isPrivateAddress(address, family))) {
+    throw new HttpError(403, 'Private network addresses cannot be fetched.');
+  }
+};
+
+// Redirects are followed by hand so each hop is checked before it is requested
+const fetchPublicUrl = async (target: URL): Promise<Response> => {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url = target;
+  for (let hop = 0; hop <= MAX_FETCH_REDIRECTS; hop++) {
+    await assertPublicUrl(url);
+    const response = await fetch(url, { redirect: 'manual', signal });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    await response.body?.cancel();
+    url = new URL(location, url);
+  }
+  throw new HttpError(502, `${target.host} redirected more than ${MAX_FETCH_REDIRECTS} times.`);
+};
+
+// The fetch proxy used for URL snapshots (FETCH_PROXY_URL): GET /fetch?url=<address>
+const handleFetch = async (req: IncomingMessage, res: ServerResponse, target: string | null) => {
+  const started = Date.now();
+  const user = identifyUser(req);
+  let responseBytes = 0;
+  let status = 200;
+  let error: string | undefined;
+
+  try {
+    takeRateLimit(`${user} fetch`);
+    let url: URL;
+    try {
+      url = new URL(target || '');
+    } catch {
+      throw new HttpError(400, 'Pass the page address as ?url=.');
+    }
+
+    const upstream = await fetchPublicUrl(url);
+    if (!upstream.ok || !upstream.body) throw new HttpError(502, `${url.host} returned HTTP ${upstream.status}.`);
+
+    const tooLarge = new HttpError(413, `The page is larger than the ${Math.round(config.maxFetchBytes / 1024 / 1024)} MB limit.`);
+    if (Number(upstream.headers.get('content-length')) > config.maxFetchBytes) throw tooLarge;
+    const chunks: Uint8Array[] = [];
+    const reader = upstream.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      responseBytes += value.length;
+      if (responseBytes > config.maxFetchBytes) {
+        await reader.cancel();
+        throw tooLarge;
+      }
+      chunks.push(value);
+    }
+
+    res.writeHead(200, { 'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream' });
+    res.end(Buffer.concat(chunks));
+  } catch (e) {
+    status = e instanceof HttpError ? e.status : 502;
+    error = e instanceof Error ? e.message : 'The page could not be fetched.';
+    sendJson(res, status, { error });
+  }
+
+  usageLog.record({
+    time: new Date(started).toISOString(),
+    user,
+    operation: 'fetch',
+    status,
+    requestBytes: 0,
+    responseBytes,
+    durationMs: Date.now() - started,
+    error,
+  });
+};
+
+const isFile = async (path: string): Promise<boolean> => {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+};
+
+// The built app; unknown paths get index.html
+const serveStatic = async (res: ServerResponse, pathname: string) => {
+  const root = resolve(config.staticDir);
+  const requested = resolve(root, `.${decodeURIComponent(pathname)}`);
+  const file = requested.startsWith(root + sep) && await isFile(requested) ? requested : join(root, 'index.html');
+  try {
+    const body = await readFile(file);
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' });
+    res.end(body);
+  } catch {
+    sendJson(res, 404, { error: `Not found. Run "npm run build" to serve the app from ${config.staticDir}/.` });
+  }
+};
+
+const route = async (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const operation = MODEL_ROUTES[url.pathname];
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+  } else if (req.method === 'POST' && operation) {
+    await handleModelCall(operation, req, res);
+  } else if (req.method === 'GET' && url.pathname === '/api/health') {
+    sendJson(res, 200, { ok: true, geminiConfigured: Boolean(config.apiKey) });
+  } else if (req.method === 'GET' && url.pathname === '/fetch') {
+    await handleFetch(req, res, url.searchParams.get('url'));
+  } else if (req.method === 'GET' && !url.pathname.startsWith('/api/')) {
+    await serveStatic(res, url.pathname);
+  } else {
+    sendJson(res, 404, { error: `No route for ${req.method} ${url.pathname}.` });
+  }
+};
+
+const server = createServer((req, res) => {
+  route(req, res).catch(error => {
+    console.error(`Unhandled error for ${req.method} ${req.url}`, error);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error.' });
+    else res.end();
+  });
+});
+
+// Forget users whose daily window has passed
+setInterval(() => limiter.prune(), 60 * 60 * 1000).unref();
+
+server.listen(config.port, () => {
+  console.log(`API server listening on http://localhost:${config.port}`);
+  if (!config.apiKey) console.warn('GEMINI_API_KEY is not set: model calls will fail until it is.');
+});
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from './privateAddresses';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.20.30.40', '172.16.0.1', '172.31.255.255', '192.168.1.1',
+    '169.254.169.254', '100.64.0.1', '0.0.0.0',
+  ])('rejects the IPv4 address %s', address => {
+    expect(isPrivateAddress(address, 4)).toBe(true);
+  });
+
+  it.each(['::1', '::', 'fd12:3456::1', 'fe80::1'])('rejects the IPv6 address %s', address => {
+    expect(isPrivateAddress(address, 6)).toBe(true);
+  });
+
+  it.each(['::ffff:127.0.0.1', '::ffff:169.254.169.254', '::ffff:10.0.0.1'])('rejects the IPv4-mapped address %s', address => {
+    expect(isPrivateAddress(address, 6)).toBe(true);
+  });
+
+  it.each([
+    ['8.8.8.8', 4], ['172.32.0.1', 4], ['100.128.0.1', 4],
+    ['2001:4860:4860::8888', 6], ['::ffff:8.8.8.8', 6],
+  ] as const)('allows the public address %s', (address, family) => {
+    expect(isPrivateAddress(address, family)).toBe(false);
+  });
+});
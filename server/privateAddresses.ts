@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BlockList } from 'node:net';
+
+// Loopback, private, link-local (cloud metadata) and shared addresses. IPv4-mapped
+// IPv6 addresses are matched against the IPv4 ranges.
+const PRIVATE_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], ['10.0.0.0', 8, 'ipv4'], ['100.64.0.0', 10, 'ipv4'], ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], ['172.16.0.0', 12, 'ipv4'], ['192.168.0.0', 16, 'ipv4'],
+  ['::', 128, 'ipv6'], ['::1', 128, 'ipv6'], ['fc00::', 7, 'ipv6'], ['fe80::', 10, 'ipv6'],
+];
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_SUBNETS.forEach(([network, prefix, type]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, type));
+
+// family as dns.lookup reports it (4 or 6)
+export const isPrivateAddress = (address: string, family: number): boolean =>
+  PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
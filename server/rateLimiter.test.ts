@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+describe('createRateLimiter', () => {
+  it('rejects requests over the per-minute limit until the minute has passed', () => {
+    const limiter = createRateLimiter({ perMinute: 2, perDay: 100 });
+
+    expect(limiter.take('alice', 0)).toBeNull();
+    expect(limiter.take('alice', 1000)).toBeNull();
+    expect(limiter.take('alice', 20 * 1000)).toEqual({ reason: 'at most 2 requests per minute', retryAfterSeconds: 40 });
+    expect(limiter.take('alice', MINUTE_MS)).toBeNull();
+  });
+
+  it('keeps counting the day across minute windows', () => {
+    const limiter = createRateLimiter({ perMinute: 2, perDay: 3 });
+
+    limiter.take('alice', 0);
+    limiter.take('alice', 1000);
+    expect(limiter.take('alice', MINUTE_MS)).toBeNull();
+    expect(limiter.take('alice', 2 * MINUTE_MS)?.reason).toBe('at most 3 requests per day');
+    expect(limiter.take('alice', DAY_MS)).toBeNull();
+  });
+
+  it('counts rejected requests against neither window', () => {
+    const limiter = createRateLimiter({ perMinute: 1, perDay: 2 });
+
+    limiter.take('alice', 0);
+    limiter.take('alice', 1000);
+    limiter.take('alice', 2000);
+    expect(limiter.take('alice', MINUTE_MS)).toBeNull();
+  });
+
+  it('limits each user separately', () => {
+    const limiter = createRateLimiter({ perMinute: 1, perDay: 100 });
+
+    expect(limiter.take('alice', 0)).toBeNull();
+    expect(limiter.take('bob', 0)).toBeNull();
+    expect(limiter.take('alice', 0)).not.toBeNull();
+  });
+});
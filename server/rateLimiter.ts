@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimitRejection {
+  reason: string;
+  retryAfterSeconds: number;
+}
+
+interface RateWindow {
+  start: number;
+  count: number;
+}
+
+interface UserWindows {
+  minute: RateWindow;
+  day: RateWindow;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Fixed windows per user: cheap, and a burst at a window edge is at most twice the limit
+export const createRateLimiter = (limits: { perMinute: number; perDay: number }) => {
+  const users = new Map<string, UserWindows>();
+
+  const current = (window: RateWindow, length: number, now: number): RateWindow =>
+    now - window.start >= length ? { start: now, count: 0 } : window;
+
+  // Counts a request for the user, or returns why it is over a limit
+  const take = (user: string, now = Date.now()): RateLimitRejection | null => {
+    const saved = users.get(user);
+    const minute = current(saved?.minute || { start: now, count: 0 }, MINUTE_MS, now);
+    const day = current(saved?.day || { start: now, count: 0 }, DAY_MS, now);
+
+    if (minute.count >= limits.perMinute) {
+      return { reason: `at most ${limits.perMinute} requests per minute`, retryAfterSeconds: Math.ceil((minute.start + MINUTE_MS - now) / 1000) };
+    }
+    if (day.count >= limits.perDay) {
+      return { reason: `at most ${limits.perDay} requests per day`, retryAfterSeconds: Math.ceil((day.start + DAY_MS - now) / 1000) };
+    }
+
+    users.set(user, { minute: { ...minute, count: minute.count + 1 }, day: { ...day, count: day.count + 1 } });
+    return null;
+  };
+
+  // Drops users whose day window has ended so the map does not grow forever
+  const prune = (now = Date.now()) => {
+    users.forEach((windows, user) => {
+      if (now - windows.day.start >= DAY_MS) users.delete(user);
+    });
+  };
+
+  return { take, prune };
+};
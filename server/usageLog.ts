@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { TokenUsage } from '../types.js';
+
+export interface UsageLogEntry {
+  time: string;
+  user: string;
+  operation: string;
+  model?: string;
+  status: number;
+  requestBytes: number;
+  responseBytes: number;
+  durationMs: number;
+  // Tokens the model reported for the call
+  usage?: TokenUsage;
+  error?: string;
+}
+
+// One JSON object per line, so the log can be tailed or loaded with any JSONL tool
+export const createUsageLog = (file: string) => {
+  let ready: Promise<unknown> | null = null;
+
+  const record = async (entry: UsageLogEntry) => {
+    console.log(`${entry.time} ${entry.user} ${entry.operation} ${entry.model || '-'} ${entry.status} ${entry.durationMs}ms`);
+    try {
+      ready ??= mkdir(dirname(file), { recursive: true });
+      await ready;
+      await appendFile(file, `${JSON.stringify(entry)}\n`);
+    } catch (e) {
+      console.error(`Failed to write the usage log to ${file}`, e);
+    }
+  };
+
+  return { record };
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ComparisonTable, ComparisonJurisdiction, ContextSource } from '../types';
+import { formatCitation } from '../utils/citations';
+import { extractJurisdictionFindings, synthesizeComparison, AnswerRequestOptions, JurisdictionFinding } from './geminiService';
+
+export interface JurisdictionContext extends ComparisonJurisdiction {
+  sources: ContextSource[];
+}
+
+const NOT_ADDRESSED = 'Not addressed in the provided sources.';
+
+// Citations pointing outside the jurisdiction's own sources are kept but flagged.
+const citeFinding = (finding: JurisdictionFinding, allowedIds: Set<string>): string =>
+  finding.citations
+    .map(c => formatCitation({
+      id: c.sourceId,
+      page: c.page && c.page > 0 ? c.page : undefined,
+      label: c.reference,
+      unverified: !allowedIds.has(c.sourceId),
+    }))
+    .join(' ');
+
+/**
+ * Asks every jurisdiction the same question, then has the model align the
+ * findings into rows. Cell citations come from the findings each cell is based
+ * on, so they are checked against that jurisdiction's sources only.
+ */
+export const compareJurisdictions = async (
+  question: string,
+  jurisdictions: JurisdictionContext[],
+  options: AnswerRequestOptions = {}
+): Promise<ComparisonTable> => {
+  const findingsPerJurisdiction = await Promise.all(jurisdictions.map(async (jurisdiction, jIdx) => {
+    const findings = jurisdiction.sources.length > 0
+      ? await extractJurisdictionFindings(question, jurisdiction.name, jurisdiction.sources, options)
+      : [];
+    return {
+      id: jurisdiction.id,
+      name: jurisdiction.name,
+      findings: findings.map((finding, fIdx) => ({ ...finding, id: `j${jIdx + 1}-f${fIdx + 1}` })),
+    };
+  }));
+
+  const rows = await synthesizeComparison(question, findingsPerJurisdiction, options);
+
+  return {
+    question,
+    jurisdictions: jurisdictions.map(({ id, name }) => ({ id, name })),
+    rows: rows.map(row => ({
+      obligation: row.obligation,
+      divergence: row.divergence,
+      // One cell per jurisdiction, in column order, whatever the model returned
+      cells: findingsPerJurisdiction.map(jurisdiction => {
+        const cell = row.cells.find(c => c.jurisdictionId === jurisdiction.id);
+        if (!cell) return { jurisdictionId: jurisdiction.id, text: NOT_ADDRESSED };
+        const allowedIds = new Set(jurisdictions.find(j => j.id === jurisdiction.id)!.sources.map(s => s.id));
+        const citations = jurisdiction.findings
+          .filter(f => cell.findingIds.includes(f.id))
+          .map(f => citeFinding(f, allowedIds))
+          .filter(Boolean)
+          .join(' ');
+        return { jurisdictionId: jurisdiction.id, text: `${cell.summary.trim() || NOT_ADDRESSED}${citations ? ` ${citations}` : ''}` };
+      }),
+    })),
+  };
+};
+
+const escapeTableCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+/**
+ * Markdown version of the table, stored as the message text so history,
+ * exports and older renderers still see the comparison.
+ */
+export const comparisonToMarkdown = (table: ComparisonTable): string => {
+  const header = ['Obligation', ...table.jurisdictions.map(j => j.name), 'Divergence'];
+  const lines = [
+    `## Comparison: ${table.question}`,
+    '',
+    `| ${header.map(escapeTableCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${[
+      row.obligation,
+      ...row.cells.map(cell => cell.text),
+      row.divergence,
+    ].map(escapeTableCell).join(' | ')} |`),
+  ];
+  if (table.rows.length === 0) {
+    lines.push('', '_The selected sources did not address this question._');
+  }
+  return lines.join('\n');
+};
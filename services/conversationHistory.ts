@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Content } from "@google/genai";
+import { ChatMessage, MessageSender } from '../types';
+import { estimateTokens } from '../utils/contextBudget';
+
+// Budget for prior turns only; library documents are attached once, to the current turn.
+const HISTORY_TOKEN_BUDGET = 12000;
+// Share of the budget the digest of older, dropped turns may use.
+const SUMMARY_TOKEN_SHARE = 0.2;
+const SUMMARY_LINE_MAX_CHARS = 240;
+
+const toGeminiRole = (sender: MessageSender): 'user' | 'model' =>
+  sender === MessageSender.USER ? 'user' : 'model';
+
+const truncate = (text: string, maxChars: number): string =>
+  text.length > maxChars ? `${text.slice(0, maxChars - 1).trimEnd()}…` : text;
+
+const stripCitations = (text: string): string => text.replace(/<citation\b[^>]*>[\s\S]*?<\/citation>/gi, '');
+
+/**
+ * Condenses a turn into one line for the digest: the question for user turns,
+ * the answer title and short review for model turns.
+ */
+const summariseTurn = (message: ChatMessage): string => {
+  if (message.sender === MessageSender.USER) {
+    return `- User asked: ${truncate(message.text.replace(/\s+/g, ' ').trim(), SUMMARY_LINE_MAX_CHARS)}`;
+  }
+  const text = stripCitations(message.text);
+  const title = text.match(/^##\s+(.+)$/m)?.[1]?.trim();
+  const review = text.match(/###\s+Short Review\s*\n+([^#]+)/i)?.[1]?.replace(/\s+/g, ' ').trim();
+  const gist = [title, review].filter(Boolean).join(' — ') || text.replace(/\s+/g, ' ').trim();
+  return `- You answered: ${truncate(gist, SUMMARY_LINE_MAX_CHARS)}`;
+};
+
+// Gemini expects alternating roles, so adjacent turns from the same side are merged.
+const mergeAdjacentRoles = (contents: Content[]): Content[] => {
+  return contents.reduce<Content[]>((merged, content) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === content.role) {
+      previous.parts = [...(previous.parts || []), ...(content.parts || [])];
+    } else {
+      merged.push({ role: content.role, parts: [...(content.parts || [])] });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Converts prior chat messages into Gemini contents. The most recent turns are
+ * kept verbatim until the token budget is exhausted; anything older is folded
+ * into a short digest so the thread of the briefing is not lost.
+ */
+export const buildHistoryContents = (
+  history: ChatMessage[],
+  tokenBudget: number = HISTORY_TOKEN_BUDGET
+): Content[] => {
+  const turns = history.filter(m =>
+    m.sender !== MessageSender.SYSTEM && !m.isLoading && !m.isError && m.text.trim()
+  );
+
+  const kept: ChatMessage[] = [];
+  let used = 0;
+  let index = turns.length - 1;
+  for (; index >= 0; index--) {
+    const cost = estimateTokens(turns[index].text);
+    if (used + cost > tokenBudget) break;
+    kept.unshift(turns[index]);
+    used += cost;
+  }
+
+  const contents: Content[] = [];
+  const dropped = turns.slice(0, index + 1);
+
+  if (dropped.length > 0) {
+    const summaryBudget = tokenBudget * SUMMARY_TOKEN_SHARE;
+    const lines: string[] = [];
+    let summaryTokens = 0;
+    // Prefer the most recent of the dropped turns when the digest itself is too long.
+    for (let i = dropped.length - 1; i >= 0; i--) {
+      const line = summariseTurn(dropped[i]);
+      summaryTokens += estimateTokens(line);
+      if (summaryTokens > summaryBudget) break;
+      lines.unshift(line);
+    }
+    contents.push({
+      role: 'user',
+      parts: [{ text: `[Summary of earlier discussion, for continuity only]\n${lines.join('\n')}` }]
+    });
+  }
+
+  kept.forEach(message => {
+    contents.push({ role: toGeminiRole(message.sender), parts: [{ text: message.text }] });
+  });
+
+  // A conversation must open with a user turn.
+  while (contents.length > 0 && contents[0].role !== 'user') {
+    contents.shift();
+  }
+
+  return mergeAdjacentRoles(contents);
+};
+
+/**
+ * Appends the current turn to the history, merging with a trailing user turn if needed.
+ */
+export const withCurrentTurn = (historyContents: Content[], current: Content): Content[] =>
+  mergeAdjacentRoles([...historyContents, current]);
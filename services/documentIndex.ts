@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ContextSource, DocumentChunk, ReferenceSource, SourceTextIndex } from '../types';
+import { StoredFile, getFileFromDB, saveChunksToDB, getChunksForSourceFromDB, deleteChunksForSourceFromDB } from '../utils/db';
+import { findDocumentLoader, UnsupportedDocumentError } from '../utils/documentLoaders';
+import { chunkDocument } from '../utils/chunking';
+import { selectRelevantChunks, RetrievalOptions } from '../utils/retrieval';
+import { estimateTokens } from '../utils/contextBudget';
+
+/**
+ * Extracts per-page text from a stored document with the loader for its
+ * format, chunks it and (re)writes the chunks to IndexedDB. A chunkCount of 0
+ * means there is no usable text (e.g. a scanned PDF), so the document has to be
+ * sent inline instead where the format allows it.
+ */
+export const indexStoredFile = async (file: StoredFile): Promise<SourceTextIndex> => {
+  const loader = findDocumentLoader({ name: file.name, mimeType: file.mimeType });
+  if (!loader) throw new UnsupportedDocumentError(file.name);
+  return indexDocumentPages(file.id, await loader.extractPages(file.data));
+};
+
+/**
+ * Chunks already extracted page text and (re)writes the chunks of the source,
+ * e.g. for the snapshot of a URL source.
+ */
+export const indexDocumentPages = async (sourceId: string, pages: string[]): Promise<SourceTextIndex> => {
+  const chunks = chunkDocument(sourceId, pages);
+
+  await deleteChunksForSourceFromDB(sourceId);
+  if (chunks.length > 0) {
+    await saveChunksToDB(chunks);
+  }
+
+  return {
+    pageCount: pages.length,
+    chunkCount: chunks.length,
+    tokens: chunks.reduce((sum, chunk) => sum + estimateTokens(chunk.text), 0),
+  };
+};
+
+export const removeSourceIndex = (sourceId: string): Promise<void> => deleteChunksForSourceFromDB(sourceId);
+
+/**
+ * Ranks the stored chunks of the given sources against the query and returns
+ * the selected passages grouped by source id.
+ */
+export const retrieveRelevantChunks = async (
+  query: string,
+  sourceIds: string[],
+  options?: RetrievalOptions
+): Promise<Map<string, DocumentChunk[]>> => {
+  const allChunks: DocumentChunk[] = [];
+  for (const sourceId of sourceIds) {
+    try {
+      allChunks.push(...await getChunksForSourceFromDB(sourceId));
+    } catch (e) {
+      console.error(`Failed to load chunks for ${sourceId}`, e);
+    }
+  }
+
+  const bySource = new Map<string, DocumentChunk[]>(sourceIds.map(id => [id, []]));
+  selectRelevantChunks(query, allChunks, options).forEach(chunk => {
+    bySource.get(chunk.sourceId)?.push(chunk);
+  });
+  return bySource;
+};
+
+const chunkPosition = (chunk: DocumentChunk): number => parseInt(chunk.id.split('-').pop() || '0', 10);
+
+export const sortChunksInDocumentOrder = (chunks: DocumentChunk[]): DocumentChunk[] =>
+  [...chunks].sort((a, b) => a.page - b.page || chunkPosition(a) - chunkPosition(b));
+
+// Groups chunks in document order into batches of at most maxTokens (a single oversized chunk stays whole).
+const batchChunks = (chunks: DocumentChunk[], maxTokens: number): DocumentChunk[][] => {
+  const ordered = sortChunksInDocumentOrder(chunks);
+  const batches: DocumentChunk[][] = [];
+  let current: DocumentChunk[] = [];
+  let currentTokens = 0;
+  ordered.forEach(chunk => {
+    const tokens = estimateTokens(chunk.text);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(chunk);
+    currentTokens += tokens;
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+/**
+ * Splits the whole text of a library document into requests of at most
+ * maxTokens each, for tasks that must read every passage rather than the
+ * retrieved ones. Documents without extracted text are sent inline in one
+ * request where the format allows it.
+ */
+export const buildFullTextRequests = async (source: ReferenceSource, maxTokens: number): Promise<ContextSource[]> => {
+  const storedFile = await getFileFromDB(source.id);
+  if (!storedFile) throw new Error(`"${source.title}" is no longer stored in the library.`);
+
+  const chunks = await getChunksForSourceFromDB(source.id);
+  if (chunks.length > 0) {
+    return batchChunks(chunks, maxTokens).map(batch => ({ id: source.id, type: 'file', title: source.title, chunks: batch }));
+  }
+  if (findDocumentLoader({ name: storedFile.name, mimeType: storedFile.mimeType })?.sendsInline) {
+    return [{ id: source.id, type: 'file', title: source.title, file: { name: source.title, mimeType: storedFile.mimeType, data: storedFile.data } }];
+  }
+  throw new Error(`"${source.title}" has no extractable text.`);
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { ContextSource } from '../types';
+import { chunkDocument } from '../utils/chunking';
+import { selectRelevantChunks } from '../utils/retrieval';
+import { extractCitations } from '../utils/citations';
+import { DEFAULT_GENERATION_SETTINGS } from './generationSettings';
+import { ModelRequest } from './modelProvider';
+import { GeminiStreamChunk, streamContentWithUrlContext } from './geminiService';
+
+// Requests as the model received them, so the prompt can be checked. Without a
+// fixtures URL the mock provider answers from the passages in the prompt.
+const sentRequests = vi.hoisted(() => {
+  process.env.MOCK_FIXTURES_URL = '';
+  return [] as ModelRequest[];
+});
+
+vi.mock('./modelProvider', async importOriginal => {
+  const actual = await importOriginal<typeof import('./modelProvider')>();
+  return {
+    ...actual,
+    getModelProvider: (settings: ModelRequest['settings']) => {
+      const provider = actual.getModelProvider(settings);
+      return {
+        ...provider,
+        stream: (request: ModelRequest) => {
+          sentRequests.push(request);
+          return provider.stream(request);
+        },
+      };
+    },
+  };
+});
+
+const PAGES = [
+  'Article 5\nThe following AI practices shall be prohibited: social scoring of natural persons by public authorities.',
+  'Article 50\nDeployers of an emotion recognition system shall inform the natural persons exposed thereto.',
+  'Article 99\nNon-compliance with the prohibition of the AI practices referred to in Article 5 shall be subject to administrative fines of up to 35 000 000 EUR.',
+];
+
+describe('streamContentWithUrlContext with the mock provider', () => {
+  it('sends the retrieved passages with their ids and pages and returns them as verified citations', async () => {
+    const query = 'What fines apply to prohibited AI practices?';
+    const chunks = selectRelevantChunks(query, chunkDocument('eu-ai-act', PAGES));
+    const source: ContextSource = { id: 'eu-ai-act', type: 'file', title: 'EU AI Act.pdf', chunks };
+    expect(chunks.map(c => c.page)).toEqual([1, 3]);
+
+    let answer: GeminiStreamChunk | undefined;
+    const stream = streamContentWithUrlContext(query, [source], [], { settings: { ...DEFAULT_GENERATION_SETTINGS, provider: 'mock' } });
+    for await (const chunk of stream) {
+      if (chunk.done) answer = chunk;
+    }
+
+    const prompt = sentRequests[0].contents.flatMap(c => (c.parts || []).map(p => p.text || '')).join('\n');
+    expect(prompt).toContain('<passage id="eu-ai-act" page="1" section="Article 5">');
+    expect(prompt).toContain('<passage id="eu-ai-act" page="3" section="Article 99">');
+    expect(prompt).not.toContain('emotion recognition');
+
+    const citations = extractCitations(answer!.text);
+    expect(citations.length).toBeGreaterThan(0);
+    expect(citations.every(c => c.id === 'eu-ai-act' && !c.unverified)).toBe(true);
+    expect(new Set(citations.map(c => c.page))).toEqual(new Set([1, 3]));
+  });
+});
@@ -4,173 +4,804 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Tool, HarmCategory, HarmBlockThreshold, Content, Part } from "@google/genai";
-import { UrlContextMetadataItem, FileAttachment } from '../types';
-
-// IMPORTANT: The API key MUST be set as an environment variable `process.env.API_KEY`
-const API_KEY = process.env.API_KEY;
-
-let ai: GoogleGenAI;
-
-const MODEL_NAME = "gemini-2.5-flash"; 
-
-const SYSTEM_INSTRUCTION = `You are a Senior European Diplomat stationed in Silicon Valley. Your mandate is to analyze and explain complex AI regulation (EU AI Act, California acts such as SB-53 / SB-1047, and relevant US federal frameworks) for busy decision-makers.
-
-Tone:
-Professional, diplomatic, concise, factual, neutral.
-
-Context rule:
-• You must answer EXCLUSIVELY based on the provided context.
-• If the context does not include necessary information, explicitly state this. Never invent facts or speculate.
-
-Answer structure (MANDATORY):
-You must structure every response using EXACTLY the following Markdown format:
-
-## [Descriptive Answer Title]
-
-### Short Review
-(Max 2 sentences). Provide a high-level executive summary of the answer based on the provided context.
-
-### Key Details
-(Max 4 bullet points). Provide specific, in-depth knowledge from the sources. Focus on the EU AI Act and relevant US/California divergences where applicable in the context. Do not use paragraphs here, only a list.
-- [Bullet point 1 with specific detail] <citation id="SOURCE_ID" page="PAGE_NUMBER">[Document Title]: [Exact Article/Section]</citation>
-- [Bullet point 2] <citation id="SOURCE_ID" page="PAGE_NUMBER">[Document Title]: [Exact Article/Section]</citation>
-
-Citation rule:
+import { Content, Part, Schema, Type, UrlMetadata, GroundingChunk, UrlRetrievalStatus, FinishReason, HarmProbability } from "@google/genai";
+import { UrlContextMetadataItem, AnswerCompletion, TokenUsage, ContextSource, ChatMessage, Persona, GenerationSettings, ObligationActor, RiskTier, AISystemDescription, SourceReference, UsageAttribution } from '../types';
+import { validateCitations } from '../utils/citations';
+import { buildHistoryContents, withCurrentTurn } from './conversationHistory';
+import { BUILT_IN_PERSONAS } from './personas';
+import { DEFAULT_GENERATION_SETTINGS } from './generationSettings';
+import { getModelProvider, ModelRequest, ModelResponse } from './modelProvider';
+import { ModelError, classifyModelError } from './modelErrors';
+
+// Shared by every persona so citations stay machine-checkable whatever the answer structure.
+const CITATION_INSTRUCTION = `Citation rule:
 • Insert citations IMMEDIATELY after the specific sentence or bullet point they support (inline).
 • Format: <citation id="SOURCE_ID" page="PAGE_NUMBER">[Document Title]: [Exact Article/Recital/Page]</citation>
 • Example: <citation id="..." page="...">[EU AI Act Final.pdf]: Article 5.1</citation>
 • You MUST include the specific Document Title (from the provided list) in the citation text to identify the source clearly.
-• Extract id and page STRICTLY from context metadata. Never fabricate.
-
-Closing line:
-At the end of every answer, write:
-Would you like me to elaborate on any of these points?
+• Extract id and page STRICTLY from context metadata: use the SOURCE_ID listed for each document in the provided context sources. Never fabricate.`;
 
-Non-negotiable constraints:
-• Always follow the structure: Heading 2 (Title) -> Heading 3 (Short Review) -> Heading 3 (Key Details) -> List.
-• Place references immediately after the relevant text.
-• Use hyphens (-) for bullet points.`;
+const buildSystemInstruction = (persona: Persona): string =>
+  `${persona.instructions.trim()}\n\n${CITATION_INSTRUCTION}`;
 
-const getAiInstance = (): GoogleGenAI => {
-  if (!API_KEY) {
-    console.error("API_KEY is not set in environment variables. Please set process.env.API_KEY.");
-    throw new Error("Gemini API Key not configured. Set process.env.API_KEY.");
-  }
-  if (!ai) {
-    ai = new GoogleGenAI({ apiKey: API_KEY });
-  }
-  return ai;
-};
+export interface AnswerRequestOptions {
+  persona?: Persona;
+  settings?: GenerationSettings;
+  signal?: AbortSignal;
+  attribution?: UsageAttribution;
+}
 
-const safetySettings = [
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-];
+// Settings and system instruction shared by every call that produces an answer for the chat.
+const buildAnswerRequest = (
+  contents: Content[],
+  tools: ModelRequest['tools'],
+  { persona = BUILT_IN_PERSONAS[0], settings = DEFAULT_GENERATION_SETTINGS, signal, attribution }: AnswerRequestOptions
+): ModelRequest => ({
+  settings,
+  contents,
+  systemInstruction: buildSystemInstruction(persona),
+  tools,
+  signal,
+  attribution,
+});
 
 interface GeminiResponse {
   text: string;
   urlContextMetadata?: UrlContextMetadataItem[];
+  completion?: AnswerCompletion;
+  usage?: TokenUsage;
 }
 
-export const generateContentWithUrlContext = async (
+const describeSource = (source: ContextSource): string => {
+  const location = source.type === 'url' && source.url ? ` <${source.url}>` : '';
+  return `- SOURCE_ID="${source.id}" | type: ${source.type} | title: "${source.title}"${location}`;
+};
+
+export interface GeminiStreamChunk {
+  // Accumulated answer text so far
+  text: string;
+  done: boolean;
+  urlContextMetadata?: UrlContextMetadataItem[];
+  // Final chunk only, when the answer was blocked or cut off
+  completion?: AnswerCompletion;
+  // Final chunk only, when the provider reported it
+  usage?: TokenUsage;
+}
+
+const formatRetrievedPassages = (source: ContextSource): string => {
+  const header = `[Document SOURCE_ID="${source.id}" title="${source.title}"] Retrieved passages:`;
+  if (!source.chunks || source.chunks.length === 0) {
+    return `${header}\n(No passages of this document matched the inquiry.)`;
+  }
+  const passages = source.chunks.map(chunk => {
+    const section = chunk.heading ? ` section="${chunk.heading}"` : '';
+    return `<passage id="${source.id}" page="${chunk.page}"${section}>\n${chunk.text}\n</passage>`;
+  });
+  return `${header}\n${passages.join('\n')}`;
+};
+
+// Snapshotted URLs arrive with retrieved passages like files; only the rest are read live
+const liveUrlSources = (sources: ContextSource[]): ContextSource[] =>
+  sources.filter(s => s.type === 'url' && s.url && !s.chunks);
+
+const buildGroundedRequest = (
   prompt: string,
-  urls: string[],
-  files: FileAttachment[] = []
-): Promise<GeminiResponse> => {
-  const currentAi = getAiInstance();
-  
+  sources: ContextSource[],
+  history: ChatMessage[],
+  searchGrounding = false
+): { contents: Content[]; tools: ModelRequest['tools'] } => {
   const parts: Part[] = [];
-
-  // Add files as parts (inline data)
-  files.forEach(file => {
+  const urlSources = liveUrlSources(sources);
+  const fileSources = sources.filter(s => s.file || s.chunks);
+
+  // Add files as parts, each preceded by a label carrying its SOURCE_ID: either
+  // the retrieved passages (with exact pages) or the whole document inline
+  fileSources.forEach(source => {
+    if (source.chunks) {
+      parts.push({ text: formatRetrievedPassages(source) });
+      return;
+    }
+    parts.push({ text: `[Document SOURCE_ID="${source.id}" title="${source.title}"]` });
     parts.push({
       inlineData: {
-        data: file.data,
-        mimeType: file.mimeType
+        data: source.file!.data,
+        mimeType: source.file!.mimeType
       }
     });
   });
 
-  // Construct text prompt with URLs and File Names explicitly listed as context sources
+  // Construct text prompt with every source explicitly listed under its stable id
   let fullPrompt = prompt;
   
   let contextInfo = "";
   
-  if (urls.length > 0) {
-    contextInfo += `\n[Provided Context Sources (URLs)]:\n${urls.map(u => `- ${u}`).join('\n')}`;
+  if (urlSources.length > 0) {
+    contextInfo += `\n[Provided Context Sources (URLs)]:\n${urlSources.map(describeSource).join('\n')}`;
   }
   
-  if (files.length > 0) {
-    contextInfo += `\n[Attached Documentation Files]:\n${files.map(f => `- ${f.name}`).join('\n')}`;
+  if (fileSources.length > 0) {
+    contextInfo += `\n[Attached Documentation Files]:\n${fileSources.map(describeSource).join('\n')}`;
   }
 
   if (contextInfo) {
-    fullPrompt += `\n\n${contextInfo}\n\nPlease consult these sources to answer the inquiry. When citing, refer to the document titles listed above.`;
+    fullPrompt += `\n\n${contextInfo}\n\nPlease consult these sources to answer the inquiry. When citing, use the exact SOURCE_ID value listed above as the citation id and the document title as the citation text. For retrieved passages, take the page from the passage's page attribute.`;
   }
   
   parts.push({ text: fullPrompt });
 
-  const contents: Content[] = [{ role: "user", parts: parts }];
+  // Prior turns are sent as plain text; documents ride along only with the current turn.
+  const contents: Content[] = withCurrentTurn(buildHistoryContents(history), { role: "user", parts: parts });
   
-  // Use googleSearch tool if URLs are present to allow the model to fetch/verify info
-  const tools: Tool[] = urls.length > 0 ? [{ googleSearch: {} }] : [];
+  // The URL context tool reads the library URLs listed in the prompt; search is opt-in
+  const tools = { urlContext: urlSources.length > 0, googleSearch: searchGrounding };
+
+  return { contents, tools };
+};
 
+// Tool metadata can be spread over the chunks of a streamed answer
+interface RetrievalMetadata {
+  urlMetadata: UrlMetadata[];
+  groundingChunks: GroundingChunk[];
+}
+
+const collectRetrievalMetadata = (response: ModelResponse, collected: RetrievalMetadata): RetrievalMetadata => ({
+  urlMetadata: [...collected.urlMetadata, ...(response.urlMetadata || [])],
+  groundingChunks: [...collected.groundingChunks, ...(response.groundingChunks || [])],
+});
+
+const normaliseUrl = (url: string): string => {
   try {
-    const response: GenerateContentResponse = await currentAi.models.generateContent({
-      model: MODEL_NAME,
-      contents: contents,
-      config: { 
-        tools: tools,
-        safetySettings: safetySettings,
-        systemInstruction: SYSTEM_INSTRUCTION
-      },
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    return parsed.href.replace(/\/$/, '');
+  } catch {
+    return url.trim();
+  }
+};
+
+/**
+ * Reports what the tools actually read: one entry per library URL with the URL
+ * context tool's own status (UNSPECIFIED when the model never fetched it),
+ * then any other page the answer was grounded on, such as search results.
+ */
+const describeUrlRetrieval = (metadata: RetrievalMetadata, urlSources: ContextSource[]): UrlContextMetadataItem[] | undefined => {
+  const items: UrlContextMetadataItem[] = [];
+  const seen = new Set<string>();
+
+  urlSources.forEach(source => {
+    const url = normaliseUrl(source.url!);
+    const statuses = metadata.urlMetadata
+      .filter(meta => meta.retrievedUrl && normaliseUrl(meta.retrievedUrl) === url)
+      .map(meta => meta.urlRetrievalStatus);
+    // A page the tool fetched more than once counts as read if any attempt succeeded
+    const status = statuses.includes(UrlRetrievalStatus.URL_RETRIEVAL_STATUS_SUCCESS)
+      ? UrlRetrievalStatus.URL_RETRIEVAL_STATUS_SUCCESS
+      : statuses.find(Boolean) || UrlRetrievalStatus.URL_RETRIEVAL_STATUS_UNSPECIFIED;
+    seen.add(url);
+    items.push({ retrievedUrl: source.url!, urlRetrievalStatus: status, origin: 'library', sourceId: source.id });
+  });
+
+  metadata.urlMetadata.forEach(meta => {
+    if (!meta.retrievedUrl || seen.has(normaliseUrl(meta.retrievedUrl))) return;
+    seen.add(normaliseUrl(meta.retrievedUrl));
+    items.push({
+      retrievedUrl: meta.retrievedUrl,
+      urlRetrievalStatus: meta.urlRetrievalStatus || UrlRetrievalStatus.URL_RETRIEVAL_STATUS_UNSPECIFIED,
+      origin: 'external',
     });
+  });
 
-    const text = response.text || "";
-    const candidate = response.candidates?.[0];
-    let extractedUrlContextMetadata: UrlContextMetadataItem[] | undefined = undefined;
-
-    // Map Google Search grounding chunks to our URL metadata format
-    if (candidate?.groundingMetadata?.groundingChunks) {
-      extractedUrlContextMetadata = candidate.groundingMetadata.groundingChunks
-        .filter(chunk => chunk.web)
-        .map(chunk => ({
-          retrievedUrl: chunk.web!.uri,
-          urlRetrievalStatus: 'URL_RETRIEVAL_STATUS_SUCCESS'
-        }));
-    } else if (candidate?.urlContextMetadata?.urlMetadata) {
-      // Fallback for previous tool versions
-      extractedUrlContextMetadata = candidate.urlContextMetadata.urlMetadata as UrlContextMetadataItem[];
-    }
-    
-    return { text, urlContextMetadata: extractedUrlContextMetadata };
+  metadata.groundingChunks.forEach(chunk => {
+    if (!chunk.web?.uri || seen.has(normaliseUrl(chunk.web.uri))) return;
+    seen.add(normaliseUrl(chunk.web.uri));
+    // Search results are grounding snippets, not pages the tool fetched
+    items.push({
+      retrievedUrl: chunk.web.uri,
+      urlRetrievalStatus: UrlRetrievalStatus.URL_RETRIEVAL_STATUS_UNSPECIFIED,
+      origin: 'external',
+      title: chunk.web.title,
+    });
+  });
+
+  return items.length > 0 ? items : undefined;
+};
+
+const EMPTY_RETRIEVAL_METADATA: RetrievalMetadata = { urlMetadata: [], groundingChunks: [] };
+
+type AnswerOutcome = Pick<ModelResponse, 'finishReason' | 'promptFeedback' | 'safetyRatings'>;
+
+// Streams report the finish reason on the last chunk and the prompt feedback on the first
+const collectOutcome = (response: ModelResponse, collected: AnswerOutcome): AnswerOutcome => ({
+  finishReason: response.finishReason ?? collected.finishReason,
+  promptFeedback: response.promptFeedback ?? collected.promptFeedback,
+  safetyRatings: response.safetyRatings ?? collected.safetyRatings,
+});
+
+const FLAGGED_PROBABILITIES: string[] = [HarmProbability.MEDIUM, HarmProbability.HIGH];
+
+/**
+ * Explains an answer that did not finish normally: a blocked inquiry, or an
+ * answer stopped by the token limit or the safety filters, with the harm
+ * categories behind a block. Normal answers get undefined.
+ */
+const describeCompletion = ({ finishReason, promptFeedback, safetyRatings }: AnswerOutcome): AnswerCompletion | undefined => {
+  const blockReason = promptFeedback?.blockReason;
+  const stoppedEarly = !!finishReason && finishReason !== FinishReason.STOP && finishReason !== FinishReason.FINISH_REASON_UNSPECIFIED;
+  if (!blockReason && !stoppedEarly) return undefined;
+
+  const flaggedCategories = [...(promptFeedback?.safetyRatings || []), ...(safetyRatings || [])]
+    .filter(rating => rating.blocked || FLAGGED_PROBABILITIES.includes(rating.probability || ''))
+    .map(rating => rating.category as string)
+    .filter((category, index, all) => category && all.indexOf(category) === index);
+
+  return {
+    finishReason: stoppedEarly ? finishReason : undefined,
+    blockReason,
+    flaggedCategories: flaggedCategories.length > 0 ? flaggedCategories : undefined,
+  };
+};
+
+// Flag any citation whose id was never supplied in this turn's context
+const validateAnswerCitations = (rawText: string, sources: ContextSource[]): string =>
+  validateCitations(rawText, sources.map(s => s.id)).text;
+
+// Providers already retried transient failures; what reaches here is reported to the user
+const toServiceError = (error: unknown): ModelError => {
+  console.error("Error calling the model:", error);
+  return classifyModelError(error);
+};
+
+export const generateContentWithUrlContext = async (
+  prompt: string,
+  sources: ContextSource[] = [],
+  history: ChatMessage[] = [],
+  options: AnswerRequestOptions = {}
+): Promise<GeminiResponse> => {
+  const { contents, tools } = buildGroundedRequest(prompt, sources, history, options.settings?.searchGrounding);
+  const request = buildAnswerRequest(contents, tools, options);
+
+  try {
+    const response = await getModelProvider(request.settings).generate(request);
+
+    return {
+      text: validateAnswerCitations(response.text, sources),
+      urlContextMetadata: describeUrlRetrieval(collectRetrievalMetadata(response, EMPTY_RETRIEVAL_METADATA), liveUrlSources(sources)),
+      completion: describeCompletion(response),
+      usage: response.usage,
+    };
 
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-      const googleError = error as any; 
-      if (googleError.message && googleError.message.includes("API key not valid")) {
-         throw new Error("Invalid API Key. Please check your GEMINI_API_KEY environment variable.");
-      }
-      if (googleError.message && googleError.message.includes("quota")) {
-        throw new Error("API quota exceeded. Please check your Gemini API quota.");
-      }
-      throw new Error(`Failed to get response from AI: ${error.message}`);
+    throw toServiceError(error);
+  }
+};
+
+async function* streamAnswer(request: ModelRequest, sources: ContextSource[]): AsyncGenerator<GeminiStreamChunk> {
+  const { signal } = request;
+
+  let text = "";
+  let retrievalMetadata = EMPTY_RETRIEVAL_METADATA;
+  let outcome: AnswerOutcome = {};
+  let usage: TokenUsage | undefined;
+
+  try {
+    for await (const chunk of getModelProvider(request.settings).stream(request)) {
+      if (signal?.aborted) return;
+      text += chunk.text;
+      retrievalMetadata = collectRetrievalMetadata(chunk, retrievalMetadata);
+      outcome = collectOutcome(chunk, outcome);
+      usage = chunk.usage ?? usage;
+      yield { text, done: false };
     }
-    throw new Error("Failed to get response from AI due to an unknown error.");
+  } catch (error) {
+    if (signal?.aborted) return;
+    throw toServiceError(error);
+  }
+
+  yield {
+    text: validateAnswerCitations(text, sources),
+    done: true,
+    urlContextMetadata: describeUrlRetrieval(retrievalMetadata, liveUrlSources(sources)),
+    completion: describeCompletion(outcome),
+    usage,
+  };
+}
+
+/**
+ * Streaming variant of generateContentWithUrlContext. Yields the accumulated
+ * answer as it arrives; the final chunk (done: true) carries the citation-validated
+ * text, URL metadata, token usage and, for blocked or cut-off answers, the completion.
+ * Aborting the signal stops the stream without throwing.
+ */
+export async function* streamContentWithUrlContext(
+  prompt: string,
+  sources: ContextSource[] = [],
+  history: ChatMessage[] = [],
+  options: AnswerRequestOptions = {}
+): AsyncGenerator<GeminiStreamChunk> {
+  const { contents, tools } = buildGroundedRequest(prompt, sources, history, options.settings?.searchGrounding);
+  yield* streamAnswer(buildAnswerRequest(contents, tools, options), sources);
+}
+
+/**
+ * Prompt tokens the answer request would be billed for, counted by the model
+ * where it can and estimated otherwise. Used to warn before going over budget.
+ */
+export const countAnswerTokens = async (
+  prompt: string,
+  sources: ContextSource[] = [],
+  history: ChatMessage[] = [],
+  options: AnswerRequestOptions = {}
+): Promise<number> => {
+  const { contents, tools } = buildGroundedRequest(prompt, sources, history, options.settings?.searchGrounding);
+  const request = buildAnswerRequest(contents, tools, options);
+
+  try {
+    return await getModelProvider(request.settings).countTokens(request);
+  } catch (error) {
+    throw toServiceError(error);
   }
 };
 
-export const getInitialSuggestions = async (urls: string[]): Promise<GeminiResponse> => {
+const CONTINUE_REQUEST = `Your previous answer was cut off by the output limit. Continue it exactly where it stopped, mid-sentence if necessary. Do not repeat what is already written and do not start over.`;
+
+/**
+ * Streams the rest of an answer that stopped at the output token limit. The
+ * cut-off answer goes back as the model's turn so it picks up where it
+ * stopped; chunks carry the continuation only, to be appended by the caller.
+ */
+export async function* streamAnswerContinuation(
+  prompt: string,
+  sources: ContextSource[],
+  history: ChatMessage[],
+  answer: string,
+  options: AnswerRequestOptions = {}
+): AsyncGenerator<GeminiStreamChunk> {
+  const { contents, tools } = buildGroundedRequest(prompt, sources, history, options.settings?.searchGrounding);
+  yield* streamAnswer(buildAnswerRequest([
+    ...contents,
+    { role: "model", parts: [{ text: answer }] },
+    { role: "user", parts: [{ text: CONTINUE_REQUEST }] }
+  ], tools, options), sources);
+}
+
+/**
+ * Asks the model once to rewrite an answer that broke the mandated briefing
+ * format, listing the specific violations. The original sources are sent again
+ * so the rewrite can keep (and cite) the same evidence.
+ */
+export const repairBriefingFormat = async (
+  prompt: string,
+  sources: ContextSource[],
+  history: ChatMessage[],
+  answer: string,
+  violations: string[],
+  options: AnswerRequestOptions = {}
+): Promise<Pick<GeminiResponse, 'text' | 'usage'>> => {
+  const { contents, tools } = buildGroundedRequest(prompt, sources, history, options.settings?.searchGrounding);
+
+  const repairRequest = `Your previous answer did not follow the mandatory answer structure:\n${violations.map(v => `- ${v}`).join('\n')}\n\nRewrite the answer so it follows the structure exactly. Keep the same facts and citations; do not add new information.`;
+
+  try {
+    const request = buildAnswerRequest([
+      ...contents,
+      { role: "model", parts: [{ text: answer }] },
+      { role: "user", parts: [{ text: repairRequest }] }
+    ], tools, options);
+    const response = await getModelProvider(request.settings).generate(request);
+
+    return { text: validateAnswerCitations(response.text, sources), usage: response.usage };
+  } catch (error) {
+    throw toServiceError(error);
+  }
+};
+
+const COMPARISON_INSTRUCTION = `You are a comparative regulatory analyst. You extract and compare what different jurisdictions require of AI providers and deployers.
+
+Rules:
+• Use EXCLUSIVELY the provided context. If a jurisdiction's sources do not address a point, say so instead of guessing.
+• Be precise and neutral; prefer the legal wording of the sources over paraphrase where it matters.
+• Reply with JSON matching the requested schema only.`;
+
+export interface SourceCitation {
+  sourceId: string;
+  page?: number;
+  reference: string;
+}
+
+export interface JurisdictionFinding {
+  topic: string;
+  position: string;
+  citations: SourceCitation[];
+}
+
+export interface SynthesizedComparisonRow {
+  obligation: string;
+  cells: { jurisdictionId: string; summary: string; findingIds: string[] }[];
+  divergence: string;
+}
+
+const SOURCE_CITATIONS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      sourceId: { type: Type.STRING, description: 'The exact SOURCE_ID of the cited document' },
+      page: { type: Type.INTEGER, description: 'Page number from the passage metadata' },
+      reference: { type: Type.STRING, description: '"[Document Title]: Article/Section"' },
+    },
+    required: ['sourceId', 'reference'],
+  },
+};
+
+const FINDINGS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topic: { type: Type.STRING, description: 'Short name of the obligation, e.g. "Incident reporting"' },
+          position: { type: Type.STRING, description: 'What the sources require on this topic, in one or two sentences' },
+          citations: SOURCE_CITATIONS_SCHEMA,
+        },
+        required: ['topic', 'position', 'citations'],
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+const COMPARISON_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    rows: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          obligation: { type: Type.STRING },
+          cells: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                jurisdictionId: { type: Type.STRING },
+                summary: { type: Type.STRING, description: 'The jurisdiction\'s position in one sentence, or "Not addressed in the provided sources."' },
+                findingIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+              required: ['jurisdictionId', 'summary', 'findingIds'],
+            },
+          },
+          divergence: { type: Type.STRING, description: 'How the jurisdictions differ on this obligation, in one sentence' },
+        },
+        required: ['obligation', 'cells', 'divergence'],
+      },
+    },
+  },
+  required: ['rows'],
+};
+
+/**
+ * Runs a JSON-mode request with the user's generation settings. Tools are left
+ * out because search grounding cannot be combined with a response schema.
+ */
+const generateJson = async <T>(
+  contents: Content[],
+  systemInstruction: string,
+  responseSchema: Schema,
+  options: AnswerRequestOptions
+): Promise<T> => {
+  const { settings, signal, attribution } = buildAnswerRequest(contents, undefined, options);
+
+  try {
+    return (await getModelProvider(settings).generateJson<T>({ settings, contents, systemInstruction, responseSchema, signal, attribution })).json;
+  } catch (error) {
+    throw toServiceError(error);
+  }
+};
+
+/**
+ * Asks what one jurisdiction's sources say about the question, as a list of
+ * findings with citations.
+ */
+export const extractJurisdictionFindings = async (
+  question: string,
+  jurisdictionName: string,
+  sources: ContextSource[],
+  options: AnswerRequestOptions = {}
+): Promise<JurisdictionFinding[]> => {
+  const prompt = `Jurisdiction: ${jurisdictionName}\nQuestion: ${question}\n\nList the obligations and rules in these sources that answer the question. Give every finding at least one citation.`;
+  const { contents } = buildGroundedRequest(prompt, sources, []);
+  const result = await generateJson<{ findings?: JurisdictionFinding[] }>(contents, COMPARISON_INSTRUCTION, FINDINGS_SCHEMA, options);
+  return result.findings || [];
+};
+
+/**
+ * Aligns the findings of every jurisdiction into comparison rows. Only the
+ * findings are sent (not the documents), so cells reference findings by id and
+ * keep their citations.
+ */
+export const synthesizeComparison = async (
+  question: string,
+  jurisdictions: { id: string; name: string; findings: (JurisdictionFinding & { id: string })[] }[],
+  options: AnswerRequestOptions = {}
+): Promise<SynthesizedComparisonRow[]> => {
+  const findings = jurisdictions.map(j => ({
+    jurisdictionId: j.id,
+    jurisdiction: j.name,
+    findings: j.findings.map(({ id, topic, position }) => ({ id, topic, position })),
+  }));
+  const prompt = `Question: ${question}\n\nFindings per jurisdiction:\n${JSON.stringify(findings, null, 2)}\n\nBuild a comparison table. Use one row per obligation, with one cell for every jurisdiction (use its jurisdictionId) listing the ids of the findings the cell is based on. Keep at most 8 rows, most important first.`;
+  const result = await generateJson<{ rows?: SynthesizedComparisonRow[] }>(
+    [{ role: "user", parts: [{ text: prompt }] }],
+    COMPARISON_INSTRUCTION,
+    COMPARISON_SCHEMA,
+    options
+  );
+  return result.rows || [];
+};
+
+const OBLIGATION_INSTRUCTION = `You are a regulatory compliance analyst. You read legal texts and list every obligation they impose, so a compliance team can track them one by one.
+
+Rules:
+• Only list obligations stated in the provided document text; never add obligations from general knowledge.
+• One entry per distinct obligation. Split articles that impose several duties; merge repeated statements of the same duty.
+• Quote or closely paraphrase the legal wording in the text field.
+• Reply with JSON matching the requested schema only.`;
+
+export interface ExtractedObligation {
+  actor: ObligationActor;
+  article: string;
+  page?: number;
+  deadline?: string;
+  riskTier: RiskTier;
+  text: string;
+}
+
+const OBLIGATIONS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    obligations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          actor: {
+            type: Type.STRING,
+            enum: ['provider', 'deployer', 'importer', 'distributor', 'authorised_representative', 'other'],
+            description: 'Who must comply',
+          },
+          article: { type: Type.STRING, description: 'Article/section reference, e.g. "Article 16(a)"' },
+          page: { type: Type.INTEGER, description: 'Page number from the passage metadata' },
+          deadline: { type: Type.STRING, description: 'Deadline or timing as stated in the text; omit if none' },
+          riskTier: {
+            type: Type.STRING,
+            enum: ['prohibited', 'high', 'limited', 'minimal', 'gpai', 'gpai_systemic', 'unspecified'],
+            description: 'Risk category the obligation applies to',
+          },
+          text: { type: Type.STRING, description: 'The obligation, in the wording of the source' },
+        },
+        required: ['actor', 'article', 'riskTier', 'text'],
+      },
+    },
+  },
+  required: ['obligations'],
+};
+
+/**
+ * Lists the obligations contained in one document, or in the slice of its
+ * passages given as chunks.
+ */
+export const extractObligationsFromSource = async (
+  source: ContextSource,
+  options: AnswerRequestOptions = {}
+): Promise<ExtractedObligation[]> => {
+  const prompt = `List every obligation imposed by the document "${source.title}" in the text provided. Take the page of each obligation from the passage it appears in.`;
+  const { contents } = buildGroundedRequest(prompt, [source], []);
+  const result = await generateJson<{ obligations?: ExtractedObligation[] }>(contents, OBLIGATION_INSTRUCTION, OBLIGATIONS_SCHEMA, options);
+  return result.obligations || [];
+};
+
+const MILESTONE_INSTRUCTION = `You are a regulatory analyst. You read legal texts and list the dated milestones they set: entry into force, dates of application, transition periods, reporting and review deadlines.
+
+Rules:
+• Only list milestones whose calendar date is stated in, or can be computed exactly from, the provided document text. Skip relative deadlines that depend on an event (e.g. "within 15 days of becoming aware").
+• Give each date as YYYY-MM-DD. If only a month or year is given, use its first day and say so in the description.
+• One entry per date and provision; describe what applies from that date.
+• Reply with JSON matching the requested schema only.`;
+
+export interface ExtractedMilestone {
+  date: string;
+  title: string;
+  description: string;
+  article: string;
+  page?: number;
+}
+
+const MILESTONES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    milestones: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING, description: 'Calendar date as YYYY-MM-DD' },
+          title: { type: Type.STRING, description: 'Short label, e.g. "Prohibitions apply"' },
+          description: { type: Type.STRING, description: 'What applies or is due from this date, in one or two sentences' },
+          article: { type: Type.STRING, description: 'Article/section that sets the date, e.g. "Article 113(a)"' },
+          page: { type: Type.INTEGER, description: 'Page number from the passage metadata' },
+        },
+        required: ['date', 'title', 'description', 'article'],
+      },
+    },
+  },
+  required: ['milestones'],
+};
+
+/**
+ * Lists the dated milestones set by one document, or by the slice of its
+ * passages given as chunks.
+ */
+export const extractMilestonesFromSource = async (
+  source: ContextSource,
+  options: AnswerRequestOptions = {}
+): Promise<ExtractedMilestone[]> => {
+  const prompt = `List every dated milestone set by the document "${source.title}" in the text provided. Take the page of each milestone from the passage it appears in.`;
+  const { contents } = buildGroundedRequest(prompt, [source], []);
+  const result = await generateJson<{ milestones?: ExtractedMilestone[] }>(contents, MILESTONE_INSTRUCTION, MILESTONES_SCHEMA, options);
+  return result.milestones || [];
+};
+
+const VERSION_CHANGES_INSTRUCTION = `You are a legislative analyst. You compare two versions of the same legal instrument and report what changed in substance.
+
+Rules:
+• Work only from the provided diff. Lines starting with "-" exist only in the older version, "+" only in the newer one; other lines are unchanged context.
+• Group changes by article, annex or section. Report substantive changes (scope, obligations, thresholds, deadlines, penalties, definitions); skip pure wording, numbering and formatting edits.
+• Cite the older version for removed or changed wording and the newer version for new wording, using the SOURCE_IDs and page numbers from the hunk headers.
+• Reply with JSON matching the requested schema only.`;
+
+export interface DocumentChangeSummary {
+  article: string;
+  summary: string;
+  citations: SourceCitation[];
+}
+
+const VERSION_CHANGES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    changes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          article: { type: Type.STRING, description: 'Article, annex or section affected, e.g. "Article 6(3)"' },
+          summary: { type: Type.STRING, description: 'What changed and why it matters, in one or two sentences' },
+          citations: SOURCE_CITATIONS_SCHEMA,
+        },
+        required: ['article', 'summary', 'citations'],
+      },
+    },
+  },
+  required: ['changes'],
+};
+
+/**
+ * Summarises the substantive changes between two versions of a document from
+ * their line diff, so long instruments fit in one request.
+ */
+export const summarizeDocumentChanges = async (
+  older: SourceReference,
+  newer: SourceReference,
+  diffText: string,
+  options: AnswerRequestOptions = {}
+): Promise<DocumentChangeSummary[]> => {
+  const prompt = `Older version: SOURCE_ID="${older.id}" title="${older.title}"
+Newer version: SOURCE_ID="${newer.id}" title="${newer.title}"
+
+Summarise the substantive changes between the two versions, by article.
+
+[Diff]
+${diffText}`;
+  const contents: Content[] = [{ role: "user", parts: [{ text: prompt }] }];
+  const result = await generateJson<{ changes?: DocumentChangeSummary[] }>(contents, VERSION_CHANGES_INSTRUCTION, VERSION_CHANGES_SCHEMA, options);
+  return result.changes || [];
+};
+
+const CLASSIFICATION_INSTRUCTION = `You are an EU AI Act classification analyst. You decide which risk category an AI system falls into, step by step, against the legal texts provided.
+
+Rules:
+• Work through the tiers in order: prohibited practices (Article 5), high-risk (Article 6 with Annex I and Annex III, including the Article 6(3) exceptions), transparency obligations (Article 50), otherwise minimal risk.
+• Base every step on the provided context and cite the specific article, annex point or recital it relies on. Never cite from general knowledge.
+• If the context does not contain the provisions needed for a step, say so in that step and use "unspecified" when the tier cannot be decided.
+• If the description lacks a fact the decision depends on, state the assumption you made in the step.
+• Reply with JSON matching the requested schema only.`;
+
+export interface SystemClassificationStep {
+  question: string;
+  finding: string;
+  citations: SourceCitation[];
+}
+
+export interface SystemClassificationResult {
+  tier: RiskTier;
+  category?: string;
+  summary: string;
+  steps: SystemClassificationStep[];
+}
+
+const CLASSIFICATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    tier: {
+      type: Type.STRING,
+      enum: ['prohibited', 'high', 'limited', 'minimal', 'unspecified'],
+      description: 'Resulting risk tier; "unspecified" if the sources do not allow a decision',
+    },
+    category: { type: Type.STRING, description: 'Prohibited practice or Annex point that applies, e.g. "Annex III, point 4(a)"; omit if none' },
+    summary: { type: Type.STRING, description: 'The conclusion in one or two sentences' },
+    steps: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING, description: 'The test applied, e.g. "Is it a prohibited practice under Article 5?"' },
+          finding: { type: Type.STRING, description: 'The answer for this system and why, in one to three sentences' },
+          citations: SOURCE_CITATIONS_SCHEMA,
+        },
+        required: ['question', 'finding', 'citations'],
+      },
+    },
+  },
+  required: ['tier', 'summary', 'steps'],
+};
+
+/**
+ * Classifies an AI system under the EU AI Act using the library sources, as a
+ * tier with the reasoning steps that led to it.
+ */
+export const classifyAISystem = async (
+  system: AISystemDescription,
+  sources: ContextSource[],
+  options: AnswerRequestOptions = {}
+): Promise<SystemClassificationResult> => {
+  const prompt = `Classify this AI system under the EU AI Act.
+
+Name: ${system.name}
+Intended purpose: ${system.purpose}
+Sector: ${system.sector}
+Users and affected persons: ${system.users}
+Data processed: ${system.data}
+Autonomy and human oversight: ${system.autonomy}`;
+  const { contents } = buildGroundedRequest(prompt, sources, []);
+  const result = await generateJson<Partial<SystemClassificationResult>>(contents, CLASSIFICATION_INSTRUCTION, CLASSIFICATION_SCHEMA, options);
+  return {
+    tier: result.tier || 'unspecified',
+    category: result.category,
+    summary: result.summary || '',
+    steps: result.steps || [],
+  };
+};
+
+const SUGGESTIONS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['suggestions'],
+};
+
+export const getInitialSuggestions = async (
+  urls: string[],
+  settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+  attribution?: UsageAttribution
+): Promise<GeminiResponse> => {
   // Fallback if no URLs or files
   if (urls.length === 0) {
     return { text: JSON.stringify({ suggestions: ["Upload a PDF to analyze.", "What are the transparency obligations?", "Explain the risk classification system."] }) };
   }
   
-  const currentAi = getAiInstance();
   const urlList = urls.join('\n');
   
   const promptText = `Based on the content of the following documentation URLs, provide 3-4 concise and actionable questions a stakeholder might ask a diplomat about AI regulation. Return ONLY a JSON object with a key "suggestions" containing an array of strings.
@@ -181,16 +812,14 @@ ${urlList}`;
   const contents: Content[] = [{ role: "user", parts: [{ text: promptText }] }];
 
   try {
-    const response: GenerateContentResponse = await currentAi.models.generateContent({
-      model: MODEL_NAME,
-      contents: contents,
-      config: {
-        safetySettings: safetySettings,
-        responseMimeType: "application/json",
-      },
+    const { json: result } = await getModelProvider(settings).generateJson<{ suggestions?: string[] }>({
+      settings,
+      contents,
+      responseSchema: SUGGESTIONS_SCHEMA,
+      attribution,
     });
 
-    return { text: response.text || "" }; 
+    return { text: JSON.stringify(result) };
 
   } catch (error) {
     console.error("Error calling Gemini API for initial suggestions:", error);
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationSettings, ModelProviderId, SafetyCategory, SafetyThreshold } from '../types';
+
+const GENERATION_SETTINGS_STORAGE_KEY = 'ai_reg_navigator_generation_settings_v1';
+
+// Paid-tier list prices in USD per million tokens. Thinking tokens are billed as output.
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // Prompts above this many tokens are billed at the long-context rates
+  longContextThreshold?: number;
+  longContextInputPerMillion?: number;
+  longContextOutputPerMillion?: number;
+}
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  // Thinking budget range in tokens; a minimum above 0 means thinking cannot be turned off
+  minThinkingBudget: number;
+  maxThinkingBudget: number;
+  maxOutputTokens: number;
+  pricing: ModelPricing;
+}
+
+export interface ProviderOption {
+  id: ModelProviderId;
+  label: string;
+  defaultModel: string;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', label: 'OpenAI-compatible endpoint', defaultModel: 'llama3.1' },
+  { id: 'mock', label: 'Offline mock (recorded fixtures)', defaultModel: 'mock' },
+];
+
+// Upper bound for providers whose model limits are unknown
+const MAX_CUSTOM_OUTPUT_TOKENS = 65536;
+
+export const MODEL_OPTIONS: ModelOption[] = [
+  {
+    id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', minThinkingBudget: 0, maxThinkingBudget: 24576, maxOutputTokens: 65536,
+    pricing: { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  },
+  {
+    id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', minThinkingBudget: 128, maxThinkingBudget: 32768, maxOutputTokens: 65536,
+    pricing: { inputPerMillion: 1.25, outputPerMillion: 10, longContextThreshold: 200000, longContextInputPerMillion: 2.5, longContextOutputPerMillion: 15 },
+  },
+];
+
+export const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  harassment: 'Harassment',
+  hateSpeech: 'Hate speech',
+  sexuallyExplicit: 'Sexually explicit',
+  dangerousContent: 'Dangerous content',
+};
+
+export const SAFETY_THRESHOLD_OPTIONS: { value: SafetyThreshold; label: string }[] = [
+  { value: 'BLOCK_LOW_AND_ABOVE', label: 'Block low and above (strictest)' },
+  { value: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block medium and above' },
+  { value: 'BLOCK_ONLY_HIGH', label: 'Block only high' },
+  { value: 'BLOCK_NONE', label: 'Block none' },
+];
+
+// What every answer used before settings existed: API defaults plus medium safety blocking
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  temperature: 1,
+  maxOutputTokens: 65536,
+  thinkingBudget: -1,
+  safety: {
+    harassment: 'BLOCK_MEDIUM_AND_ABOVE',
+    hateSpeech: 'BLOCK_MEDIUM_AND_ABOVE',
+    sexuallyExplicit: 'BLOCK_MEDIUM_AND_ABOVE',
+    dangerousContent: 'BLOCK_MEDIUM_AND_ABOVE',
+  },
+  searchGrounding: false,
+};
+
+export const findProviderOption = (providerId: string | undefined): ProviderOption =>
+  PROVIDER_OPTIONS.find(p => p.id === providerId) || PROVIDER_OPTIONS[0];
+
+export const findModelOption = (modelId: string): ModelOption =>
+  MODEL_OPTIONS.find(m => m.id === modelId) || MODEL_OPTIONS[0];
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+
+/**
+ * Brings settings into the ranges the selected model accepts, e.g. after
+ * switching from Flash (thinking can be off) to Pro (it cannot).
+ */
+export const normaliseGenerationSettings = (settings: GenerationSettings): GenerationSettings => {
+  const provider = findProviderOption(settings.provider);
+  const shared = {
+    provider: provider.id,
+    temperature: Math.round(clamp(settings.temperature, 0, 2) * 100) / 100,
+    safety: { ...DEFAULT_GENERATION_SETTINGS.safety, ...settings.safety },
+    searchGrounding: settings.searchGrounding === true,
+  };
+
+  // Other providers take any model name; thinking budgets are Gemini-only
+  if (provider.id !== 'gemini') {
+    return {
+      ...shared,
+      model: settings.model?.trim() || provider.defaultModel,
+      maxOutputTokens: Math.round(clamp(settings.maxOutputTokens, 256, MAX_CUSTOM_OUTPUT_TOKENS)),
+      thinkingBudget: -1,
+    };
+  }
+
+  const model = findModelOption(settings.model);
+  const thinkingBudget = settings.thinkingBudget === -1
+    ? -1
+    : Math.round(clamp(settings.thinkingBudget, model.minThinkingBudget, model.maxThinkingBudget));
+
+  return {
+    ...shared,
+    model: model.id,
+    maxOutputTokens: Math.round(clamp(settings.maxOutputTokens, 256, model.maxOutputTokens)),
+    thinkingBudget,
+  };
+};
+
+// Air-gapped setups can start on another provider, e.g. MODEL_PROVIDER=mock
+const initialGenerationSettings = (): GenerationSettings => process.env.MODEL_PROVIDER
+  ? normaliseGenerationSettings({ ...DEFAULT_GENERATION_SETTINGS, provider: process.env.MODEL_PROVIDER as ModelProviderId, model: '' })
+  : DEFAULT_GENERATION_SETTINGS;
+
+export const loadGenerationSettings = (): GenerationSettings => {
+  try {
+    const saved = localStorage.getItem(GENERATION_SETTINGS_STORAGE_KEY);
+    return saved
+      ? normaliseGenerationSettings({ ...DEFAULT_GENERATION_SETTINGS, ...JSON.parse(saved) })
+      : initialGenerationSettings();
+  } catch (e) {
+    console.error("Failed to load generation settings from local storage", e);
+    return initialGenerationSettings();
+  }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings): void => {
+  try {
+    localStorage.setItem(GENERATION_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save generation settings to local storage", e);
+  }
+};
+
+// Compact label for an answer, e.g. "Gemini 2.5 Pro · temp 0.4 · thinking auto"
+export const describeGenerationSettings = (settings: GenerationSettings): string => {
+  const search = settings.searchGrounding ? ' · web search' : '';
+  if (settings.provider && settings.provider !== 'gemini') {
+    return `${findProviderOption(settings.provider).label}: ${settings.model} · temp ${settings.temperature}${search}`;
+  }
+  const thinking = settings.thinkingBudget === -1
+    ? 'auto'
+    : settings.thinkingBudget === 0 ? 'off' : `${settings.thinkingBudget} tokens`;
+  return `${findModelOption(settings.model).label} · temp ${settings.temperature} · thinking ${thinking}${search}`;
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { ModelErrorKind } from '../types';
+import { ModelError, classifyModelError, errorFromResponse, retryDelayMs, withRetry } from './modelErrors';
+
+const withStatus = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('classifyModelError', () => {
+  it.each([
+    [401, 'Request had invalid authentication credentials.', 'auth'],
+    [403, 'Forbidden', 'auth'],
+    [413, 'Request Entity Too Large', 'payload-too-large'],
+    [429, 'Too Many Requests', 'rate-limit'],
+    [408, 'Request Timeout', 'timeout'],
+    [504, 'Gateway Timeout', 'timeout'],
+    [500, 'Internal error encountered.', 'unavailable'],
+    [503, 'The model is overloaded.', 'unavailable'],
+    [404, 'models/gemini-9 is not found', 'unknown'],
+  ] as [number, string, ModelErrorKind][])('sorts status %i as %s', (status, message, kind) => {
+    expect(classifyModelError(withStatus(status, message)).kind).toBe(kind);
+  });
+
+  it.each([
+    ['API key not valid. Please pass a valid API key.', 'auth'],
+    ['The input token count (1200000) exceeds the maximum number of tokens allowed (1048576).', 'payload-too-large'],
+    ['You exceeded your current quota, please check your plan.', 'rate-limit'],
+  ] as [string, ModelErrorKind][])('lets the message override a plain 400: %s', (message, kind) => {
+    expect(classifyModelError(withStatus(400, message)).kind).toBe(kind);
+  });
+
+  it.each([
+    [new TypeError('Failed to fetch'), 'network'],
+    [Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' }), 'timeout'],
+    [new Error('connect ECONNREFUSED 127.0.0.1:8787'), 'network'],
+    [new Error('DEADLINE_EXCEEDED'), 'timeout'],
+    [new Error('Something odd happened'), 'unknown'],
+  ] as [Error, ModelErrorKind][])('sorts %s without a status', (error, kind) => {
+    expect(classifyModelError(error).kind).toBe(kind);
+  });
+
+  it('keeps the readable message and retry delay of a Gemini JSON error', () => {
+    const error = classifyModelError(withStatus(429, '{"error":{"code":429,"message":"Resource has been exhausted.","details":[{"retryDelay":"7s"}]}}'));
+
+    expect(error.message).toBe('Resource has been exhausted.');
+    expect(error.retryAfterMs).toBe(7000);
+  });
+
+  it('prefers the Retry-After header', () => {
+    expect(errorFromResponse(429, 'slow down', '3').retryAfterMs).toBe(3000);
+  });
+
+  it('reports non-errors as unknown', () => {
+    expect(classifyModelError('boom').kind).toBe('unknown');
+  });
+});
+
+describe('retryDelayMs', () => {
+  it.each(['auth', 'payload-too-large', 'safety', 'unknown'] as ModelErrorKind[])('does not retry %s errors', kind => {
+    expect(retryDelayMs(new ModelError(kind, 'failed'), 1)).toBeNull();
+  });
+
+  it('backs off exponentially with jitter and gives up after the last attempt', () => {
+    const error = new ModelError('unavailable', 'overloaded');
+
+    expect(retryDelayMs(error, 1)).toBeGreaterThanOrEqual(1000);
+    expect(retryDelayMs(error, 1)).toBeLessThan(1500);
+    expect(retryDelayMs(error, 2)).toBeGreaterThanOrEqual(2000);
+    expect(retryDelayMs(error, 3)).toBeNull();
+  });
+
+  it('waits as long as the server asks, unless that is too long', () => {
+    expect(retryDelayMs(new ModelError('rate-limit', 'slow down', { retryAfterMs: 5000 }), 1)).toBe(5000);
+    expect(retryDelayMs(new ModelError('rate-limit', 'daily quota', { retryAfterMs: 3600000 }), 1)).toBeNull();
+  });
+});
+
+describe('withRetry', () => {
+  it('retries a transient failure and returns the next result', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const run = vi.fn()
+      .mockRejectedValueOnce(new ModelError('unavailable', 'overloaded', { retryAfterMs: 0 }))
+      .mockResolvedValueOnce('answer');
+
+    await expect(withRetry(run)).resolves.toBe('answer');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports other failures at once', async () => {
+    const run = vi.fn().mockRejectedValue(withStatus(401, 'API key not valid'));
+
+    await expect(withRetry(run)).rejects.toMatchObject({ kind: 'auth' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
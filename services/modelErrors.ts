@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelErrorKind } from '../types';
+
+// Kinds worth retrying unchanged: the same request may succeed a moment later
+const TRANSIENT_KINDS: ModelErrorKind[] = ['rate-limit', 'network', 'timeout', 'unavailable'];
+
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// A longer wait (e.g. a daily quota) is reported instead of retried
+const MAX_RETRY_DELAY_MS = 20000;
+
+export class ModelError extends Error {
+  kind: ModelErrorKind;
+  status?: number;
+  // From Retry-After or the API's RetryInfo, when the server says how long to wait
+  retryAfterMs?: number;
+
+  constructor(kind: ModelErrorKind, message: string, details: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ModelError';
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+const kindFromStatus = (status: number): ModelErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 413) return 'payload-too-large';
+  if (status === 429) return 'rate-limit';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+};
+
+// Message patterns take precedence: Gemini reports a bad key and an oversized prompt as plain 400s
+const KIND_PATTERNS: [RegExp, ModelErrorKind][] = [
+  [/API key not valid|API_KEY_INVALID|API Key not configured|UNAUTHENTICATED|PERMISSION_DENIED/i, 'auth'],
+  [/quota|RESOURCE_EXHAUSTED|rate limit/i, 'rate-limit'],
+  [/payload size|too large|exceeds the maximum number of tokens|input token count/i, 'payload-too-large'],
+  [/DEADLINE_EXCEEDED|timed out|timeout/i, 'timeout'],
+  [/Failed to fetch|fetch failed|NetworkError|Load failed|ECONNREFUSED|ECONNRESET|not reachable/i, 'network'],
+];
+
+// Gemini errors embed the API's JSON error; its message is the readable part
+const readableMessage = (message: string): string =>
+  message.match(/"message":\s*"((?:[^"\\]|\\.)*)"/)?.[1]?.replace(/\\"/g, '"') || message;
+
+const readRetryDelayMs = (message: string): number | undefined => {
+  const seconds = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1];
+  return seconds ? parseFloat(seconds) * 1000 : undefined;
+};
+
+// For adapters that see the HTTP response themselves
+export const errorFromResponse = (status: number, message: string, retryAfterHeader?: string | null): ModelError => {
+  const retryAfterSeconds = retryAfterHeader ? parseFloat(retryAfterHeader) : NaN;
+  const kind = KIND_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ?? kindFromStatus(status);
+  return new ModelError(kind, message, {
+    status,
+    retryAfterMs: Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : readRetryDelayMs(message),
+  });
+};
+
+/**
+ * Sorts any error thrown by a provider into a ModelErrorKind, using the HTTP
+ * status where the SDK exposes one and the message otherwise.
+ */
+export const classifyModelError = (error: unknown): ModelError => {
+  if (error instanceof ModelError) return error;
+  if (!(error instanceof Error)) return new ModelError('unknown', 'The model call failed for an unknown reason.');
+
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    const classified = errorFromResponse(status, error.message);
+    classified.message = readableMessage(error.message);
+    return classified;
+  }
+  if (error.name === 'TimeoutError') return new ModelError('timeout', error.message);
+  // fetch rejects with a bare TypeError when the host cannot be reached
+  if (error.name === 'TypeError' && /fetch/i.test(error.message)) return new ModelError('network', error.message);
+  const kind = KIND_PATTERNS.find(([pattern]) => pattern.test(error.message))?.[1] ?? 'unknown';
+  return new ModelError(kind, readableMessage(error.message));
+};
+
+/**
+ * How long to wait before attempt number `attempt + 1`, or null when the error
+ * should be reported instead. Backoff doubles from one second, with jitter so
+ * parallel calls (e.g. bulk extraction) do not retry in lockstep.
+ */
+export const retryDelayMs = (error: ModelError, attempt: number): number | null => {
+  if (!TRANSIENT_KINDS.includes(error.kind) || attempt >= MAX_ATTEMPTS) return null;
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs <= MAX_RETRY_DELAY_MS ? error.retryAfterMs : null;
+  const delay = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+  return delay + Math.random() * delay / 2;
+};
+
+// Resolves early when the request is aborted; the caller then stops retrying
+export const waitForRetry = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+  const finish = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', finish);
+    resolve();
+  };
+  const timer = setTimeout(finish, ms);
+  signal?.addEventListener('abort', finish);
+});
+
+export const withRetry = async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const modelError = classifyModelError(error);
+      const delay = retryDelayMs(modelError, attempt);
+      if (delay === null || signal?.aborted) throw modelError;
+      console.warn(`Model call failed (${modelError.kind}); retrying in ${Math.round(delay)} ms`, modelError);
+      await waitForRetry(delay, signal);
+      if (signal?.aborted) throw modelError;
+    }
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GENERATION_SETTINGS } from './generationSettings';
+import { ModelError } from './modelErrors';
+import { ModelProvider, ModelRequest, ModelResponse, getModelProvider } from './modelProvider';
+
+// The fake stands in for the mock adapter, so the real wrappers run around it
+const fake = vi.hoisted(() => ({ generate: vi.fn(), stream: vi.fn() }));
+
+vi.mock('./providers/mockProvider', () => ({
+  createMockProvider: (): ModelProvider => ({
+    id: 'mock',
+    generate: fake.generate,
+    stream: fake.stream,
+    generateJson: vi.fn(),
+    countTokens: vi.fn(),
+  }),
+}));
+
+const REQUEST: ModelRequest = {
+  settings: { ...DEFAULT_GENERATION_SETTINGS, provider: 'mock' },
+  contents: [{ role: 'user', parts: [{ text: 'What does Article 5 prohibit?' }] }],
+};
+
+// Retried without a wait, as if the server had sent Retry-After: 0
+const overloaded = () => new ModelError('unavailable', 'The model is overloaded.', { retryAfterMs: 0 });
+
+// Fails in place of chunk number failAt, if given
+async function* streamOf(chunks: string[], failAt?: number): AsyncGenerator<ModelResponse> {
+  for (let i = 0; i < chunks.length; i++) {
+    if (i === failAt) throw overloaded();
+    yield { text: chunks[i] };
+  }
+}
+
+const collect = async (stream: AsyncGenerator<ModelResponse>): Promise<string> => {
+  let text = '';
+  for await (const chunk of stream) text += chunk.text;
+  return text;
+};
+
+describe('getModelProvider retries', () => {
+  beforeEach(() => {
+    fake.generate.mockReset();
+    fake.stream.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('retries a call that fails transiently, then returns its answer', async () => {
+    fake.generate.mockRejectedValueOnce(overloaded()).mockResolvedValueOnce({ text: 'Social scoring.' });
+
+    await expect(getModelProvider(REQUEST.settings).generate(REQUEST)).resolves.toMatchObject({ text: 'Social scoring.' });
+    expect(fake.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry an error that would fail again', async () => {
+    fake.generate.mockRejectedValue(new ModelError('auth', 'API key not valid'));
+
+    await expect(getModelProvider(REQUEST.settings).generate(REQUEST)).rejects.toMatchObject({ kind: 'auth' });
+    expect(fake.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a stream that fails before its first chunk', async () => {
+    fake.stream.mockReturnValueOnce(streamOf(['Social '], 0)).mockReturnValueOnce(streamOf(['Social ', 'scoring.']));
+
+    await expect(collect(getModelProvider(REQUEST.settings).stream(REQUEST))).resolves.toBe('Social scoring.');
+    expect(fake.stream).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a stream that fails after its first chunk', async () => {
+    fake.stream.mockReturnValueOnce(streamOf(['Social ', 'scoring.'], 1)).mockReturnValueOnce(streamOf(['Social ', 'scoring.']));
+
+    await expect(collect(getModelProvider(REQUEST.settings).stream(REQUEST))).rejects.toMatchObject({ kind: 'unavailable' });
+    expect(fake.stream).toHaveBeenCalledTimes(1);
+  });
+});
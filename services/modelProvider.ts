@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Content, Schema, UrlMetadata, GroundingChunk, FinishReason, GenerateContentResponsePromptFeedback, SafetyRating } from "@google/genai";
+import { GenerationSettings, ModelProviderId, TokenUsage, UsageAttribution } from '../types';
+import { downloadBlob } from '../utils/download';
+import { createGeminiProvider, API_KEY } from './providers/geminiProvider';
+import { createApiServerProvider } from './providers/apiServerProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { ModelFixture, fixtureKey, lastUserText } from './providers/modelFixtures';
+import { classifyModelError, retryDelayMs, waitForRetry, withRetry } from './modelErrors';
+
+/**
+ * Provider-neutral request. Contents and schemas use the Gemini SDK shapes,
+ * which are plain JSON; other adapters translate them.
+ */
+export interface ModelRequest {
+  settings: GenerationSettings;
+  contents: Content[];
+  systemInstruction?: string;
+  // Gemini tools; providers without them answer from the prompt alone
+  tools?: { urlContext?: boolean; googleSearch?: boolean };
+  signal?: AbortSignal;
+  // Session and group the usage is charged to, since the user may switch before the call ends
+  attribution?: UsageAttribution;
+}
+
+export interface ModelJsonRequest extends Omit<ModelRequest, 'tools'> {
+  responseSchema: Schema;
+}
+
+export interface ModelResponse {
+  text: string;
+  // What the URL context and search tools read (Gemini only)
+  urlMetadata?: UrlMetadata[];
+  groundingChunks?: GroundingChunk[];
+  // Usually only on the last streamed chunk. Other providers report Gemini's names.
+  finishReason?: FinishReason;
+  promptFeedback?: GenerateContentResponsePromptFeedback;
+  safetyRatings?: SafetyRating[];
+  // Streams report running totals, so the last chunk with usage has the whole call
+  usage?: TokenUsage;
+}
+
+export interface ModelJsonResponse<T> {
+  json: T;
+  usage?: TokenUsage;
+}
+
+export interface ModelProvider {
+  id: ModelProviderId;
+  generate: (request: ModelRequest) => Promise<ModelResponse>;
+  // Yields deltas: each chunk carries only the text added since the previous one
+  stream: (request: ModelRequest) => AsyncGenerator<ModelResponse>;
+  generateJson: <T>(request: ModelJsonRequest) => Promise<ModelJsonResponse<T>>;
+  // Prompt tokens the request would be billed for; an estimate where the provider cannot count
+  countTokens: (request: ModelRequest) => Promise<number>;
+}
+
+// A model call that reported its token usage
+export interface ModelUsageEvent {
+  provider: ModelProviderId;
+  model: string;
+  usage: TokenUsage;
+  attribution?: UsageAttribution;
+}
+
+type ModelUsageListener = (event: ModelUsageEvent) => void;
+
+// Connection for the OpenAI-compatible adapter, kept out of GenerationSettings
+// because those are saved with every answer.
+export interface OpenAiConnection {
+  baseUrl: string;
+  apiKey: string;
+}
+
+const OPENAI_CONNECTION_STORAGE_KEY = 'ai_reg_navigator_openai_connection_v1';
+
+export const DEFAULT_OPENAI_CONNECTION: OpenAiConnection = {
+  baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  apiKey: process.env.OPENAI_API_KEY || '',
+};
+
+export const loadOpenAiConnection = (): OpenAiConnection => {
+  try {
+    const saved = localStorage.getItem(OPENAI_CONNECTION_STORAGE_KEY);
+    return saved ? { ...DEFAULT_OPENAI_CONNECTION, ...JSON.parse(saved) } : DEFAULT_OPENAI_CONNECTION;
+  } catch (e) {
+    console.error("Failed to load the OpenAI-compatible connection", e);
+    return DEFAULT_OPENAI_CONNECTION;
+  }
+};
+
+export const saveOpenAiConnection = (connection: OpenAiConnection) => {
+  try {
+    localStorage.setItem(OPENAI_CONNECTION_STORAGE_KEY, JSON.stringify(connection));
+  } catch (e) {
+    console.error("Failed to save the OpenAI-compatible connection", e);
+  }
+};
+
+// Set RECORD_MODEL_FIXTURES=true to capture every response for the mock provider
+const isRecording = process.env.RECORD_MODEL_FIXTURES === 'true';
+const recordedFixtures: ModelFixture[] = [];
+
+// A repeated request keeps only its latest response
+const record = (fixture: ModelFixture) => {
+  const existing = recordedFixtures.findIndex(f => f.key === fixture.key);
+  if (existing >= 0) recordedFixtures.splice(existing, 1);
+  recordedFixtures.push(fixture);
+};
+
+const withRecording = (provider: ModelProvider): ModelProvider => ({
+  id: provider.id,
+  generate: async (request) => {
+    const response = await provider.generate(request);
+    record({ key: fixtureKey('text', request), kind: 'text', prompt: lastUserText(request).slice(0, 200), response });
+    return response;
+  },
+  stream: async function* (request) {
+    const collected: ModelResponse = { text: '', urlMetadata: [], groundingChunks: [] };
+    for await (const chunk of provider.stream(request)) {
+      collected.text += chunk.text;
+      collected.urlMetadata!.push(...(chunk.urlMetadata || []));
+      collected.groundingChunks!.push(...(chunk.groundingChunks || []));
+      collected.finishReason = chunk.finishReason ?? collected.finishReason;
+      collected.promptFeedback = chunk.promptFeedback ?? collected.promptFeedback;
+      collected.safetyRatings = chunk.safetyRatings ?? collected.safetyRatings;
+      collected.usage = chunk.usage ?? collected.usage;
+      yield chunk;
+    }
+    if (!request.signal?.aborted) {
+      record({ key: fixtureKey('text', request), kind: 'text', prompt: lastUserText(request).slice(0, 200), response: collected });
+    }
+  },
+  generateJson: async <T>(request: ModelJsonRequest) => {
+    const response = await provider.generateJson<T>(request);
+    record({ key: fixtureKey('json', request), kind: 'json', prompt: lastUserText(request).slice(0, 200), json: response.json });
+    return response;
+  },
+  countTokens: provider.countTokens,
+});
+
+// Transient failures are retried with backoff. A stream is only retried before
+// its first chunk, since the caller has already shown what came before.
+const withRetries = (provider: ModelProvider): ModelProvider => ({
+  id: provider.id,
+  generate: (request) => withRetry(() => provider.generate(request), request.signal),
+  stream: async function* (request) {
+    for (let attempt = 1; ; attempt++) {
+      let started = false;
+      try {
+        for await (const chunk of provider.stream(request)) {
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        const modelError = classifyModelError(error);
+        const delay = retryDelayMs(modelError, attempt);
+        if (started || delay === null || request.signal?.aborted) throw modelError;
+        console.warn(`Model stream failed (${modelError.kind}); retrying in ${Math.round(delay)} ms`, modelError);
+        await waitForRetry(delay, request.signal);
+        if (request.signal?.aborted) throw modelError;
+      }
+    }
+  },
+  generateJson: <T>(request: ModelJsonRequest) => withRetry(() => provider.generateJson<T>(request), request.signal),
+  countTokens: (request) => withRetry(() => provider.countTokens(request), request.signal),
+});
+
+const usageListeners = new Set<ModelUsageListener>();
+
+// Returns the unsubscribe function
+export const subscribeToModelUsage = (listener: ModelUsageListener): (() => void) => {
+  usageListeners.add(listener);
+  return () => {
+    usageListeners.delete(listener);
+  };
+};
+
+const reportUsage = (provider: ModelProviderId, request: ModelRequest | ModelJsonRequest, usage?: TokenUsage) => {
+  if (!usage) return;
+  usageListeners.forEach(listener => listener({ provider, model: request.settings.model, usage, attribution: request.attribution }));
+};
+
+// Every call that reports usage reaches the ledger, including extraction and
+// classification runs that never become a chat message.
+const withUsageTracking = (provider: ModelProvider): ModelProvider => ({
+  id: provider.id,
+  generate: async (request) => {
+    const response = await provider.generate(request);
+    reportUsage(provider.id, request, response.usage);
+    return response;
+  },
+  stream: async function* (request) {
+    let usage: TokenUsage | undefined;
+    try {
+      for await (const chunk of provider.stream(request)) {
+        usage = chunk.usage ?? usage;
+        yield chunk;
+      }
+    } finally {
+      // A stopped answer is still billed for what was generated
+      reportUsage(provider.id, request, usage);
+    }
+  },
+  generateJson: async <T>(request: ModelJsonRequest) => {
+    const response = await provider.generateJson<T>(request);
+    reportUsage(provider.id, request, response.usage);
+    return response;
+  },
+  countTokens: provider.countTokens,
+});
+
+export const isRecordingFixtures = (): boolean => isRecording;
+
+export const countRecordedFixtures = (): number => recordedFixtures.length;
+
+export const exportRecordedFixtures = () => {
+  const blob = new Blob([JSON.stringify(recordedFixtures, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, 'model-fixtures.json');
+};
+
+export const getModelProvider = (settings: GenerationSettings): ModelProvider => {
+  let provider: ModelProvider;
+  switch (settings.provider) {
+    case 'openai':
+      provider = createOpenAiCompatibleProvider(loadOpenAiConnection());
+      break;
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    default:
+      // A key is only present in local dev builds; everywhere else Gemini is reached through the API server
+      provider = API_KEY ? createGeminiProvider() : createApiServerProvider();
+  }
+  // Replaying fixtures into new fixtures would only copy them
+  return withUsageTracking(withRetries(isRecording && provider.id !== 'mock' ? withRecording(provider) : provider));
+};
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Obligation, ObligationActor, ObligationStatus, ReferenceSource, RiskTier } from '../types';
+import { getObligationsForSourceFromDB, saveObligationsToDB, deleteObligationsForSourceFromDB } from '../utils/db';
+import { downloadBlob, toCsvBlob, toFileSlug } from '../utils/download';
+import { buildFullTextRequests } from './documentIndex';
+import { extractObligationsFromSource, AnswerRequestOptions, ExtractedObligation } from './geminiService';
+
+// Passages sent per extraction request; long regulations take several requests
+const EXTRACTION_BATCH_TOKENS = 30000;
+
+export const ACTOR_LABELS: Record<ObligationActor, string> = {
+  provider: 'Provider',
+  deployer: 'Deployer',
+  importer: 'Importer',
+  distributor: 'Distributor',
+  authorised_representative: 'Authorised representative',
+  other: 'Other',
+};
+
+export const RISK_TIER_LABELS: Record<RiskTier, string> = {
+  prohibited: 'Prohibited',
+  high: 'High-risk',
+  limited: 'Limited risk',
+  minimal: 'Minimal risk',
+  gpai: 'General-purpose AI',
+  gpai_systemic: 'GPAI with systemic risk',
+  unspecified: 'Unspecified',
+};
+
+export const STATUS_LABELS: Record<ObligationStatus, string> = {
+  open: 'Open',
+  done: 'Done',
+  not_applicable: 'Not applicable',
+};
+
+// Identifies the same obligation across batches and re-extractions.
+const obligationKey = (obligation: Pick<Obligation, 'article' | 'text'>): string =>
+  `${obligation.article}|${obligation.text}`.toLowerCase().replace(/[^a-z0-9|]+/g, ' ').trim();
+
+/**
+ * Extracts every obligation of a library document and replaces its stored
+ * checklist. Status and notes carry over to obligations that were already
+ * tracked, so re-running the extraction does not lose the team's progress.
+ */
+export const extractObligationsForSource = async (
+  source: ReferenceSource,
+  options: AnswerRequestOptions = {},
+  onProgress?: (completed: number, total: number) => void
+): Promise<Obligation[]> => {
+  const requests = await buildFullTextRequests(source, EXTRACTION_BATCH_TOKENS);
+
+  const extracted: ExtractedObligation[] = [];
+  for (let i = 0; i < requests.length; i++) {
+    onProgress?.(i, requests.length);
+    extracted.push(...await extractObligationsFromSource(requests[i], options));
+  }
+  onProgress?.(requests.length, requests.length);
+
+  const previous = new Map((await getObligationsForSourceFromDB(source.id)).map(o => [obligationKey(o), o]));
+  const seen = new Set<string>();
+  const now = new Date();
+  const obligations: Obligation[] = [];
+
+  extracted.forEach(item => {
+    const key = obligationKey(item);
+    if (!item.text?.trim() || seen.has(key)) return;
+    seen.add(key);
+    const existing = previous.get(key);
+    obligations.push({
+      id: existing?.id || `${source.id}#obl-${now.getTime()}-${obligations.length}`,
+      sourceId: source.id,
+      actor: Object.hasOwn(ACTOR_LABELS, item.actor) ? item.actor : 'other',
+      article: item.article?.trim() || '',
+      page: item.page && item.page > 0 ? item.page : undefined,
+      deadline: item.deadline?.trim() || undefined,
+      riskTier: Object.hasOwn(RISK_TIER_LABELS, item.riskTier) ? item.riskTier : 'unspecified',
+      text: item.text.trim(),
+      status: existing?.status || 'open',
+      notes: existing?.notes || '',
+      extractedAt: now,
+      updatedAt: existing?.updatedAt || now,
+    });
+  });
+
+  await deleteObligationsForSourceFromDB(source.id);
+  await saveObligationsToDB(obligations);
+  return obligations;
+};
+
+export const exportObligationsCsv = (obligations: Obligation[], sources: ReferenceSource[], fileName: string) => {
+  const rows = [
+    ['Source', 'Article', 'Page', 'Actor', 'Risk tier', 'Deadline', 'Obligation', 'Status', 'Notes', 'Last updated'],
+    ...obligations.map(o => [
+      sources.find(s => s.id === o.sourceId)?.title || o.sourceId,
+      o.article,
+      o.page ? String(o.page) : '',
+      ACTOR_LABELS[o.actor],
+      RISK_TIER_LABELS[o.riskTier],
+      o.deadline || '',
+      o.text,
+      STATUS_LABELS[o.status],
+      o.notes,
+      o.updatedAt.toISOString().slice(0, 10),
+    ]),
+  ];
+  downloadBlob(toCsvBlob(rows), `${toFileSlug(fileName)}.csv`);
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelProvider, ModelRequest, ModelJsonRequest, ModelJsonResponse, ModelResponse } from '../modelProvider';
+import { ModelError, errorFromResponse } from '../modelErrors';
+
+// Same origin by default: the API server also serves the built app, and the dev server proxies /api to it
+export const API_SERVER_URL = process.env.API_SERVER_URL || '/api';
+
+// The abort signal and usage attribution stay in the browser; the server cancels the model call when the connection closes
+const toRequestBody = ({ signal, attribution, ...request }: ModelRequest | ModelJsonRequest) => request;
+
+/**
+ * Gemini through the API server in server/, so the key never reaches the
+ * browser. The server runs the same Gemini adapter and returns its responses
+ * unchanged.
+ */
+export const createApiServerProvider = (baseUrl: string = API_SERVER_URL): ModelProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${root}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.json().catch(() => null);
+      const message = detail?.error || `The API server returned HTTP ${response.status}`;
+      // The server passes on the kind it classified; its own limits are told apart by status
+      throw detail?.kind
+        ? new ModelError(detail.kind, message, { status: response.status, retryAfterMs: detail.retryAfterMs })
+        : errorFromResponse(response.status, message, response.headers.get('Retry-After'));
+    }
+    return response;
+  };
+
+  return {
+    id: 'gemini',
+
+    generate: async (request) =>
+      (await post('/generate', toRequestBody(request), request.signal)).json() as Promise<ModelResponse>,
+
+    // Newline-delimited JSON: one ModelResponse delta per line, or {"error"} if the model call fails midway
+    stream: async function* (request) {
+      const response = await post('/stream', toRequestBody(request), request.signal);
+      if (!response.body) throw new Error('The API server did not return a stream.');
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const chunk = JSON.parse(line);
+          if (chunk.error) throw new ModelError(chunk.kind || 'unknown', chunk.error);
+          yield chunk as ModelResponse;
+        }
+      }
+    },
+
+    generateJson: async <T>(request: ModelJsonRequest) =>
+      (await post('/generate-json', toRequestBody(request), request.signal)).json() as Promise<ModelJsonResponse<T>>,
+
+    countTokens: async (request) =>
+      ((await (await post('/count-tokens', toRequestBody(request), request.signal)).json()) as { totalTokens: number }).totalTokens,
+  };
+};
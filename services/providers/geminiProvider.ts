@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentConfig, HarmCategory, HarmBlockThreshold, SafetySetting, Tool, GenerateContentResponse, GenerateContentResponseUsageMetadata, FinishReason } from "@google/genai";
+import { GenerationSettings, SafetyCategory, TokenUsage } from '../../types';
+import { ModelProvider, ModelRequest, ModelResponse } from '../modelProvider';
+// The API server runs this file as compiled ES modules, which need the extensions
+import { ModelError } from '../modelErrors.js';
+import { estimateTokens } from '../../utils/contextBudget.js';
+
+// Only inlined into local dev builds; deployed builds go through the API server,
+// which reads GEMINI_API_KEY from its own environment.
+export const API_KEY = process.env.API_KEY;
+
+const clients = new Map<string, GoogleGenAI>();
+
+const getAiInstance = (apiKey: string | undefined): GoogleGenAI => {
+  if (!apiKey) {
+    console.error("GEMINI_API_KEY is not set in environment variables.");
+    throw new Error("Gemini API Key not configured. Set GEMINI_API_KEY.");
+  }
+  if (!clients.has(apiKey)) {
+    clients.set(apiKey, new GoogleGenAI({ apiKey }));
+  }
+  return clients.get(apiKey)!;
+};
+
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const toSafetySettings = (settings: GenerationSettings): SafetySetting[] =>
+  (Object.keys(HARM_CATEGORIES) as SafetyCategory[]).map(category => ({
+    category: HARM_CATEGORIES[category],
+    threshold: settings.safety[category] as HarmBlockThreshold,
+  }));
+
+const toTools = (tools: ModelRequest['tools'] = {}): Tool[] => [
+  ...(tools.urlContext ? [{ urlContext: {} }] : []),
+  ...(tools.googleSearch ? [{ googleSearch: {} }] : []),
+];
+
+const buildConfig = ({ settings, systemInstruction, tools, signal }: ModelRequest): GenerateContentConfig => ({
+  tools: toTools(tools),
+  safetySettings: toSafetySettings(settings),
+  systemInstruction,
+  temperature: settings.temperature,
+  maxOutputTokens: settings.maxOutputTokens,
+  thinkingConfig: { thinkingBudget: settings.thinkingBudget },
+  abortSignal: signal,
+});
+
+// Pages read by the URL context tool are billed as prompt tokens too
+const toTokenUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => metadata && {
+  promptTokens: (metadata.promptTokenCount || 0) + (metadata.toolUsePromptTokenCount || 0),
+  candidatesTokens: metadata.candidatesTokenCount || 0,
+  thinkingTokens: metadata.thoughtsTokenCount || 0,
+};
+
+// A blocked prompt or answer comes back as an empty response rather than an API error
+const toModelResponse = (response: GenerateContentResponse): ModelResponse => {
+  const candidate = response.candidates?.[0];
+  return {
+    text: response.text || "",
+    urlMetadata: candidate?.urlContextMetadata?.urlMetadata,
+    groundingChunks: candidate?.groundingMetadata?.groundingChunks,
+    finishReason: candidate?.finishReason,
+    promptFeedback: response.promptFeedback,
+    safetyRatings: candidate?.safetyRatings,
+    usage: toTokenUsage(response.usageMetadata),
+  };
+};
+
+const SAFETY_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII];
+
+export const createGeminiProvider = (apiKey: string | undefined = API_KEY): ModelProvider => ({
+  id: 'gemini',
+
+  generate: async (request) => {
+    const response = await getAiInstance(apiKey).models.generateContent({
+      model: request.settings.model,
+      contents: request.contents,
+      config: buildConfig(request),
+    });
+    return toModelResponse(response);
+  },
+
+  stream: async function* (request) {
+    const stream = await getAiInstance(apiKey).models.generateContentStream({
+      model: request.settings.model,
+      contents: request.contents,
+      config: buildConfig(request),
+    });
+    for await (const chunk of stream) {
+      yield toModelResponse(chunk);
+    }
+  },
+
+  // JSON requests carry no tools: search grounding cannot be combined with a response schema.
+  generateJson: async <T>(request) => {
+    const response = await getAiInstance(apiKey).models.generateContent({
+      model: request.settings.model,
+      contents: request.contents,
+      config: {
+        ...buildConfig(request),
+        responseMimeType: "application/json",
+        responseSchema: request.responseSchema,
+      },
+    });
+    // An empty object would pass for a result that simply found nothing
+    const finishReason = response.candidates?.[0]?.finishReason;
+    const blockedBy = response.promptFeedback?.blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason) ? finishReason : undefined);
+    if (blockedBy) {
+      throw new ModelError('safety', `The request was blocked by the safety filters (${blockedBy}).`);
+    }
+    return { json: JSON.parse(response.text || "{}") as T, usage: toTokenUsage(response.usageMetadata) };
+  },
+
+  // The Gemini API does not count system instructions, so theirs is estimated
+  countTokens: async (request) => {
+    const response = await getAiInstance(apiKey).models.countTokens({
+      model: request.settings.model,
+      contents: request.contents,
+      config: { abortSignal: request.signal },
+    });
+    return (response.totalTokens || 0) + estimateTokens(request.systemInstruction || '');
+  },
+});
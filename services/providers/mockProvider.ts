@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from "@google/genai";
+import { ModelProvider, ModelRequest, ModelJsonRequest, ModelResponse } from '../modelProvider';
+import { ModelFixture, fixtureKey, lastUserText } from './modelFixtures';
+import { formatCitation } from '../../utils/citations';
+import { BRIEFING_CLOSING_LINE } from '../../utils/briefingFormat';
+import { estimateTokens } from '../../utils/contextBudget';
+
+// Recorded with RECORD_MODEL_FIXTURES=true and served next to the app, e.g. "/model-fixtures.json"
+const FIXTURES_URL = process.env.MOCK_FIXTURES_URL;
+const STREAM_CHUNK_WORDS = 6;
+const STREAM_CHUNK_DELAY_MS = 15;
+const MAX_MOCK_DETAILS = 4;
+
+interface MockPassage {
+  sourceId: string;
+  title: string;
+  page?: number;
+  section?: string;
+  text: string;
+}
+
+let fixturesPromise: Promise<ModelFixture[]> | null = null;
+
+const loadFixtures = (): Promise<ModelFixture[]> => {
+  if (!FIXTURES_URL) return Promise.resolve([]);
+  if (!fixturesPromise) {
+    fixturesPromise = fetch(FIXTURES_URL)
+      .then(response => response.ok ? response.json() : [])
+      .catch(e => {
+        console.error(`Failed to load model fixtures from ${FIXTURES_URL}`, e);
+        return [];
+      });
+  }
+  return fixturesPromise;
+};
+
+const findFixture = async (kind: ModelFixture['kind'], request: ModelRequest | ModelJsonRequest): Promise<ModelFixture | undefined> => {
+  const key = fixtureKey(kind, request);
+  return (await loadFixtures()).find(f => f.key === key);
+};
+
+// Reads the sources back out of the prompt built by geminiService
+const collectPassages = (prompt: string): MockPassage[] => {
+  const titles = new Map<string, string>();
+  for (const match of prompt.matchAll(/SOURCE_ID="([^"]+)"(?: title="([^"]*)"| \| type: \w+ \| title: "([^"]*)")/g)) {
+    titles.set(match[1], match[2] ?? match[3]);
+  }
+  const passages: MockPassage[] = [];
+  for (const match of prompt.matchAll(/<passage id="([^"]+)" page="(\d+)"(?: section="([^"]*)")?>\n([\s\S]*?)\n<\/passage>/g)) {
+    passages.push({
+      sourceId: match[1],
+      title: titles.get(match[1]) || match[1],
+      page: parseInt(match[2], 10),
+      section: match[3],
+      text: match[4],
+    });
+  }
+  // Sources sent whole or as URLs have no passages but can still be cited
+  titles.forEach((title, sourceId) => {
+    if (!passages.some(p => p.sourceId === sourceId)) passages.push({ sourceId, title, text: '' });
+  });
+  return passages;
+};
+
+const quote = (text: string): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > 140 ? `${flat.slice(0, 139).trimEnd()}…` : flat;
+};
+
+/**
+ * Builds a deterministic answer in the briefing format from the passages in
+ * the prompt, citing each one, so citations and the briefing view can be
+ * exercised without a recorded response.
+ */
+const synthesizeAnswer = (request: ModelRequest): ModelResponse => {
+  const prompt = lastUserText(request);
+  // The inquiry is the last part of the turn, after any documents
+  const turn = [...request.contents].reverse().find(c => c.role === 'user');
+  const question = (turn?.parts?.[turn.parts.length - 1]?.text || '').split('\n\n')[0].replace(/\s+/g, ' ').trim();
+  const passages = collectPassages(prompt).slice(0, MAX_MOCK_DETAILS);
+  const cite = (p: MockPassage) => {
+    const reference = p.section || (p.page ? `Page ${p.page}` : 'Document');
+    return formatCitation({ id: p.sourceId, page: p.page, label: `${p.title}: ${reference}` });
+  };
+
+  const review = passages.length > 0
+    ? `This offline mock answer was generated without a model. It quotes the ${passages.length} most relevant passages. ${cite(passages[0])}`
+    : 'This offline mock answer was generated without a model. No library sources were provided, so nothing is cited.';
+  const details = passages.length > 0
+    ? passages.map(p => `- ${p.text ? `"${quote(p.text)}"` : `${p.title} was provided in full.`} ${cite(p)}`)
+    : ['- Add documents to the library to get cited answers.'];
+
+  const title = question.length > 60 ? `${question.slice(0, 57)}...` : question;
+  return {
+    text: [`## Mock briefing: ${title || 'Inquiry'}`, '', '### Short Review', review, '', '### Key Details', ...details, '', BRIEFING_CLOSING_LINE].join('\n'),
+  };
+};
+
+// A minimal value matching the schema; ids and pages are taken from the prompt where the schema asks for them
+const synthesizeJson = (schema: Schema, passages: MockPassage[], name = ''): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, synthesizeJson(value, passages, key)]));
+    case Type.ARRAY:
+      return schema.items ? [synthesizeJson(schema.items, passages, name)] : [];
+    case Type.INTEGER:
+    case Type.NUMBER:
+      return name === 'page' ? passages[0]?.page ?? 1 : 1;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      if (schema.enum?.length) return schema.enum[0];
+      if (name === 'sourceId') return passages[0]?.sourceId || 'mock-source';
+      if (/YYYY-MM-DD/.test(schema.description || '')) return '2026-08-02';
+      return passages[0]?.text ? `Mock ${name || 'value'}: ${quote(passages[0].text)}` : `Mock ${name || 'value'}`;
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Offline provider: replays a recorded fixture when one matches the request
+ * exactly, and otherwise answers deterministically from the prompt itself.
+ */
+export const createMockProvider = (): ModelProvider => {
+  const generate = async (request: ModelRequest): Promise<ModelResponse> => {
+    const fixture = await findFixture('text', request);
+    return fixture?.response || synthesizeAnswer(request);
+  };
+
+  return {
+    id: 'mock',
+
+    generate,
+
+    // Replays the answer a few words at a time so the streaming UI behaves as with a real model
+    stream: async function* (request) {
+      const { text, ...metadata } = await generate(request);
+      const words = text.split(/(?<=\s)/);
+      for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+        if (request.signal?.aborted) return;
+        await wait(STREAM_CHUNK_DELAY_MS);
+        yield { text: words.slice(i, i + STREAM_CHUNK_WORDS).join('') };
+      }
+      yield { text: '', ...metadata };
+    },
+
+    generateJson: async <T>(request) => {
+      const fixture = await findFixture('json', request);
+      if (fixture) return { json: fixture.json as T };
+      return { json: synthesizeJson(request.responseSchema, collectPassages(lastUserText(request))) as T };
+    },
+
+    countTokens: async (request) =>
+      estimateTokens([request.systemInstruction || '', ...request.contents.flatMap(c => (c.parts || []).map(p => p.text || ''))].join('\n')),
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelRequest, ModelJsonRequest, ModelResponse } from '../modelProvider';
+
+// A recorded model response, replayed by the mock provider for an identical request.
+export interface ModelFixture {
+  key: string;
+  kind: 'text' | 'json';
+  // Start of the last user message, so fixture files stay readable
+  prompt: string;
+  response?: ModelResponse;
+  json?: unknown;
+}
+
+// FNV-1a; only needs to be stable, not cryptographic
+const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Identifies a request independently of the provider and its settings, so
+ * fixtures recorded against Gemini replay under the mock provider.
+ */
+export const fixtureKey = (kind: ModelFixture['kind'], request: ModelRequest | ModelJsonRequest): string => {
+  const contents = request.contents.map(content => ({
+    role: content.role,
+    parts: (content.parts || []).map(part => part.inlineData
+      ? { inlineData: `${part.inlineData.mimeType}:${hashString(part.inlineData.data || '')}` }
+      : { text: part.text || '' }),
+  }));
+  const schema = 'responseSchema' in request ? request.responseSchema : undefined;
+  const tools = 'tools' in request ? request.tools : undefined;
+  return `${kind}-${hashString(JSON.stringify({ system: request.systemInstruction, contents, schema, tools }))}`;
+};
+
+export const lastUserText = (request: ModelRequest | ModelJsonRequest): string => {
+  const last = [...request.contents].reverse().find(c => c.role === 'user');
+  return (last?.parts || []).map(p => p.text || '').join('\n');
+};
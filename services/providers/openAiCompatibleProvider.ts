@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Content, Schema, FinishReason } from "@google/genai";
+import { TokenUsage } from '../../types';
+import { ModelProvider, ModelRequest, OpenAiConnection } from '../modelProvider';
+import { errorFromResponse } from '../modelErrors';
+import { estimateTokens } from '../../utils/contextBudget';
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Gemini contents become chat messages; inline files cannot be sent as text.
+const toMessages = ({ contents, systemInstruction }: Pick<ModelRequest, 'contents' | 'systemInstruction'>): ChatCompletionMessage[] => {
+  const messages: ChatCompletionMessage[] = systemInstruction ? [{ role: 'system', content: systemInstruction }] : [];
+  contents.forEach((content: Content) => {
+    const text = (content.parts || [])
+      .map(part => part.inlineData
+        ? `[A ${part.inlineData.mimeType} file was attached here, but this model only reads text. Do not cite it.]`
+        : part.text || '')
+      .filter(Boolean)
+      .join('\n\n');
+    messages.push({ role: content.role === 'model' ? 'assistant' : 'user', content: text });
+  });
+  return messages;
+};
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema wants them in lower case.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+    json.required = schema.required || [];
+  }
+  return json;
+};
+
+// OpenAI finish reasons in Gemini's terms, so answers are flagged the same way
+const FINISH_REASONS: Record<string, FinishReason> = {
+  stop: FinishReason.STOP,
+  length: FinishReason.MAX_TOKENS,
+  content_filter: FinishReason.SAFETY,
+};
+
+// Reasoning tokens, where reported, are part of completion_tokens
+const toTokenUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number; completion_tokens_details?: { reasoning_tokens?: number } }): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    candidatesTokens: (usage.completion_tokens || 0) - thinkingTokens,
+    thinkingTokens,
+  };
+};
+
+// Local models sometimes wrap JSON in a markdown fence despite the response format
+const parseJsonContent = (content: string): unknown =>
+  JSON.parse(content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '') || '{}');
+
+/**
+ * Adapter for any OpenAI-compatible chat completions endpoint, such as a
+ * local Ollama or vLLM server. URL context, search grounding and thinking
+ * budgets are Gemini features and are not sent.
+ */
+export const createOpenAiCompatibleProvider = (connection: OpenAiConnection): ModelProvider => {
+  const endpoint = `${connection.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(connection.apiKey ? { Authorization: `Bearer ${connection.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw errorFromResponse(response.status, `${endpoint} returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`, response.headers.get('Retry-After'));
+    }
+    return response;
+  };
+
+  const baseBody = (request: ModelRequest) => ({
+    model: request.settings.model,
+    messages: toMessages(request),
+    temperature: request.settings.temperature,
+    max_tokens: request.settings.maxOutputTokens,
+  });
+
+  return {
+    id: 'openai',
+
+    generate: async (request) => {
+      const data = await (await post(baseBody(request), request.signal)).json();
+      const choice = data.choices?.[0];
+      return { text: choice?.message?.content || '', finishReason: FINISH_REASONS[choice?.finish_reason], usage: toTokenUsage(data.usage) };
+    },
+
+    // Server-sent events: one "data: {json}" line per delta, ending with "data: [DONE]".
+    // Usage comes in a final event with no choices; servers that ignore include_usage send none.
+    stream: async function* (request) {
+      const response = await post({ ...baseBody(request), stream: true, stream_options: { include_usage: true } }, request.signal);
+      if (!response.body) throw new Error(`${endpoint} did not return a stream.`);
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const event = JSON.parse(data);
+          const choice = event.choices?.[0];
+          if (choice?.delta?.content) yield { text: choice.delta.content };
+          if (choice?.finish_reason) yield { text: '', finishReason: FINISH_REASONS[choice.finish_reason] };
+          if (event.usage) yield { text: '', usage: toTokenUsage(event.usage) };
+        }
+      }
+    },
+
+    generateJson: async <T>(request) => {
+      const data = await (await post({
+        ...baseBody(request),
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) },
+        },
+      }, request.signal)).json();
+      return { json: parseJsonContent(data.choices?.[0]?.message?.content || '') as T, usage: toTokenUsage(data.usage) };
+    },
+
+    // Chat completions has no token counting endpoint
+    countTokens: async (request) =>
+      toMessages(request).reduce((total, message) => total + estimateTokens(message.content), 0),
+  };
+};
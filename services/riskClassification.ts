@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AISystemDescription, ContextSource, ReferenceSource, RiskClassification, SystemProfile } from '../types';
+import { formatCitation } from '../utils/citations';
+import { isSourceIncluded } from '../utils/contextBudget';
+import { classifyAISystem, AnswerRequestOptions, SourceCitation } from './geminiService';
+
+export interface WizardField {
+  key: keyof AISystemDescription;
+  label: string;
+  placeholder: string;
+  multiline?: boolean;
+}
+
+// Wizard steps, in the order the description is collected
+export const WIZARD_STEPS: { title: string; fields: WizardField[] }[] = [
+  {
+    title: 'Purpose',
+    fields: [
+      { key: 'name', label: 'System name', placeholder: 'e.g. CV screening assistant' },
+      { key: 'purpose', label: 'Intended purpose', placeholder: 'What the system does and what its outputs are used for...', multiline: true },
+    ],
+  },
+  {
+    title: 'Context',
+    fields: [
+      { key: 'sector', label: 'Sector', placeholder: 'e.g. Employment, education, law enforcement, retail...' },
+      { key: 'users', label: 'Users and affected persons', placeholder: 'Who operates it, and who is subject to its outputs...', multiline: true },
+    ],
+  },
+  {
+    title: 'Operation',
+    fields: [
+      { key: 'data', label: 'Data processed', placeholder: 'e.g. CVs, biometric data, behavioural data, public text...', multiline: true },
+      { key: 'autonomy', label: 'Autonomy and human oversight', placeholder: 'Does it decide on its own, recommend, or assist a human reviewer?', multiline: true },
+    ],
+  },
+];
+
+export const EMPTY_SYSTEM_DESCRIPTION: AISystemDescription = {
+  name: '',
+  purpose: '',
+  sector: '',
+  users: '',
+  data: '',
+  autonomy: '',
+};
+
+// Steers retrieval towards the classification provisions whatever the description says
+const CLASSIFICATION_RETRIEVAL_TERMS = 'Article 5 prohibited practices Article 6 high-risk classification Annex III Article 50 transparency obligations';
+
+export const createSystemProfileId = () => `system-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const classificationRetrievalQuery = (system: AISystemDescription): string =>
+  [system.purpose, system.sector, system.users, system.data, system.autonomy, CLASSIFICATION_RETRIEVAL_TERMS].join('\n');
+
+/**
+ * Identifies the library content a classification was made against: the
+ * included sources and their indexed text. URL sources are identified by their
+ * snapshot's content hash, since an accepted snapshot can keep the chunk count.
+ * A profile whose signature no longer matches should be re-evaluated.
+ */
+export const librarySignature = (sources: ReferenceSource[]): string =>
+  sources
+    .filter(isSourceIncluded)
+    .map(s => `${s.id}:${s.snapshot?.contentHash ?? s.textIndex?.chunkCount ?? s.sizeBytes ?? s.url ?? ''}`)
+    .sort()
+    .join('|');
+
+export const isClassificationStale = (profile: SystemProfile, sources: ReferenceSource[]): boolean =>
+  !!profile.classification && profile.classification.librarySignature !== librarySignature(sources);
+
+// Citations to documents that were not sent are kept but flagged, as in chat answers.
+const citeStep = (citations: SourceCitation[], allowedIds: Set<string>): string =>
+  citations
+    .map(c => formatCitation({
+      id: c.sourceId,
+      page: c.page && c.page > 0 ? c.page : undefined,
+      label: c.reference,
+      unverified: !allowedIds.has(c.sourceId),
+    }))
+    .join(' ');
+
+export const classifySystem = async (
+  system: AISystemDescription,
+  contextSources: ContextSource[],
+  signature: string,
+  options: AnswerRequestOptions = {}
+): Promise<RiskClassification> => {
+  const result = await classifyAISystem(system, contextSources, options);
+  const allowedIds = new Set(contextSources.map(s => s.id));
+  return {
+    tier: result.tier,
+    category: result.category?.trim() || undefined,
+    summary: result.summary.trim(),
+    steps: result.steps.map(step => {
+      const citations = citeStep(step.citations || [], allowedIds);
+      return { question: step.question, finding: `${step.finding.trim()}${citations ? ` ${citations}` : ''}` };
+    }),
+    evaluatedAt: new Date(),
+    librarySignature: signature,
+    generationSettings: options.settings,
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Milestone, ReferenceSource } from '../types';
+import { getMilestonesForSourceFromDB, saveMilestonesToDB, deleteMilestoneFromDB } from '../utils/db';
+import { downloadBlob, toIcsBlob, toFileSlug } from '../utils/download';
+import { buildFullTextRequests } from './documentIndex';
+import { extractMilestonesFromSource, AnswerRequestOptions, ExtractedMilestone } from './geminiService';
+
+// Passages sent per extraction request; long regulations take several requests
+const EXTRACTION_BATCH_TOKENS = 30000;
+
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const isValidIsoDate = (date: string): boolean => {
+  const match = date.match(ISO_DATE_REGEX);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+};
+
+const normalise = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Identifies the same milestone across batches and re-extractions.
+const milestoneKey = (milestone: Pick<Milestone, 'date' | 'title'>): string =>
+  `${milestone.date}|${normalise(milestone.title)}`;
+
+/**
+ * Extracts the dated milestones of a library document. Confirmed milestones are
+ * kept as the user left them; earlier suggestions are replaced by the new ones,
+ * minus any that duplicate a confirmed milestone.
+ */
+export const extractMilestonesForSource = async (
+  source: ReferenceSource,
+  options: AnswerRequestOptions = {},
+  onProgress?: (completed: number, total: number) => void
+): Promise<Milestone[]> => {
+  const requests = await buildFullTextRequests(source, EXTRACTION_BATCH_TOKENS);
+
+  const extracted: ExtractedMilestone[] = [];
+  for (let i = 0; i < requests.length; i++) {
+    onProgress?.(i, requests.length);
+    extracted.push(...await extractMilestonesFromSource(requests[i], options));
+  }
+  onProgress?.(requests.length, requests.length);
+
+  const previous = await getMilestonesForSourceFromDB(source.id);
+  const confirmed = previous.filter(m => m.status === 'confirmed');
+  const seen = new Set(confirmed.map(milestoneKey));
+  const confirmedProvisions = new Set(confirmed.map(m => `${m.date}|${normalise(m.article)}`));
+  const now = new Date();
+  const suggestions: Milestone[] = [];
+
+  extracted.forEach(item => {
+    const date = item.date?.trim() || '';
+    if (!isValidIsoDate(date) || !item.title?.trim()) return;
+    const key = milestoneKey({ date, title: item.title });
+    const article = item.article?.trim() || '';
+    if (seen.has(key) || (article && confirmedProvisions.has(`${date}|${normalise(article)}`))) return;
+    seen.add(key);
+    suggestions.push({
+      id: `${source.id}#ms-${now.getTime()}-${suggestions.length}`,
+      sourceId: source.id,
+      page: item.page && item.page > 0 ? item.page : undefined,
+      date,
+      title: item.title.trim(),
+      description: item.description?.trim() || '',
+      article,
+      status: 'suggested',
+      extractedAt: now,
+      updatedAt: now,
+    });
+  });
+
+  for (const stale of previous.filter(m => m.status === 'suggested')) {
+    await deleteMilestoneFromDB(stale.id);
+  }
+  await saveMilestonesToDB(suggestions);
+  return [...confirmed, ...suggestions];
+};
+
+const todayIsoDate = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Whole days from today (in local time) to the milestone date; negative once it has passed.
+export const daysUntil = (date: string): number => {
+  const toUtcDay = (iso: string) => {
+    const [year, month, day] = iso.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtcDay(date) - toUtcDay(todayIsoDate())) / 86400000);
+};
+
+export const formatCountdown = (days: number): string => {
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days === -1) return 'Yesterday';
+  return days > 0 ? `in ${days} days` : `${-days} days ago`;
+};
+
+export const formatMilestoneDate = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+export const exportMilestonesIcs = (milestones: Milestone[], sources: ReferenceSource[], fileName: string) => {
+  const events = milestones.map(m => {
+    const sourceTitle = sources.find(s => s.id === m.sourceId)?.title || m.sourceId;
+    const reference = [sourceTitle, m.article, m.page ? `p. ${m.page}` : ''].filter(Boolean).join(', ');
+    return {
+      uid: `${m.id.replace(/[^A-Za-z0-9-]/g, '-')}@ai-regulatory-navigator`,
+      date: m.date,
+      summary: m.title,
+      description: `${m.description}\n\nSource: ${reference}`.trim(),
+    };
+  });
+  downloadBlob(toIcsBlob(events, 'Regulatory timeline'), `${toFileSlug(fileName)}.ics`);
+};
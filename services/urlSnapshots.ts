@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ReferenceSource, SourceTextIndex, UrlSnapshot, UrlSnapshotInfo } from '../types';
+import {
+  saveUrlSnapshotToDB, getUrlSnapshotFromDB, deleteUrlSnapshotFromDB, deleteUrlSnapshotsForSourceFromDB
+} from '../utils/db';
+import { findDocumentLoader } from '../utils/documentLoaders';
+import { bytesToBase64 } from '../utils/encoding';
+import { indexDocumentPages } from './documentIndex';
+import { diffDocumentLines, pagesToDocumentLines, VersionDiff } from './versionDiff';
+
+const FETCH_PROXY_STORAGE_KEY = 'ai_reg_navigator_fetch_proxy_v1';
+
+// Browsers cannot read most regulator sites directly (CORS), so pages are
+// fetched through a proxy. "{url}" is replaced by the encoded page URL.
+export const DEFAULT_FETCH_PROXY_URL = process.env.FETCH_PROXY_URL || 'http://localhost:8787/fetch?url={url}';
+
+export class UrlFetchError extends Error {
+  constructor(url: string, reason: string) {
+    super(`Could not fetch ${url}: ${reason}`);
+    this.name = 'UrlFetchError';
+  }
+}
+
+export interface SnapshotResult {
+  snapshot: UrlSnapshotInfo;
+  textIndex: SourceTextIndex;
+  // The page's <title>, if it has one
+  pageTitle?: string;
+}
+
+export interface RecheckResult {
+  snapshot: UrlSnapshotInfo;
+  changed: boolean;
+}
+
+export const loadFetchProxyUrl = (): string => {
+  try {
+    return localStorage.getItem(FETCH_PROXY_STORAGE_KEY) || DEFAULT_FETCH_PROXY_URL;
+  } catch (e) {
+    console.error("Failed to load the fetch proxy setting", e);
+    return DEFAULT_FETCH_PROXY_URL;
+  }
+};
+
+export const saveFetchProxyUrl = (proxyUrl: string) => {
+  try {
+    if (proxyUrl.trim() && proxyUrl.trim() !== DEFAULT_FETCH_PROXY_URL) {
+      localStorage.setItem(FETCH_PROXY_STORAGE_KEY, proxyUrl.trim());
+    } else {
+      localStorage.removeItem(FETCH_PROXY_STORAGE_KEY);
+    }
+  } catch (e) {
+    console.error("Failed to save the fetch proxy setting", e);
+  }
+};
+
+const buildProxyRequestUrl = (proxyUrl: string, url: string): string =>
+  proxyUrl.includes('{url}') ? proxyUrl.replace('{url}', encodeURIComponent(url)) : `${proxyUrl}${encodeURIComponent(url)}`;
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const createSnapshotId = (sourceId: string) => `${sourceId}#snap-${Date.now()}`;
+
+const readPageTitle = (html: string): string | undefined => {
+  const title = new DOMParser().parseFromString(html, 'text/html').querySelector('title')?.textContent?.trim();
+  return title || undefined;
+};
+
+/**
+ * Fetches a URL through the proxy and extracts its text with the document
+ * loader for the returned content type (HTML, PDF, plain text...).
+ */
+const fetchSnapshot = async (source: ReferenceSource, proxyUrl: string): Promise<{ snapshot: UrlSnapshot; pageTitle?: string }> => {
+  const url = source.url!;
+  let response: Response;
+  try {
+    response = await fetch(buildProxyRequestUrl(proxyUrl, url));
+  } catch (e) {
+    throw new UrlFetchError(url, `the fetch proxy at ${proxyUrl.split('?')[0]} is not reachable`);
+  }
+  if (!response.ok) throw new UrlFetchError(url, `the proxy returned HTTP ${response.status}`);
+
+  const contentType = (response.headers.get('content-type') || 'text/html').split(';')[0].trim().toLowerCase();
+  const loader = findDocumentLoader({ mimeType: contentType, name: new URL(url).pathname });
+  if (!loader) throw new UrlFetchError(url, `unsupported content type "${contentType}"`);
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const pages = await loader.extractPages(bytesToBase64(bytes));
+  if (!pages.some(page => page.trim())) throw new UrlFetchError(url, 'the page has no readable text');
+
+  return {
+    snapshot: {
+      id: createSnapshotId(source.id),
+      sourceId: source.id,
+      url,
+      contentType,
+      contentHash: await sha256Hex(pages.join('\f')),
+      pages,
+      fetchedAt: new Date(),
+    },
+    pageTitle: loader.kind === 'html' ? readPageTitle(new TextDecoder().decode(bytes)) : undefined,
+  };
+};
+
+/**
+ * Takes the first snapshot of a URL source and indexes its text, so queries
+ * retrieve passages from the snapshot instead of relying on live search.
+ */
+export const snapshotUrlSource = async (source: ReferenceSource, proxyUrl: string): Promise<SnapshotResult> => {
+  const { snapshot, pageTitle } = await fetchSnapshot(source, proxyUrl);
+  await saveUrlSnapshotToDB(snapshot);
+  const textIndex = await indexDocumentPages(source.id, snapshot.pages);
+  if (source.snapshot) {
+    await deleteUrlSnapshotFromDB(source.snapshot.snapshotId);
+    if (source.snapshot.pendingSnapshotId) await deleteUrlSnapshotFromDB(source.snapshot.pendingSnapshotId);
+  }
+  const fetchedAt = snapshot.fetchedAt.toISOString();
+  return {
+    snapshot: { snapshotId: snapshot.id, contentHash: snapshot.contentHash, fetchedAt, checkedAt: fetchedAt },
+    textIndex,
+    pageTitle,
+  };
+};
+
+/**
+ * Fetches the URL again and compares it with the current snapshot. Different
+ * content is stored as a pending snapshot; queries keep using the current one
+ * until the change is accepted.
+ */
+export const recheckUrlSource = async (source: ReferenceSource, proxyUrl: string): Promise<RecheckResult> => {
+  const current = source.snapshot!;
+  const { snapshot } = await fetchSnapshot(source, proxyUrl);
+  const checkedAt = snapshot.fetchedAt.toISOString();
+
+  if (current.pendingSnapshotId) {
+    await deleteUrlSnapshotFromDB(current.pendingSnapshotId);
+  }
+  if (snapshot.contentHash === current.contentHash) {
+    return { snapshot: { ...current, checkedAt, pendingSnapshotId: undefined }, changed: false };
+  }
+  await saveUrlSnapshotToDB(snapshot);
+  return { snapshot: { ...current, checkedAt, pendingSnapshotId: snapshot.id }, changed: true };
+};
+
+// Makes the pending snapshot the current one and re-indexes the source from it.
+export const acceptPendingSnapshot = async (source: ReferenceSource): Promise<SnapshotResult> => {
+  const current = source.snapshot!;
+  const pending = current.pendingSnapshotId ? await getUrlSnapshotFromDB(current.pendingSnapshotId) : undefined;
+  if (!pending) throw new Error('The new snapshot is no longer available. Check the page again.');
+
+  const textIndex = await indexDocumentPages(source.id, pending.pages);
+  await deleteUrlSnapshotFromDB(current.snapshotId);
+  return {
+    snapshot: {
+      snapshotId: pending.id,
+      contentHash: pending.contentHash,
+      fetchedAt: pending.fetchedAt.toISOString(),
+      checkedAt: current.checkedAt,
+    },
+    textIndex,
+  };
+};
+
+export const discardPendingSnapshot = async (source: ReferenceSource): Promise<UrlSnapshotInfo> => {
+  const current = source.snapshot!;
+  if (current.pendingSnapshotId) await deleteUrlSnapshotFromDB(current.pendingSnapshotId);
+  return { ...current, pendingSnapshotId: undefined };
+};
+
+export const computeSnapshotDiff = async (source: ReferenceSource): Promise<VersionDiff> => {
+  const current = source.snapshot;
+  const [older, newer] = await Promise.all([
+    current ? getUrlSnapshotFromDB(current.snapshotId) : undefined,
+    current?.pendingSnapshotId ? getUrlSnapshotFromDB(current.pendingSnapshotId) : undefined,
+  ]);
+  if (!older || !newer) throw new Error('Both snapshots are needed to show the changes. Check the page again.');
+  return diffDocumentLines(pagesToDocumentLines(older.pages), pagesToDocumentLines(newer.pages));
+};
+
+export const removeUrlSnapshots = (sourceId: string): Promise<void> => deleteUrlSnapshotsForSourceFromDB(sourceId);
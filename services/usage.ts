@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelProviderId, TokenUsage, UsageRecord } from '../types';
+import { MODEL_OPTIONS, ModelPricing } from './generationSettings';
+
+const USAGE_BUDGET_STORAGE_KEY = 'ai_reg_navigator_usage_budget_v1';
+
+// Output allowance for the pre-flight check, which can only count the prompt
+export const ESTIMATED_ANSWER_TOKENS = 2000;
+// The local prompt estimate guesses PDF pages from file size, so queries estimated
+// at more than this share of the remaining budget are counted by the model
+export const EXACT_COUNT_BUDGET_SHARE = 0.5;
+
+export interface UsageBudget {
+  // Estimated spend per calendar day in USD; 0 turns the warning off
+  dailyLimitUsd: number;
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { dailyLimitUsd: 0 };
+
+export interface UsageSummary extends TokenUsage {
+  key: string;
+  calls: number;
+  cost: number;
+  // Calls whose model has no known price, so cost leaves them out
+  unpricedCalls: number;
+}
+
+export const EMPTY_TOKEN_USAGE: TokenUsage = { promptTokens: 0, candidatesTokens: 0, thinkingTokens: 0 };
+
+export const addTokenUsage = (a: TokenUsage | undefined, b: TokenUsage): TokenUsage => ({
+  promptTokens: (a?.promptTokens || 0) + b.promptTokens,
+  candidatesTokens: (a?.candidatesTokens || 0) + b.candidatesTokens,
+  thinkingTokens: (a?.thinkingTokens || 0) + b.thinkingTokens,
+});
+
+export const totalTokens = (usage: TokenUsage): number =>
+  usage.promptTokens + usage.candidatesTokens + usage.thinkingTokens;
+
+// Only Gemini models have list prices; local and OpenAI-compatible models are counted but not priced
+export const findModelPricing = (provider: ModelProviderId, model: string): ModelPricing | undefined =>
+  provider === 'gemini' ? MODEL_OPTIONS.find(m => m.id === model)?.pricing : undefined;
+
+/**
+ * Estimated USD cost of one call at list prices. The long-context rate applies
+ * to the whole call once its prompt passes the threshold, as Gemini bills it.
+ */
+export const estimateCost = (usage: TokenUsage, pricing: ModelPricing): number => {
+  const longContext = pricing.longContextThreshold !== undefined && usage.promptTokens > pricing.longContextThreshold;
+  const inputRate = longContext ? pricing.longContextInputPerMillion ?? pricing.inputPerMillion : pricing.inputPerMillion;
+  const outputRate = longContext ? pricing.longContextOutputPerMillion ?? pricing.outputPerMillion : pricing.outputPerMillion;
+  return (usage.promptTokens * inputRate + (usage.candidatesTokens + usage.thinkingTokens) * outputRate) / 1_000_000;
+};
+
+export const estimateRecordCost = (record: UsageRecord): number | undefined => {
+  const pricing = findModelPricing(record.provider, record.model);
+  return pricing && estimateCost(record, pricing);
+};
+
+// Local calendar day, e.g. "2026-10-19"
+export const usageDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Totals per key (day, session, library group), most expensive first; days
+ * are better read in order, so callers sort those themselves.
+ */
+export const summarizeUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageSummary[] => {
+  const summaries = new Map<string, UsageSummary>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    const summary = summaries.get(key) || { key, calls: 0, cost: 0, unpricedCalls: 0, ...EMPTY_TOKEN_USAGE };
+    const cost = estimateRecordCost(record);
+    summaries.set(key, {
+      ...summary,
+      ...addTokenUsage(summary, record),
+      calls: summary.calls + 1,
+      cost: summary.cost + (cost ?? 0),
+      unpricedCalls: summary.unpricedCalls + (cost === undefined ? 1 : 0),
+    });
+  });
+  return [...summaries.values()].sort((a, b) => b.cost - a.cost || totalTokens(b) - totalTokens(a));
+};
+
+export const spentOnDay = (records: UsageRecord[], day: Date = new Date()): number => {
+  const key = usageDayKey(day);
+  return records
+    .filter(record => usageDayKey(record.timestamp) === key)
+    .reduce((total, record) => total + (estimateRecordCost(record) ?? 0), 0);
+};
+
+// Cents for everyday amounts, more digits for the fractions of a cent a single answer costs
+export const formatCost = (usd: number): string =>
+  usd === 0 || usd >= 0.01 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(4)}`;
+
+export const loadUsageBudget = (): UsageBudget => {
+  try {
+    const saved = localStorage.getItem(USAGE_BUDGET_STORAGE_KEY);
+    return saved ? { ...DEFAULT_USAGE_BUDGET, ...JSON.parse(saved) } : DEFAULT_USAGE_BUDGET;
+  } catch (e) {
+    console.error("Failed to load the usage budget from local storage", e);
+    return DEFAULT_USAGE_BUDGET;
+  }
+};
+
+export const saveUsageBudget = (budget: UsageBudget): void => {
+  try {
+    localStorage.setItem(USAGE_BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  } catch (e) {
+    console.error("Failed to save the usage budget to local storage", e);
+  }
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { DocumentChunk, ReferenceSource } from '../types';
+import { computeVersionDiff } from './versionDiff';
+
+// Extracted text per source id, one chunk per page
+const pagesBySource = vi.hoisted(() => new Map<string, string[]>());
+
+vi.mock('../utils/db', () => ({
+  getChunksForSourceFromDB: async (sourceId: string): Promise<DocumentChunk[]> =>
+    (pagesBySource.get(sourceId) || []).map((text, idx) => ({ id: `${sourceId}-p${idx + 1}-c0`, sourceId, page: idx + 1, text })),
+}));
+
+const versions = (oldPages: string[], newPages: string[]): [ReferenceSource, ReferenceSource] => {
+  pagesBySource.set('v1', oldPages);
+  pagesBySource.set('v2', newPages);
+  return [{ id: 'v1', type: 'file', title: 'Draft.pdf' }, { id: 'v2', type: 'file', title: 'Final.pdf' }];
+};
+
+const numbered = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('computeVersionDiff', () => {
+  it('pairs edited lines and keeps dissimilar replacements as a removal and an addition', async () => {
+    const diff = await computeVersionDiff(...versions(
+      ['Article 5\nProviders shall notify the authority within 15 days.\nFines apply.'],
+      ['Article 5\nProviders shall notify the authority within 10 days.\nThe Commission may adopt delegated acts.']
+    ));
+
+    expect(diff.hunks[0].lines.map(l => l.type)).toEqual(['context', 'changed', 'removed', 'added']);
+    expect([diff.changedCount, diff.removedCount, diff.addedCount]).toEqual([1, 1, 1]);
+    const changed = diff.hunks[0].lines[1];
+    expect(changed.type === 'changed' && changed.words.filter(p => p.type !== 'equal').map(p => p.items.join(''))).toEqual(['15', '10']);
+  });
+
+  it('ignores whitespace and keeps the page of each line', async () => {
+    const diff = await computeVersionDiff(...versions(['Article 1\nScope'], ['Article 1', '  Scope  \nDefinitions']));
+
+    expect(diff.hunks).toHaveLength(1);
+    const added = diff.hunks[0].lines.filter(l => l.type === 'added');
+    expect(added.map(l => l.type === 'added' && [l.new.text, l.new.page])).toEqual([['Definitions', 2]]);
+  });
+
+  it('shows two lines of context and counts the unchanged lines hidden between hunks', async () => {
+    const oldLines = numbered(20, 'Line');
+    const newLines = [...oldLines];
+    newLines[2] = 'Inserted instead of three';
+    newLines[15] = 'Inserted instead of sixteen';
+
+    const diff = await computeVersionDiff(...versions([oldLines.join('\n')], [newLines.join('\n')]));
+
+    expect(diff.hunks.map(h => [h.skippedBefore, h.lines.length])).toEqual([[0, 6], [8, 6]]);
+    expect(diff.hunks[1].lines[0]).toMatchObject({ type: 'context', new: { text: 'Line 14' } });
+  });
+
+  it('merges changes whose context overlaps into one hunk', async () => {
+    const oldLines = numbered(10, 'Line');
+    const newLines = [...oldLines];
+    newLines[2] = 'Replaced three';
+    newLines[6] = 'Replaced seven';
+
+    const diff = await computeVersionDiff(...versions([oldLines.join('\n')], [newLines.join('\n')]));
+
+    expect(diff.hunks).toHaveLength(1);
+    expect(diff.hunks[0].lines[0]).toMatchObject({ new: { text: 'Line 1' } });
+    expect(diff.hunks[0].lines.at(-1)).toMatchObject({ new: { text: 'Line 9' } });
+  });
+
+  it('reports versions that differ in too many lines instead of diffing them', async () => {
+    const diff = await computeVersionDiff(...versions([numbered(1600, 'Old').join('\n')], [numbered(1600, 'New').join('\n')]));
+
+    expect(diff).toEqual({ hunks: [], addedCount: 0, removedCount: 0, changedCount: 0, isTooLarge: true });
+  });
+
+  it('refuses a version without extracted text', async () => {
+    await expect(computeVersionDiff(...versions([], ['Article 1']))).rejects.toThrow('"Draft.pdf" has no extracted text to compare.');
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ReferenceSource } from '../types';
+import { getChunksForSourceFromDB } from '../utils/db';
+import { diffSequences, diffWords, DiffPart } from '../utils/textDiff';
+import { formatCitation } from '../utils/citations';
+import { estimateTokens } from '../utils/contextBudget';
+import { sortChunksInDocumentOrder } from './documentIndex';
+import { summarizeDocumentChanges, AnswerRequestOptions } from './geminiService';
+
+// One line of extracted text, with the page and heading it sits under
+export interface DocumentLine {
+  text: string;
+  page: number;
+  heading?: string;
+}
+
+export type VersionDiffLine =
+  | { type: 'context'; old: DocumentLine; new: DocumentLine }
+  | { type: 'removed'; old: DocumentLine }
+  | { type: 'added'; new: DocumentLine }
+  | { type: 'changed'; old: DocumentLine; new: DocumentLine; words: DiffPart<string>[] };
+
+export interface VersionDiffHunk {
+  // Unchanged lines hidden between the previous hunk and this one
+  skippedBefore: number;
+  lines: VersionDiffLine[];
+}
+
+export interface VersionDiff {
+  hunks: VersionDiffHunk[];
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+  // The versions differ too much for a line diff
+  isTooLarge: boolean;
+}
+
+export interface VersionChange {
+  article: string;
+  // Markdown with inline <citation> tags into both versions
+  summary: string;
+}
+
+const CONTEXT_LINES = 2;
+// Beyond this many differing lines the diff trace gets too large to hold in memory
+const MAX_DIFF_EDITS = 3000;
+// Paired removed/added lines count as one edited line when at least this share of words survives
+const CHANGED_LINE_SIMILARITY = 0.5;
+const MAX_SUMMARY_DIFF_TOKENS = 60000;
+
+const normaliseLine = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Returns the previous versions of a source, newest first, following
+ * previousVersionId through the library.
+ */
+export const getVersionLineage = (source: ReferenceSource, sources: ReferenceSource[]): ReferenceSource[] => {
+  const lineage: ReferenceSource[] = [];
+  let current = source;
+  while (current.previousVersionId) {
+    const previous = sources.find(s => s.id === current.previousVersionId);
+    if (!previous || previous.id === source.id || lineage.includes(previous)) break;
+    lineage.push(previous);
+    current = previous;
+  }
+  return lineage;
+};
+
+// A source cannot become a version of itself or of one of its own later versions.
+export const canBePreviousVersion = (sourceId: string, candidate: ReferenceSource, sources: ReferenceSource[]): boolean =>
+  candidate.id !== sourceId && !getVersionLineage(candidate, sources).some(s => s.id === sourceId);
+
+const loadDocumentLines = async (source: ReferenceSource): Promise<DocumentLine[]> => {
+  const chunks = sortChunksInDocumentOrder(await getChunksForSourceFromDB(source.id));
+  if (chunks.length === 0) throw new Error(`"${source.title}" has no extracted text to compare.`);
+  return chunks.flatMap(chunk => chunk.text
+    .split('\n')
+    .map(normaliseLine)
+    .filter(Boolean)
+    .map(text => ({ text, page: chunk.page, heading: chunk.heading })));
+};
+
+const wordSimilarity = (words: DiffPart<string>[]): number => {
+  const count = (type: DiffPart<string>['type']) => words
+    .filter(p => p.type === type)
+    .reduce((sum, p) => sum + p.items.filter(w => w.trim()).length, 0);
+  const equal = count('equal');
+  return equal / Math.max(1, equal + Math.max(count('removed'), count('added')));
+};
+
+// Turns a block of removed lines followed by added lines into edits, pairing similar lines.
+const pairChanges = (removed: DocumentLine[], added: DocumentLine[]): VersionDiffLine[] => {
+  const lines: VersionDiffLine[] = [];
+  const pairs = Math.min(removed.length, added.length);
+  for (let i = 0; i < pairs; i++) {
+    const words = diffWords(removed[i].text, added[i].text);
+    if (wordSimilarity(words) >= CHANGED_LINE_SIMILARITY) {
+      lines.push({ type: 'changed', old: removed[i], new: added[i], words });
+    } else {
+      lines.push({ type: 'removed', old: removed[i] }, { type: 'added', new: added[i] });
+    }
+  }
+  removed.slice(pairs).forEach(line => lines.push({ type: 'removed', old: line }));
+  added.slice(pairs).forEach(line => lines.push({ type: 'added', new: line }));
+  return lines;
+};
+
+const groupHunks = (lines: VersionDiffLine[]): VersionDiffHunk[] => {
+  const hunks: VersionDiffHunk[] = [];
+  const changedIndexes = lines.map((line, idx) => line.type === 'context' ? -1 : idx).filter(idx => idx >= 0);
+  let lastEnd = 0;
+  let current: { start: number; end: number } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    hunks.push({ skippedBefore: current.start - lastEnd, lines: lines.slice(current.start, current.end) });
+    lastEnd = current.end;
+  };
+
+  changedIndexes.forEach(idx => {
+    const start = Math.max(0, idx - CONTEXT_LINES);
+    const end = Math.min(lines.length, idx + CONTEXT_LINES + 1);
+    if (current && start <= current.end) {
+      current.end = end;
+    } else {
+      flush();
+      current = { start, end };
+    }
+  });
+  flush();
+  return hunks;
+};
+
+/**
+ * Line diff of the extracted text of two versions, with word-level detail for
+ * edited lines. Lines are compared with normalised whitespace, so layout
+ * differences between the two files do not show up as changes.
+ */
+export const computeVersionDiff = async (older: ReferenceSource, newer: ReferenceSource): Promise<VersionDiff> => {
+  const [oldLines, newLines] = await Promise.all([loadDocumentLines(older), loadDocumentLines(newer)]);
+  return diffDocumentLines(oldLines, newLines);
+};
+
+// Lines of plain page text, e.g. of a URL snapshot, which has no chunk headings
+export const pagesToDocumentLines = (pages: string[]): DocumentLine[] =>
+  pages.flatMap((pageText, idx) => pageText
+    .split('\n')
+    .map(normaliseLine)
+    .filter(Boolean)
+    .map(text => ({ text, page: idx + 1 })));
+
+export const diffDocumentLines = (oldLines: DocumentLine[], newLines: DocumentLine[]): VersionDiff => {
+  const parts = diffSequences(oldLines, newLines, (a, b) => a.text === b.text, MAX_DIFF_EDITS);
+  if (!parts) {
+    return { hunks: [], addedCount: 0, removedCount: 0, changedCount: 0, isTooLarge: true };
+  }
+
+  const lines: VersionDiffLine[] = [];
+  let newIndex = 0;
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.type === 'equal') {
+      part.items.forEach(old => lines.push({ type: 'context', old, new: newLines[newIndex++] }));
+    } else if (part.type === 'removed') {
+      const next = parts[i + 1];
+      const added = next?.type === 'added' ? next.items : [];
+      if (added.length > 0) i++;
+      newIndex += added.length;
+      lines.push(...pairChanges(part.items, added));
+    } else {
+      newIndex += part.items.length;
+      lines.push(...pairChanges([], part.items));
+    }
+  }
+
+  return {
+    hunks: groupHunks(lines),
+    addedCount: lines.filter(l => l.type === 'added').length,
+    removedCount: lines.filter(l => l.type === 'removed').length,
+    changedCount: lines.filter(l => l.type === 'changed').length,
+    isTooLarge: false,
+  };
+};
+
+const describeHunk = (hunk: VersionDiffHunk, older: ReferenceSource, newer: ReferenceSource): string => {
+  const firstOld = hunk.lines.find(l => l.type !== 'added') as { old: DocumentLine } | undefined;
+  const firstNew = hunk.lines.find(l => l.type !== 'removed') as { new: DocumentLine } | undefined;
+  const heading = firstNew?.new.heading || firstOld?.old.heading;
+  const header = [
+    firstOld ? `older SOURCE_ID="${older.id}" page=${firstOld.old.page}` : '',
+    firstNew ? `newer SOURCE_ID="${newer.id}" page=${firstNew.new.page}` : '',
+    heading || '',
+  ].filter(Boolean).join(' | ');
+  const body = hunk.lines.flatMap(line => {
+    switch (line.type) {
+      case 'context': return [`  ${line.new.text}`];
+      case 'removed': return [`- ${line.old.text}`];
+      case 'added': return [`+ ${line.new.text}`];
+      case 'changed': return [`- ${line.old.text}`, `+ ${line.new.text}`];
+    }
+  });
+  return [`@@ ${header}`, ...body].join('\n');
+};
+
+/**
+ * Asks the model for the substantive changes, article by article. Only the
+ * diff is sent; very large diffs are cut at MAX_SUMMARY_DIFF_TOKENS.
+ */
+export const summarizeVersionChanges = async (
+  older: ReferenceSource,
+  newer: ReferenceSource,
+  diff: VersionDiff,
+  options: AnswerRequestOptions = {}
+): Promise<VersionChange[]> => {
+  const blocks: string[] = [];
+  let tokens = 0;
+  for (const hunk of diff.hunks) {
+    const block = describeHunk(hunk, older, newer);
+    tokens += estimateTokens(block);
+    if (tokens > MAX_SUMMARY_DIFF_TOKENS) {
+      blocks.push('[Diff truncated: later changes are not included]');
+      break;
+    }
+    blocks.push(block);
+  }
+
+  const changes = await summarizeDocumentChanges(older, newer, blocks.join('\n\n'), options);
+  const versionIds = new Set([older.id, newer.id]);
+  return changes.map(change => {
+    const citations = (change.citations || [])
+      .map(c => formatCitation({
+        id: c.sourceId,
+        page: c.page && c.page > 0 ? c.page : undefined,
+        label: c.reference,
+        unverified: !versionIds.has(c.sourceId),
+      }))
+      .join(' ');
+    return { article: change.article, summary: `${change.summary.trim()}${citations ? ` ${citations}` : ''}` };
+  });
+};
@@ -9,9 +9,18 @@ export enum MessageSender {
   SYSTEM = 'system',
 }
 
+// 'library': a URL source of the knowledge library; 'external': any other page, e.g. a search result
+export type UrlContextOrigin = 'library' | 'external';
+
 export interface UrlContextMetadataItem {
   retrievedUrl: string;
+  // UrlRetrievalStatus from the URL context tool; UNSPECIFIED when the page was never fetched
   urlRetrievalStatus: string;
+  // Missing on answers saved before library reads and search results were told apart
+  origin?: UrlContextOrigin;
+  sourceId?: string;
+  // Page title reported by Google Search
+  title?: string;
 }
 
 export interface FileAttachment {
@@ -22,6 +31,23 @@ export interface FileAttachment {
 
 export type SourceType = 'url' | 'file';
 
+// A passage of extracted document text, stored in IndexedDB for local retrieval.
+export interface DocumentChunk {
+  id: string;
+  sourceId: string;
+  page: number;
+  // Nearest structural heading, e.g. "Article 5" or "Recital 12"
+  heading?: string;
+  text: string;
+}
+
+export interface SourceTextIndex {
+  pageCount: number;
+  chunkCount: number;
+  // Estimated tokens of the full extracted text
+  tokens: number;
+}
+
 export interface ReferenceSource {
   id: string;
   type: SourceType;
@@ -30,18 +56,268 @@ export interface ReferenceSource {
   url?: string;
   // If type === 'file'
   mimeType?: string;
+  sizeBytes?: number;
+  // Present once text has been extracted and chunked; chunkCount 0 means no text layer (e.g. scans)
+  textIndex?: SourceTextIndex;
+  // Whether the source is sent to the model with the next query (defaults to true)
+  includeInContext?: boolean;
+  // Earlier version of the same instrument (e.g. the draft this text amends)
+  previousVersionId?: string;
+  // If type === 'url': the snapshot queries are answered from
+  snapshot?: UrlSnapshotInfo;
   // We do NOT store the big base64 string here in the main state to keep the app responsive.
   // It is stored in IndexedDB.
 }
 
+// Snapshot metadata kept on a URL source; the snapshot text lives in IndexedDB.
+export interface UrlSnapshotInfo {
+  snapshotId: string;
+  // SHA-256 of the extracted text, so markup-only changes do not count
+  contentHash: string;
+  // ISO timestamps (source metadata is persisted as JSON)
+  fetchedAt: string;
+  checkedAt: string;
+  // Newer snapshot with different content, waiting for the user to review it
+  pendingSnapshotId?: string;
+}
+
+// The fetched content of a URL source at one point in time.
+export interface UrlSnapshot {
+  id: string;
+  sourceId: string;
+  url: string;
+  contentType: string;
+  contentHash: string;
+  // Extracted text, one entry per page (web pages have one)
+  pages: string[];
+  fetchedAt: Date;
+}
+
+// Lightweight reference to a source that was supplied to the model for a turn.
+export type SourceReference = Pick<ReferenceSource, 'id' | 'title' | 'type'>;
+
+// A library source switched on for a turn that could not be sent to the model.
+export interface SkippedSource extends SourceReference {
+  reason: string;
+}
+
+// A source as sent to the model: library metadata plus, for files, the loaded data.
+export interface ContextSource extends SourceReference {
+  url?: string;
+  // Either the whole file inline, or the passages retrieved for this query
+  file?: FileAttachment;
+  chunks?: DocumentChunk[];
+}
+
+// 'briefing' answers are validated against the Diplomat's mandated structure
+export type AnswerFormat = 'briefing' | 'freeform';
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  // Role, tone and answer structure; the citation rules are appended by the service
+  instructions: string;
+  answerFormat: AnswerFormat;
+  isBuiltIn?: boolean;
+}
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export type SafetyCategory = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent';
+
+// 'openai' is any OpenAI-compatible chat completions endpoint (e.g. a local Ollama)
+export type ModelProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface GenerationSettings {
+  // Missing on answers saved before other providers existed, which all came from Gemini
+  provider?: ModelProviderId;
+  // A Gemini model id, or the model name the OpenAI-compatible endpoint expects
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  // -1 lets the model decide; 0 turns thinking off (Flash only)
+  thinkingBudget: number;
+  safety: Record<SafetyCategory, SafetyThreshold>;
+  // Lets the model ground answers in Google Search results as well as the library
+  searchGrounding: boolean;
+}
+
+export interface ComparisonJurisdiction {
+  // The URLGroup the jurisdiction's sources came from
+  id: string;
+  name: string;
+}
+
+export interface ComparisonCell {
+  jurisdictionId: string;
+  // Markdown with inline <citation> tags
+  text: string;
+}
+
+export interface ComparisonRow {
+  obligation: string;
+  cells: ComparisonCell[];
+  divergence: string;
+}
+
+export interface ComparisonTable {
+  question: string;
+  jurisdictions: ComparisonJurisdiction[];
+  rows: ComparisonRow[];
+}
+
+export type ObligationActor = 'provider' | 'deployer' | 'importer' | 'distributor' | 'authorised_representative' | 'other';
+
+export type RiskTier = 'prohibited' | 'high' | 'limited' | 'minimal' | 'gpai' | 'gpai_systemic' | 'unspecified';
+
+export type ObligationStatus = 'open' | 'done' | 'not_applicable';
+
+// One obligation extracted from a library document, tracked as a checklist item.
+export interface Obligation {
+  id: string;
+  sourceId: string;
+  actor: ObligationActor;
+  article: string;
+  page?: number;
+  // As stated in the source, e.g. "2 August 2026" or "within 15 days of becoming aware"
+  deadline?: string;
+  riskTier: RiskTier;
+  text: string;
+  status: ObligationStatus;
+  notes: string;
+  extractedAt: Date;
+  updatedAt: Date;
+}
+
+// 'suggested' until a user has confirmed or edited the extracted milestone
+export type MilestoneStatus = 'suggested' | 'confirmed';
+
+// A dated regulatory milestone (application date, deadline...) found in a library document.
+export interface Milestone {
+  id: string;
+  sourceId: string;
+  page?: number;
+  // Calendar date as YYYY-MM-DD, so it is not shifted by time zones
+  date: string;
+  title: string;
+  description: string;
+  article: string;
+  status: MilestoneStatus;
+  extractedAt: Date;
+  updatedAt: Date;
+}
+
+// Structured description of an AI system, as collected by the classification wizard.
+export interface AISystemDescription {
+  name: string;
+  purpose: string;
+  sector: string;
+  users: string;
+  data: string;
+  autonomy: string;
+}
+
+export interface RiskClassificationStep {
+  question: string;
+  // Markdown with inline <citation> tags
+  finding: string;
+}
+
+export interface RiskClassification {
+  tier: RiskTier;
+  // e.g. "Annex III, point 4 (employment)" for high-risk systems
+  category?: string;
+  summary: string;
+  steps: RiskClassificationStep[];
+  // Included library sources the classification could not read
+  skippedSources?: SkippedSource[];
+  evaluatedAt: Date;
+  // Library state the classification was made against; see librarySignature()
+  librarySignature: string;
+  generationSettings?: GenerationSettings;
+}
+
+// A saved AI system description with its latest classification.
+export interface SystemProfile extends AISystemDescription {
+  id: string;
+  classification?: RiskClassification;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What went wrong with a failed model call; decides the advice shown and whether it is retried automatically
+export type ModelErrorKind = 'auth' | 'rate-limit' | 'payload-too-large' | 'safety' | 'network' | 'timeout' | 'unavailable' | 'unknown';
+
+// Why an answer ended early; absent when the model finished normally
+export interface AnswerCompletion {
+  // Gemini finish reason (e.g. MAX_TOKENS, SAFETY, RECITATION); other providers are mapped onto these names
+  finishReason?: string;
+  // Set when the inquiry itself was blocked, so nothing was generated
+  blockReason?: string;
+  // Harm categories (e.g. HARM_CATEGORY_HATE_SPEECH) the safety filters blocked on or rated as likely
+  flaggedCategories?: string[];
+}
+
+// Tokens billed for one or more model calls, as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  // Gemini thinking tokens; billed as output but not part of the answer
+  thinkingTokens: number;
+}
+
+// One model call in the usage ledger. Calls are attributed to the session and
+// library group that were open when they were made.
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  timestamp: Date;
+  sessionId: string;
+  groupId: string;
+  provider: ModelProviderId;
+  model: string;
+}
+
+// Where a model call's tokens are charged, fixed when the call is made
+export type UsageAttribution = Pick<UsageRecord, 'sessionId' | 'groupId'>;
+
 export interface ChatMessage {
   id: string;
   text: string;
   sender: MessageSender;
   timestamp: Date;
   isLoading?: boolean;
+  isError?: boolean;
+  // Missing on errors saved before errors were classified
+  errorKind?: ModelErrorKind;
+  isStreaming?: boolean;
+  // Set when the user stopped generation; text holds the partial answer
+  isTruncated?: boolean;
+  // Ways the final answer still deviates from the mandated briefing format
+  formatViolations?: string[];
+  completion?: AnswerCompletion;
+  // Tokens for every call behind this answer, including format repairs and continuations
+  usage?: TokenUsage;
   urlContext?: UrlContextMetadataItem[];
   attachments?: FileAttachment[];
+  contextSources?: SourceReference[];
+  // Included library sources left out of this turn, so the answer did not consult them
+  skippedSources?: SkippedSource[];
+  // Persona that produced (or, for questions, was asked) this turn
+  personaId?: string;
+  // Model settings that produced this answer
+  generationSettings?: GenerationSettings;
+  // Set for answers produced in comparison mode; text then holds the same table as markdown
+  comparison?: ComparisonTable;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  groupId: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface URLGroup {
@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { marked } from 'marked';
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, FootnoteReferenceRun } from 'docx';
+import { ChatMessage, MessageSender, ReferenceSource, SourceReference } from '../types';
+import { replaceCitations, Citation } from './citations';
+import { findDocumentLoader } from './documentLoaders';
+import { BRIEFING_CLOSING_LINE } from './briefingFormat';
+import { downloadBlob, toFileSlug } from './download';
+
+export type ExportFormat = 'markdown' | 'docx' | 'pdf';
+
+export interface MemoEntry {
+  question: string;
+  askedAt: Date;
+  // Answer markdown with citations replaced by footnote markers ([^n])
+  answer: string;
+}
+
+export interface MemoFootnote {
+  number: number;
+  text: string;
+}
+
+export interface BriefingMemo {
+  title: string;
+  groupName: string;
+  createdAt: Date;
+  entries: MemoEntry[];
+  footnotes: MemoFootnote[];
+  appendix: ReferenceSource[];
+}
+
+const FOOTNOTE_MARKER_REGEX = /\[\^(\d+)\]/g;
+
+// "[EU AI Act.pdf]: Article 5.1" -> "Article 5.1"
+const citationLocator = (citation: Citation): string => citation.label.replace(/^\[[^\]]*\]:\s*/, '').trim();
+
+const describeFootnote = (citation: Citation, source?: SourceReference): string => {
+  if (!source || citation.unverified) {
+    return `Unverified citation: ${citation.label || citation.id}`;
+  }
+  const page = citation.page ? `, p. ${citation.page}` : '';
+  const locator = citationLocator(citation);
+  return `${source.title}${page}${locator ? ` — ${locator}` : ''}`;
+};
+
+/**
+ * Pairs each selected answer with the question that prompted it and turns
+ * citations into numbered footnotes shared across the memo.
+ */
+export const buildBriefingMemo = (
+  messages: ChatMessage[],
+  answerIds: string[] | null,
+  sources: ReferenceSource[],
+  options: { title: string; groupName: string }
+): BriefingMemo => {
+  const footnotes: MemoFootnote[] = [];
+  const footnoteNumbers = new Map<string, number>();
+  const entries: MemoEntry[] = [];
+
+  messages.forEach((message, index) => {
+    const isAnswer = message.sender === MessageSender.MODEL && !message.isLoading && !message.isError && message.text.trim();
+    if (!isAnswer || (answerIds && !answerIds.includes(message.id))) return;
+
+    const question = messages.slice(0, index).reverse().find(m => m.sender === MessageSender.USER);
+    const turnSources = message.contextSources || [];
+
+    const answer = replaceCitations(message.text, citation => {
+      const source = sources.find(s => s.id === citation.id) || turnSources.find(s => s.id === citation.id);
+      const text = describeFootnote(citation, source);
+      let number = footnoteNumbers.get(text);
+      if (!number) {
+        number = footnotes.length + 1;
+        footnoteNumbers.set(text, number);
+        footnotes.push({ number, text });
+      }
+      return `[^${number}]`;
+    })
+      // Markers attach to the preceding word, as footnotes do in print
+      .replace(/[ \t]+(\[\^\d+\])/g, '$1')
+      .split('\n')
+      .filter(line => line.trim() !== BRIEFING_CLOSING_LINE)
+      .join('\n')
+      .trim();
+
+    entries.push({
+      question: question?.text || '(No question recorded)',
+      askedAt: question?.timestamp || message.timestamp,
+      answer,
+    });
+  });
+
+  return {
+    title: options.title,
+    groupName: options.groupName,
+    createdAt: new Date(),
+    entries,
+    footnotes,
+    appendix: sources,
+  };
+};
+
+const describeAppendixSource = (source: ReferenceSource): string => {
+  if (source.type === 'url') return `${source.title} — ${source.url}`;
+  const label = findDocumentLoader({ name: source.title, mimeType: source.mimeType })?.label || 'Document';
+  const pages = source.textIndex?.pageCount && source.textIndex.pageCount > 1 ? `, ${source.textIndex.pageCount} pages` : '';
+  return `${source.title} (${label}${pages})`;
+};
+
+const formatDate = (date: Date): string =>
+  date.toLocaleDateString([], { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const memoToMarkdown = (memo: BriefingMemo): string => {
+  const lines: string[] = [
+    `# ${memo.title}`,
+    '',
+    `*Briefing memo · ${memo.groupName} · ${formatDate(memo.createdAt)}*`,
+    '',
+  ];
+
+  memo.entries.forEach(entry => {
+    lines.push('---', '', `**Question:** ${entry.question}`, '', entry.answer, '');
+  });
+
+  if (memo.footnotes.length > 0) {
+    lines.push('---', '', ...memo.footnotes.map(f => `[^${f.number}]: ${f.text}`), '');
+  }
+
+  lines.push('## Source Appendix', '');
+  if (memo.appendix.length === 0) {
+    lines.push('_No sources in the active group._');
+  } else {
+    memo.appendix.forEach((source, idx) => lines.push(`${idx + 1}. ${describeAppendixSource(source)}`));
+  }
+
+  return `${lines.join('\n').trim()}\n`;
+};
+
+// Splits a markdown line into text, bold and footnote runs.
+const toDocxRuns = (text: string): (TextRun | FootnoteReferenceRun)[] => {
+  const runs: (TextRun | FootnoteReferenceRun)[] = [];
+  text.split(/(\*\*[^*]+\*\*|\[\^\d+\])/g).forEach(token => {
+    if (!token) return;
+    const footnote = token.match(/^\[\^(\d+)\]$/);
+    if (footnote) {
+      runs.push(new FootnoteReferenceRun(parseInt(footnote[1], 10)));
+    } else if (token.startsWith('**') && token.endsWith('**')) {
+      runs.push(new TextRun({ text: token.slice(2, -2), bold: true }));
+    } else {
+      runs.push(new TextRun(token.replace(/(^|\s)[*_]([^*_]+)[*_]/g, '$1$2')));
+    }
+  });
+  return runs;
+};
+
+const markdownToDocxParagraphs = (markdown: string): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  markdown.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed === '---') return;
+    if (trimmed.startsWith('### ')) {
+      paragraphs.push(new Paragraph({ heading: HeadingLevel.HEADING_3, children: toDocxRuns(trimmed.slice(4)) }));
+    } else if (trimmed.startsWith('## ')) {
+      paragraphs.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: toDocxRuns(trimmed.slice(3)) }));
+    } else if (trimmed.startsWith('# ')) {
+      paragraphs.push(new Paragraph({ heading: HeadingLevel.HEADING_1, children: toDocxRuns(trimmed.slice(2)) }));
+    } else if (/^[-*]\s+/.test(trimmed)) {
+      paragraphs.push(new Paragraph({ bullet: { level: 0 }, children: toDocxRuns(trimmed.replace(/^[-*]\s+/, '')) }));
+    } else {
+      paragraphs.push(new Paragraph({ children: toDocxRuns(trimmed) }));
+    }
+  });
+  return paragraphs;
+};
+
+export const memoToDocx = (memo: BriefingMemo): Promise<Blob> => {
+  const children: Paragraph[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(memo.title)] }),
+    new Paragraph({ children: [new TextRun({ text: `Briefing memo · ${memo.groupName} · ${formatDate(memo.createdAt)}`, italics: true })] }),
+  ];
+
+  memo.entries.forEach(entry => {
+    children.push(new Paragraph({ spacing: { before: 400 }, children: [new TextRun({ text: 'Question: ', bold: true }), new TextRun(entry.question)] }));
+    children.push(...markdownToDocxParagraphs(entry.answer));
+  });
+
+  children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun('Source Appendix')] }));
+  memo.appendix.forEach((source, idx) => {
+    children.push(new Paragraph({ children: [new TextRun(`${idx + 1}. ${describeAppendixSource(source)}`)] }));
+  });
+
+  const footnotes = Object.fromEntries(memo.footnotes.map(f => [
+    f.number,
+    { children: [new Paragraph(f.text)] },
+  ]));
+
+  const doc = new Document({
+    title: memo.title,
+    creator: 'AI Regulatory Navigator',
+    footnotes,
+    sections: [{ children }],
+  });
+  return Packer.toBlob(doc);
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const memoToPrintHtml = (memo: BriefingMemo): string => {
+  const renderMarkdown = (markdown: string) =>
+    (marked.parse(markdown.replace(FOOTNOTE_MARKER_REGEX, '<sup class="fn">$1</sup>')) as string);
+
+  const entries = memo.entries.map(entry => `
+    <section class="entry">
+      <p class="question"><strong>Question:</strong> ${escapeHtml(entry.question)}</p>
+      ${renderMarkdown(entry.answer)}
+    </section>`).join('');
+
+  const notes = memo.footnotes.length > 0
+    ? `<section class="notes"><h2>Notes</h2><ol>${memo.footnotes.map(f => `<li>${escapeHtml(f.text)}</li>`).join('')}</ol></section>`
+    : '';
+
+  const appendix = memo.appendix.length > 0
+    ? `<ol>${memo.appendix.map(s => `<li>${escapeHtml(describeAppendixSource(s))}</li>`).join('')}</ol>`
+    : '<p><em>No sources in the active group.</em></p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(memo.title)}</title>
+<style>
+  @page { margin: 2.2cm; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1f2937; line-height: 1.55; max-width: 48rem; margin: 0 auto; }
+  h1 { color: #4c0c0a; font-size: 1.8em; margin-bottom: 0.2em; }
+  h2 { color: #4c0c0a; font-size: 1.3em; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.2em; }
+  h3 { font-size: 0.85em; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; }
+  .meta { color: #6b7280; font-style: italic; margin-top: 0; }
+  .entry { border-top: 1px solid #d1d5db; margin-top: 1.5em; page-break-inside: avoid; }
+  .question { background: #f9fafb; padding: 0.6em 0.8em; border-left: 3px solid #4c0c0a; }
+  sup.fn { color: #4c0c0a; font-size: 0.7em; }
+  .notes, .appendix { font-size: 0.9em; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(memo.title)}</h1>
+  <p class="meta">Briefing memo · ${escapeHtml(memo.groupName)} · ${formatDate(memo.createdAt)}</p>
+  ${entries}
+  ${notes}
+  <section class="appendix"><h2>Source Appendix</h2>${appendix}</section>
+</body>
+</html>`;
+};
+
+/**
+ * Produces the memo in the requested format. PDF goes through the browser's
+ * print dialog ("Save as PDF") so typography matches the print stylesheet.
+ */
+export const exportBriefingMemo = async (memo: BriefingMemo, format: ExportFormat): Promise<void> => {
+  const fileName = `${toFileSlug(memo.title)}-${memo.createdAt.toISOString().slice(0, 10)}`;
+
+  if (format === 'markdown') {
+    downloadBlob(new Blob([memoToMarkdown(memo)], { type: 'text/markdown;charset=utf-8' }), `${fileName}.md`);
+    return;
+  }
+
+  if (format === 'docx') {
+    downloadBlob(await memoToDocx(memo), `${fileName}.docx`);
+    return;
+  }
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print window was blocked. Please allow pop-ups to export a PDF.');
+  }
+  printWindow.document.open();
+  printWindow.document.write(memoToPrintHtml(memo));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BRIEFING_CLOSING_LINE, parseBriefingAnswer } from './briefingFormat';
+
+const CITATION = '<citation id="eu-ai-act" page="12">[EU AI Act.pdf]: Article 5.1</citation>';
+
+const briefing = ({
+  preamble = [] as string[],
+  review = [`Article 5 bans social scoring by public authorities. ${CITATION} It applies from 2 February 2025.`],
+  details = [`- Social scoring is prohibited. ${CITATION}`, '- Fines reach 35 million EUR or 7% of turnover.'],
+  closing = [BRIEFING_CLOSING_LINE],
+} = {}) => [
+  ...preamble,
+  '## Prohibited AI practices',
+  '### Short Review',
+  ...review,
+  '### Key Details',
+  ...details,
+  '',
+  ...closing,
+].join('\n');
+
+describe('parseBriefingAnswer', () => {
+  it('accepts a briefing in the mandated format', () => {
+    const { answer, violations } = parseBriefingAnswer(briefing());
+
+    expect(violations).toEqual([]);
+    expect(answer?.title).toBe('Prohibited AI practices');
+    expect(answer?.review.citations.map(c => c.page)).toEqual([12]);
+    expect(answer?.details).toHaveLength(2);
+    expect(answer?.closing).toBe(BRIEFING_CLOSING_LINE);
+  });
+
+  it('counts review sentences without citation labels or article numbers', () => {
+    const { violations } = parseBriefingAnswer(briefing({
+      review: [`Article 5.1 bans social scoring. ${CITATION} It applies from 2025. Fines are high.`],
+    }));
+
+    expect(violations).toEqual(['Shorten the Short Review to at most 2 sentences (it has 3).']);
+  });
+
+  it('flags more than four key details', () => {
+    const { violations } = parseBriefingAnswer(briefing({ details: ['- One.', '- Two.', '- Three.', '- Four.', '- Five.'] }));
+
+    expect(violations).toEqual(['Reduce Key Details to at most 4 bullet points (it has 5).']);
+  });
+
+  it('flags bullets that are not hyphens but still parses them', () => {
+    const { answer, violations } = parseBriefingAnswer(briefing({ details: ['* Social scoring is prohibited.', '1. Fines are high.'] }));
+
+    expect(violations).toEqual(['Use hyphens (-) for every Key Details bullet, not numbers or asterisks.']);
+    expect(answer?.details.map(d => d.text)).toEqual(['Social scoring is prohibited.', 'Fines are high.']);
+  });
+
+  it('flags text before the title', () => {
+    const { violations } = parseBriefingAnswer(briefing({ preamble: ['Certainly! Here is your briefing:'] }));
+
+    expect(violations).toEqual(['Begin the answer with the "## " title; remove the text before it.']);
+  });
+
+  it('flags a missing closing line, and one that is not the last line', () => {
+    expect(parseBriefingAnswer(briefing({ closing: [] })).violations).toEqual([
+      `End the answer with the exact closing line: "${BRIEFING_CLOSING_LINE}"`,
+    ]);
+    expect(parseBriefingAnswer(briefing({ closing: [BRIEFING_CLOSING_LINE, 'Best regards.'] })).violations).toContain(
+      `End the answer with the exact closing line: "${BRIEFING_CLOSING_LINE}"`
+    );
+  });
+
+  // The repair keeps the rewrite only when it has fewer violations, so each deviation must count
+  it('lists every deviation, and no answer without the mandatory sections', () => {
+    const { answer, violations } = parseBriefingAnswer('Social scoring is banned under Article 5.');
+
+    expect(answer).toBeNull();
+    expect(violations).toHaveLength(5);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Citation, extractCitations, replaceCitations } from './citations';
+
+export const BRIEFING_CLOSING_LINE = 'Would you like me to elaborate on any of these points?';
+
+const MAX_REVIEW_SENTENCES = 2;
+const MAX_DETAIL_BULLETS = 4;
+
+// A piece of answer markdown together with the citations it contains.
+export interface BriefingSection {
+  // Markdown, citation tags included, so it renders with the usual chips
+  text: string;
+  citations: Citation[];
+}
+
+export interface BriefingAnswer {
+  title: string;
+  review: BriefingSection;
+  details: BriefingSection[];
+  closing?: string;
+}
+
+export interface BriefingParseResult {
+  // null when the answer lacks the title or one of the two mandatory sections
+  answer: BriefingAnswer | null;
+  violations: string[];
+}
+
+const toSection = (text: string): BriefingSection => ({
+  text: text.trim(),
+  citations: extractCitations(text),
+});
+
+const normaliseHeading = (heading: string): string =>
+  heading.replace(/[*_:]/g, '').trim().toLowerCase();
+
+// Counts sentence ends, ignoring citation labels and decimals like "Article 5.1".
+const countSentences = (text: string): number => {
+  const plain = replaceCitations(text, () => '').replace(/\s+/g, ' ').trim();
+  if (!plain) return 0;
+  const ends = plain.match(/[.!?]+(?=\s+["'(]?[A-Z]|\s*$)/g);
+  return Math.max(ends ? ends.length : 0, 1);
+};
+
+/**
+ * Parses a model answer into the briefing shape mandated by the system
+ * prompt and lists every way it deviates from that shape. Violations are
+ * phrased so they can be sent back to the model verbatim.
+ */
+export const parseBriefingAnswer = (text: string): BriefingParseResult => {
+  const violations: string[] = [];
+  const lines = text.replace(/\r\n/g, '\n').trim().split('\n');
+
+  let title: string | undefined;
+  let current: 'preamble' | 'title' | 'review' | 'details' | 'other' = 'preamble';
+  const preamble: string[] = [];
+  const reviewLines: string[] = [];
+  const detailBullets: string[] = [];
+  const detailProse: string[] = [];
+  let hasReview = false;
+  let hasDetails = false;
+  let nonHyphenBullets = 0;
+  let closing: string | undefined;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (trimmed === BRIEFING_CLOSING_LINE) {
+      closing = trimmed;
+      continue;
+    }
+    if (closing && trimmed) {
+      // Anything after the closing line means it was not the last line
+      closing = undefined;
+    }
+
+    const h2 = trimmed.match(/^##\s+(.+)$/);
+    const h3 = trimmed.match(/^###\s+(.+)$/);
+    if (h2 && !h3) {
+      if (title === undefined) {
+        title = h2[1].trim();
+        current = 'title';
+      } else {
+        violations.push(`Use a single H2 title; found an additional "## ${h2[1].trim()}" heading.`);
+        current = 'other';
+      }
+      continue;
+    }
+    if (h3) {
+      const heading = normaliseHeading(h3[1]);
+      if (heading === 'short review') {
+        hasReview = true;
+        current = 'review';
+      } else if (heading === 'key details') {
+        hasDetails = true;
+        current = 'details';
+      } else {
+        violations.push(`Remove the extra "### ${h3[1].trim()}" section; only "Short Review" and "Key Details" are allowed.`);
+        current = 'other';
+      }
+      continue;
+    }
+
+    if (!trimmed) continue;
+
+    switch (current) {
+      case 'preamble':
+        preamble.push(trimmed);
+        break;
+      case 'title':
+        violations.push('Start the "### Short Review" section directly after the title.');
+        current = 'other';
+        break;
+      case 'review':
+        reviewLines.push(trimmed);
+        break;
+      case 'details': {
+        const bullet = trimmed.match(/^([-*+]|\d+[.)])\s+(.*)$/);
+        if (bullet) {
+          if (bullet[1] !== '-') nonHyphenBullets++;
+          detailBullets.push(bullet[2]);
+        } else if (/^\s/.test(line) && detailBullets.length > 0) {
+          // Indented continuation of the previous bullet
+          detailBullets[detailBullets.length - 1] += ` ${trimmed}`;
+        } else {
+          detailProse.push(trimmed);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  if (preamble.length > 0) {
+    violations.push('Begin the answer with the "## " title; remove the text before it.');
+  }
+  if (title === undefined) {
+    violations.push('Add a descriptive "## " (Heading 2) title as the first line.');
+  }
+  if (!hasReview) {
+    violations.push('Add a "### Short Review" section.');
+  } else {
+    const sentences = countSentences(reviewLines.join(' '));
+    if (sentences === 0) {
+      violations.push('The "### Short Review" section is empty.');
+    } else if (sentences > MAX_REVIEW_SENTENCES) {
+      violations.push(`Shorten the Short Review to at most ${MAX_REVIEW_SENTENCES} sentences (it has ${sentences}).`);
+    }
+  }
+  if (!hasDetails) {
+    violations.push('Add a "### Key Details" section with a hyphen bullet list.');
+  } else {
+    if (detailBullets.length === 0) {
+      violations.push('List the Key Details as hyphen (-) bullet points.');
+    } else if (detailBullets.length > MAX_DETAIL_BULLETS) {
+      violations.push(`Reduce Key Details to at most ${MAX_DETAIL_BULLETS} bullet points (it has ${detailBullets.length}).`);
+    }
+    if (nonHyphenBullets > 0) {
+      violations.push('Use hyphens (-) for every Key Details bullet, not numbers or asterisks.');
+    }
+    if (detailProse.length > 0) {
+      violations.push('Key Details must contain only the bullet list, without paragraphs.');
+    }
+  }
+  if (!closing) {
+    violations.push(`End the answer with the exact closing line: "${BRIEFING_CLOSING_LINE}"`);
+  }
+
+  const answer = title !== undefined && hasReview && hasDetails
+    ? {
+        title,
+        review: toSection(reviewLines.join(' ')),
+        details: detailBullets.map(toSection),
+        closing,
+      }
+    : null;
+
+  return { answer, violations };
+};
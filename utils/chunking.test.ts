@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { chunkDocument } from './chunking';
+
+describe('chunkDocument', () => {
+  it('starts a new chunk at each article and keeps its heading', () => {
+    const chunks = chunkDocument('act', [
+      'Article 5\nProhibited AI practices are listed here.\nArticle 6\nClassification rules for high-risk systems.',
+    ]);
+
+    expect(chunks.map(c => c.heading)).toEqual(['Article 5', 'Article 6']);
+    expect(chunks[1].text).toContain('Classification rules');
+    expect(chunks.every(c => c.sourceId === 'act' && c.page === 1)).toBe(true);
+  });
+
+  it('never spans pages and carries the heading onto the next page', () => {
+    const chunks = chunkDocument('act', ['Article 9\nRisk management system.', 'The system shall be documented.']);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1]).toMatchObject({ page: 2, heading: 'Article 9' });
+  });
+
+  it('labels recitals only before the first article', () => {
+    const chunks = chunkDocument('act', ['(1) The purpose of this Regulation.\nArticle 1\n(1) This list item is not a recital.']);
+
+    expect(chunks.map(c => c.heading)).toEqual(['Recital 1', 'Article 1']);
+  });
+
+  it('splits over-long passages at sentence boundaries', () => {
+    const sentence = 'Providers shall keep the technical documentation up to date for ten years. ';
+    const chunks = chunkDocument('act', [`Article 18\n${sentence.repeat(60)}`]);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.text.length <= 2000)).toBe(true);
+    expect(chunks.every(c => c.heading === 'Article 18')).toBe(true);
+  });
+});
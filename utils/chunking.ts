@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DocumentChunk } from '../types';
+
+const TARGET_CHUNK_CHARS = 1200;
+const MAX_CHUNK_CHARS = 2000;
+
+// Structural markers found at the start of a line in EU and US legislative texts
+// (optionally behind Markdown heading hashes).
+const SECTION_HEADING_REGEX = /^(?:#{1,6}\s*)?(Article\s+\d+[a-z]?|ANNEX\s+[IVXLC]+|Annex\s+[IVXLC]+|CHAPTER\s+[IVXLC]+|Chapter\s+[IVXLC]+|TITLE\s+[IVXLC]+|SECTION\s+\d+|Section\s+\d+(?:\.\d+)*|SEC(?:TION)?\.\s*\d+(?:\.\d+)*|§\s*\d+(?:\.\d+)*)\b/;
+// EU recitals are numbered "(1)", "(2)", ... before the enacting terms begin.
+const RECITAL_REGEX = /^\((\d{1,3})\)\s/;
+
+interface Segment {
+  heading?: string;
+  text: string;
+}
+
+const detectHeading = (line: string, inRecitals: boolean): string | undefined => {
+  const section = line.match(SECTION_HEADING_REGEX);
+  if (section) return section[1].replace(/\s+/g, ' ');
+  if (inRecitals) {
+    const recital = line.match(RECITAL_REGEX);
+    if (recital) return `Recital ${recital[1]}`;
+  }
+  return undefined;
+};
+
+// Splits an over-long segment at paragraph, then sentence boundaries.
+const splitLongText = (text: string): string[] => {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+  const pieces: string[] = [];
+  let current = '';
+  const units = text.split(/(?<=[.;:])\s+|\n{2,}/);
+  for (const unit of units) {
+    if (current && current.length + unit.length + 1 > TARGET_CHUNK_CHARS) {
+      pieces.push(current);
+      current = '';
+    }
+    // A single unbroken run longer than the maximum is cut hard.
+    for (let i = 0; i < unit.length; i += MAX_CHUNK_CHARS) {
+      const slice = unit.slice(i, i + MAX_CHUNK_CHARS);
+      current = current ? `${current} ${slice}` : slice;
+      if (current.length >= MAX_CHUNK_CHARS) {
+        pieces.push(current);
+        current = '';
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Splits per-page text into retrieval chunks. Chunks never span pages, so the
+ * page number used in citations is exact. A new article, annex, section or
+ * recital always starts a new chunk and carries its heading onto following
+ * pages; over-long passages are split at paragraph and sentence boundaries.
+ */
+export const chunkDocument = (sourceId: string, pages: string[]): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let currentHeading: string | undefined;
+  // Recitals precede the first article; after that "(1)" is just list numbering.
+  let inRecitals = true;
+
+  pages.forEach((pageText, pageIndex) => {
+    const page = pageIndex + 1;
+    const segments: Segment[] = [{ heading: currentHeading, text: '' }];
+
+    pageText.split('\n').forEach(rawLine => {
+      const line = rawLine.trim();
+      if (!line) {
+        segments[segments.length - 1].text += '\n';
+        return;
+      }
+      const heading = detectHeading(line, inRecitals);
+      if (heading) {
+        if (heading.startsWith('Article')) inRecitals = false;
+        currentHeading = heading;
+        segments.push({ heading, text: line });
+      } else {
+        const segment = segments[segments.length - 1];
+        segment.text = segment.text ? `${segment.text}\n${line}` : line;
+      }
+    });
+
+    segments.forEach(segment => {
+      splitLongText(segment.text.replace(/\n{3,}/g, '\n\n').trim()).forEach(text => {
+        if (!text) return;
+        chunks.push({
+          id: `${sourceId}#p${page}-${chunks.length}`,
+          sourceId,
+          page,
+          heading: segment.heading,
+          text,
+        });
+      });
+    });
+  });
+
+  return chunks;
+};
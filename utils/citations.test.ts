@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ReferenceSource } from '../types';
+import { extractCitations, renderCitationChips, validateCitations } from './citations';
+
+const LIBRARY: ReferenceSource[] = [{ id: 'eu-ai-act', type: 'file', title: 'EU AI Act.pdf' }];
+
+describe('validateCitations', () => {
+  it('marks citations to ids that were not supplied as unverified', () => {
+    const text = 'Banned. <citation id="eu-ai-act" page="3">[EU AI Act.pdf]: Article 5</citation> '
+      + 'Also banned. <citation id="made-up" page="9">[Other.pdf]: Article 1</citation>';
+
+    const result = validateCitations(text, ['eu-ai-act']);
+
+    expect(result.unverifiedIds).toEqual(['made-up']);
+    expect(extractCitations(result.text).map(c => [c.id, c.page, c.unverified])).toEqual([
+      ['eu-ai-act', 3, false],
+      ['made-up', 9, true],
+    ]);
+  });
+
+  it('accepts attachment ids only for the turn they were sent with', () => {
+    const text = '<citation id="attachment-1700000000000-0">[memo.pdf]: Page 1</citation>';
+
+    expect(validateCitations(text, ['eu-ai-act', 'attachment-1700000000000-0']).unverifiedIds).toEqual([]);
+    expect(validateCitations(text, ['eu-ai-act', 'attachment-1700000009999-0']).unverifiedIds).toEqual(['attachment-1700000000000-0']);
+  });
+});
+
+describe('renderCitationChips', () => {
+  it('links library citations and keeps attachments and unverified ids as plain chips', () => {
+    const html = renderCitationChips(
+      '<citation id="eu-ai-act" page="3">EU AI Act: Art. 5</citation> '
+        + '<citation id="attachment-1-0">memo.pdf</citation> '
+        + '<citation id="eu-ai-act" unverified="true">EU AI Act</citation>',
+      LIBRARY,
+      [{ id: 'attachment-1-0', type: 'file', title: 'memo.pdf' }]
+    );
+
+    expect(html).toContain('data-citation-id="eu-ai-act" data-citation-page="3"');
+    expect(html).toContain('citation-chip--static');
+    expect(html).toContain('citation-chip--unverified');
+  });
+
+  it('escapes ids, titles and labels', () => {
+    const html = renderCitationChips(
+      '<citation id="x&quot; onclick=&quot;alert(1)">[a & b] "quoted"</citation> '
+        + '<citation id="eu-ai-act">[Title] \'Art. 5\'</citation>',
+      [{ ...LIBRARY[0], title: 'EU "AI" Act <draft>' }]
+    );
+
+    expect(html).not.toMatch(/onclick="/);
+    expect(html).toContain('[a &amp; b] &quot;quoted&quot;');
+    expect(html).toContain('title="Open EU &quot;AI&quot; Act &lt;draft&gt;"');
+    expect(html).toContain('[Title] &#39;Art. 5&#39;');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ReferenceSource, SourceReference } from '../types';
+
+export interface Citation {
+  id: string;
+  page?: number;
+  label: string;
+  unverified: boolean;
+}
+
+export interface CitationValidationResult {
+  text: string;
+  unverifiedIds: string[];
+}
+
+// Matches the tag mandated by the system prompt:
+// <citation id="SOURCE_ID" page="N">[Title]: Article X</citation>
+const CITATION_REGEX = /<citation\b([^>]*)>([\s\S]*?)<\/citation>/gi;
+
+const readAttribute = (attributes: string, name: string): string | undefined => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const toCitation = (attributes: string, body: string): Citation => {
+  const pageValue = readAttribute(attributes, 'page');
+  const page = pageValue ? parseInt(pageValue, 10) : NaN;
+  return {
+    id: readAttribute(attributes, 'id') || '',
+    page: Number.isFinite(page) && page > 0 ? page : undefined,
+    label: body.trim(),
+    unverified: readAttribute(attributes, 'unverified') === 'true',
+  };
+};
+
+export const extractCitations = (text: string): Citation[] => {
+  const citations: Citation[] = [];
+  for (const match of text.matchAll(CITATION_REGEX)) {
+    citations.push(toCitation(match[1], match[2]));
+  }
+  return citations;
+};
+
+/**
+ * Replaces every citation tag with whatever the callback returns for it.
+ */
+export const replaceCitations = (text: string, replacer: (citation: Citation) => string): string =>
+  text.replace(CITATION_REGEX, (_, attributes: string, body: string) => replacer(toCitation(attributes, body)));
+
+/**
+ * Serialises a citation back into the tag format the rest of the app parses.
+ */
+export const formatCitation = (citation: Omit<Citation, 'unverified'> & { unverified?: boolean }): string => {
+  const pageAttribute = citation.page ? ` page="${citation.page}"` : '';
+  const unverifiedAttribute = citation.unverified ? ' unverified="true"' : '';
+  return `<citation id="${escapeHtml(citation.id)}"${pageAttribute}${unverifiedAttribute}>${citation.label.replace(/[<>]/g, '')}</citation>`;
+};
+
+/**
+ * Marks every citation whose id was not supplied in the turn's context with
+ * unverified="true", so the renderer can flag it instead of trusting it.
+ */
+export const validateCitations = (text: string, allowedIds: string[]): CitationValidationResult => {
+  const allowed = new Set(allowedIds);
+  const unverifiedIds: string[] = [];
+
+  const validated = text.replace(CITATION_REGEX, (tag: string, attributes: string, body: string) => {
+    const citation = toCitation(attributes, body);
+    if (allowed.has(citation.id)) return tag;
+    unverifiedIds.push(citation.id);
+    const pageAttribute = citation.page ? ` page="${citation.page}"` : '';
+    return `<citation id="${escapeHtml(citation.id)}"${pageAttribute} unverified="true">${body}</citation>`;
+  });
+
+  return { text: validated, unverifiedIds: Array.from(new Set(unverifiedIds)) };
+};
+
+/**
+ * Replaces every <citation> tag with chip markup that survives marked.parse.
+ * Chips carry their id/page as data attributes so the rendering component can
+ * handle clicks through event delegation.
+ */
+export const renderCitationChips = (
+  text: string,
+  sources: ReferenceSource[],
+  turnSources: SourceReference[] = []
+): string => {
+  return text.replace(CITATION_REGEX, (_, attributes: string, body: string) => {
+    const citation = toCitation(attributes, body);
+    const source = citation.unverified ? undefined : sources.find(s => s.id === citation.id);
+    const turnSource = citation.unverified ? undefined : turnSources.find(s => s.id === citation.id);
+    const label = citation.label || source?.title || turnSource?.title || citation.id || 'Source';
+    const pageLabel = citation.page ? ` · p. ${citation.page}` : '';
+
+    // Grounded in a one-off chat attachment that is not stored in the library.
+    if (!source && turnSource) {
+      return `<span class="citation-chip citation-chip--static" title="${escapeHtml(turnSource.title)}${pageLabel}">${escapeHtml(label)}${pageLabel}</span>`;
+    }
+
+    if (!source) {
+      return `<span class="citation-chip citation-chip--unverified" title="Unverified citation: source id &quot;${escapeHtml(citation.id)}&quot; could not be matched to a supplied source">${escapeHtml(label)}${pageLabel} <em>(unverified citation)</em></span>`;
+    }
+
+    return `<button type="button" class="citation-chip" data-citation-id="${escapeHtml(source.id)}" data-citation-page="${citation.page ?? ''}" title="Open ${escapeHtml(source.title)}${pageLabel}">${escapeHtml(label)}${pageLabel}</button>`;
+  });
+};
+
+/**
+ * Drops a trailing citation tag that has not been closed yet, so partially
+ * streamed answers do not leak half-written markup into the rendered message.
+ */
+export const stripIncompleteCitation = (text: string): string =>
+  text.replace(/<citation\b(?![\s\S]*<\/citation>)[\s\S]*$/i, '').replace(/<c[a-z]*$/i, '');
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ReferenceSource, ContextSource } from '../types';
+
+// Gemini bills each PDF page as a fixed number of tokens.
+const TOKENS_PER_PDF_PAGE = 258;
+// Typical size of a text-heavy regulatory PDF page, used to guess page counts.
+const AVERAGE_PDF_PAGE_BYTES = 75_000;
+
+// Upper bound for retrieved passages sent with a single query.
+export const RETRIEVAL_TOKEN_BUDGET = 12000;
+
+// Rough heuristic (~4 characters per token) that is good enough for budgeting.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Sources are included unless explicitly switched off; older saved sources have no flag.
+export const isSourceIncluded = (source: ReferenceSource): boolean => source.includeInContext !== false;
+
+export const base64ByteLength = (base64: string): number => Math.floor((base64.length * 3) / 4);
+
+export const isRetrievable = (source: ReferenceSource): boolean => !!source.textIndex && source.textIndex.chunkCount > 0;
+
+const estimateFileTokens = (mimeType: string | undefined, sizeBytes: number): number => {
+  if (mimeType === 'application/pdf') {
+    return Math.max(1, Math.ceil(sizeBytes / AVERAGE_PDF_PAGE_BYTES)) * TOKENS_PER_PDF_PAGE;
+  }
+  return Math.ceil(sizeBytes / 4);
+};
+
+/**
+ * Approximate tokens a source adds to a request. URL sources without a snapshot
+ * are fetched by the model's tools, so their content is not counted here. Indexed
+ * documents and snapshots report their full text size; only the retrieval budget
+ * of it is sent per query.
+ */
+export const estimateSourceTokens = (source: ReferenceSource): number => {
+  if (isRetrievable(source)) return source.textIndex!.tokens;
+  if (source.type !== 'file' || !source.sizeBytes) return 0;
+  return estimateFileTokens(source.mimeType, source.sizeBytes);
+};
+
+// Approximate tokens a source adds to one query, as gathered for it: retrieved passages or the inline file
+export const estimateContextSourceTokens = (source: ContextSource): number => {
+  if (source.chunks) return source.chunks.reduce((sum, chunk) => sum + estimateTokens(chunk.text), 0);
+  if (!source.file) return 0;
+  return estimateFileTokens(source.file.mimeType, base64ByteLength(source.file.data));
+};
+
+export interface ContextEstimate {
+  includedCount: number;
+  sizeBytes: number;
+  tokens: number;
+}
+
+export const estimateContext = (sources: ReferenceSource[]): ContextEstimate => {
+  const included = sources.filter(isSourceIncluded);
+  const retrievableTokens = included.filter(isRetrievable).reduce((sum, s) => sum + estimateSourceTokens(s), 0);
+  const inlineTokens = included.filter(s => !isRetrievable(s)).reduce((sum, s) => sum + estimateSourceTokens(s), 0);
+  return {
+    includedCount: included.length,
+    sizeBytes: included.reduce((sum, s) => sum + (s.sizeBytes || 0), 0),
+    tokens: inlineTokens + Math.min(retrievableTokens, RETRIEVAL_TOKEN_BUDGET),
+  };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
@@ -3,83 +3,291 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { FileAttachment } from '../types';
+import { FileAttachment, ChatSession, ChatMessage, DocumentChunk, Obligation, SystemProfile, Milestone, UrlSnapshot, UsageRecord } from '../types';
 
 const DB_NAME = 'AIRegulatoryNavigatorDB';
 const STORE_NAME = 'files';
-const DB_VERSION = 1;
+const SESSION_STORE_NAME = 'sessions';
+const CHUNK_STORE_NAME = 'chunks';
+const OBLIGATION_STORE_NAME = 'obligations';
+const SYSTEM_PROFILE_STORE_NAME = 'systemProfiles';
+const MILESTONE_STORE_NAME = 'milestones';
+const URL_SNAPSHOT_STORE_NAME = 'urlSnapshots';
+const USAGE_STORE_NAME = 'usageRecords';
+// v1: files, v2: sessions, v3: chunks, v4: obligations, v5: system profiles, v6: milestones, v7: URL snapshots, v8: usage records
+const DB_VERSION = 8;
 
 export interface StoredFile extends FileAttachment {
   id: string;
   date: Date;
 }
 
-export const initDB = (): Promise<void> => {
+const upgradeDB = (event: IDBVersionChangeEvent) => {
+  const db = (event.target as IDBOpenDBRequest).result;
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(SESSION_STORE_NAME)) {
+    db.createObjectStore(SESSION_STORE_NAME, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+    const chunkStore = db.createObjectStore(CHUNK_STORE_NAME, { keyPath: 'id' });
+    chunkStore.createIndex('sourceId', 'sourceId');
+  }
+  if (!db.objectStoreNames.contains(OBLIGATION_STORE_NAME)) {
+    const obligationStore = db.createObjectStore(OBLIGATION_STORE_NAME, { keyPath: 'id' });
+    obligationStore.createIndex('sourceId', 'sourceId');
+  }
+  if (!db.objectStoreNames.contains(SYSTEM_PROFILE_STORE_NAME)) {
+    db.createObjectStore(SYSTEM_PROFILE_STORE_NAME, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(MILESTONE_STORE_NAME)) {
+    const milestoneStore = db.createObjectStore(MILESTONE_STORE_NAME, { keyPath: 'id' });
+    milestoneStore.createIndex('sourceId', 'sourceId');
+  }
+  if (!db.objectStoreNames.contains(URL_SNAPSHOT_STORE_NAME)) {
+    const snapshotStore = db.createObjectStore(URL_SNAPSHOT_STORE_NAME, { keyPath: 'id' });
+    snapshotStore.createIndex('sourceId', 'sourceId');
+  }
+  if (!db.objectStoreNames.contains(USAGE_STORE_NAME)) {
+    db.createObjectStore(USAGE_STORE_NAME, { keyPath: 'id' });
+  }
+};
+
+const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
-    };
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = upgradeDB;
   });
 };
 
-export const saveFileToDB = (file: StoredFile): Promise<void> => {
+const putRecord = async <T>(storeName: string, record: T): Promise<void> => {
+  const db = await openDB();
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onsuccess = () => {
-      const db = request.result;
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      store.put(file);
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(record);
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
     };
+    tx.onerror = () => reject(tx.error);
   });
 };
 
-export const getAllFilesFromDB = (): Promise<StoredFile[]> => {
+const getRecord = async <T>(storeName: string, id: string): Promise<T | undefined> => {
+  const db = await openDB();
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onsuccess = () => {
-      const db = request.result;
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const getAll = store.getAll();
-      getAll.onsuccess = () => resolve(getAll.result);
-      getAll.onerror = () => reject(getAll.error);
+    const tx = db.transaction(storeName, 'readonly');
+    tx.oncomplete = () => db.close();
+    const getReq = tx.objectStore(storeName).get(id);
+    getReq.onsuccess = () => resolve(getReq.result);
+    getReq.onerror = () => reject(getReq.error);
+  });
+};
+
+const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readonly');
+    tx.oncomplete = () => db.close();
+    const getAll = tx.objectStore(storeName).getAll();
+    getAll.onsuccess = () => resolve(getAll.result);
+    getAll.onerror = () => reject(getAll.error);
+  });
+};
+
+const deleteRecord = async (storeName: string, id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).delete(id);
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
     };
+    tx.onerror = () => reject(tx.error);
   });
 };
 
-export const getFileFromDB = (id: string): Promise<StoredFile | undefined> => {
+const putRecords = async <T>(storeName: string, records: T[]): Promise<void> => {
+  const db = await openDB();
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onsuccess = () => {
-      const db = request.result;
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const getReq = store.get(id);
-      getReq.onsuccess = () => resolve(getReq.result);
-      getReq.onerror = () => reject(getReq.error);
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    records.forEach(record => store.put(record));
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
     };
+    tx.onerror = () => reject(tx.error);
   });
 };
 
-export const deleteFileFromDB = (id: string): Promise<void> => {
+const getRecordsByIndex = async <T>(storeName: string, indexName: string, key: string): Promise<T[]> => {
+  const db = await openDB();
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onsuccess = () => {
-      const db = request.result;
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      store.delete(id);
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
+    const tx = db.transaction(storeName, 'readonly');
+    tx.oncomplete = () => db.close();
+    const getAll = tx.objectStore(storeName).index(indexName).getAll(key);
+    getAll.onsuccess = () => resolve(getAll.result);
+    getAll.onerror = () => reject(getAll.error);
+  });
+};
+
+const deleteRecordsByIndex = async (storeName: string, indexName: string, key: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const keysReq = tx.objectStore(storeName).index(indexName).getAllKeys(key);
+    keysReq.onsuccess = () => {
+      keysReq.result.forEach(recordKey => tx.objectStore(storeName).delete(recordKey));
     };
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
   });
 };
+
+export const initDB = async (): Promise<void> => {
+  const db = await openDB();
+  db.close();
+};
+
+export const saveFileToDB = (file: StoredFile): Promise<void> => putRecord(STORE_NAME, file);
+
+export const getAllFilesFromDB = (): Promise<StoredFile[]> => getAllRecords<StoredFile>(STORE_NAME);
+
+export const getFileFromDB = (id: string): Promise<StoredFile | undefined> => getRecord<StoredFile>(STORE_NAME, id);
+
+export const deleteFileFromDB = (id: string): Promise<void> => deleteRecord(STORE_NAME, id);
+
+// Sessions
+
+// Dates may come back as strings (e.g. from older exports), so always rebuild them.
+const reviveMessage = (message: ChatMessage): ChatMessage => ({
+  ...message,
+  timestamp: new Date(message.timestamp),
+  isLoading: false,
+  isStreaming: false,
+});
+
+const reviveSession = (session: ChatSession): ChatSession => ({
+  ...session,
+  createdAt: new Date(session.createdAt),
+  updatedAt: new Date(session.updatedAt),
+  // A reply that was still pending when the page closed has nothing worth restoring.
+  messages: session.messages.filter(m => !(m.isLoading && !m.text)).map(reviveMessage),
+});
+
+export const saveSessionToDB = (session: ChatSession): Promise<void> => putRecord(SESSION_STORE_NAME, session);
+
+export const getAllSessionsFromDB = async (): Promise<ChatSession[]> => {
+  const sessions = await getAllRecords<ChatSession>(SESSION_STORE_NAME);
+  return sessions
+    .map(reviveSession)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const deleteSessionFromDB = (id: string): Promise<void> => deleteRecord(SESSION_STORE_NAME, id);
+
+// Chunks
+
+export const saveChunksToDB = (chunks: DocumentChunk[]): Promise<void> => putRecords(CHUNK_STORE_NAME, chunks);
+
+export const getChunksForSourceFromDB = (sourceId: string): Promise<DocumentChunk[]> =>
+  getRecordsByIndex<DocumentChunk>(CHUNK_STORE_NAME, 'sourceId', sourceId);
+
+export const deleteChunksForSourceFromDB = (sourceId: string): Promise<void> =>
+  deleteRecordsByIndex(CHUNK_STORE_NAME, 'sourceId', sourceId);
+
+// Obligations
+
+const reviveObligation = (obligation: Obligation): Obligation => ({
+  ...obligation,
+  extractedAt: new Date(obligation.extractedAt),
+  updatedAt: new Date(obligation.updatedAt),
+});
+
+export const saveObligationsToDB = (obligations: Obligation[]): Promise<void> => putRecords(OBLIGATION_STORE_NAME, obligations);
+
+export const getAllObligationsFromDB = async (): Promise<Obligation[]> =>
+  (await getAllRecords<Obligation>(OBLIGATION_STORE_NAME)).map(reviveObligation);
+
+export const getObligationsForSourceFromDB = async (sourceId: string): Promise<Obligation[]> =>
+  (await getRecordsByIndex<Obligation>(OBLIGATION_STORE_NAME, 'sourceId', sourceId)).map(reviveObligation);
+
+export const deleteObligationsForSourceFromDB = (sourceId: string): Promise<void> =>
+  deleteRecordsByIndex(OBLIGATION_STORE_NAME, 'sourceId', sourceId);
+
+// System profiles
+
+const reviveSystemProfile = (profile: SystemProfile): SystemProfile => ({
+  ...profile,
+  createdAt: new Date(profile.createdAt),
+  updatedAt: new Date(profile.updatedAt),
+  classification: profile.classification && {
+    ...profile.classification,
+    evaluatedAt: new Date(profile.classification.evaluatedAt),
+  },
+});
+
+export const saveSystemProfileToDB = (profile: SystemProfile): Promise<void> => putRecord(SYSTEM_PROFILE_STORE_NAME, profile);
+
+export const getAllSystemProfilesFromDB = async (): Promise<SystemProfile[]> => {
+  const profiles = await getAllRecords<SystemProfile>(SYSTEM_PROFILE_STORE_NAME);
+  return profiles
+    .map(reviveSystemProfile)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const deleteSystemProfileFromDB = (id: string): Promise<void> => deleteRecord(SYSTEM_PROFILE_STORE_NAME, id);
+
+// Milestones
+
+const reviveMilestone = (milestone: Milestone): Milestone => ({
+  ...milestone,
+  extractedAt: new Date(milestone.extractedAt),
+  updatedAt: new Date(milestone.updatedAt),
+});
+
+export const saveMilestonesToDB = (milestones: Milestone[]): Promise<void> => putRecords(MILESTONE_STORE_NAME, milestones);
+
+export const getAllMilestonesFromDB = async (): Promise<Milestone[]> =>
+  (await getAllRecords<Milestone>(MILESTONE_STORE_NAME)).map(reviveMilestone);
+
+export const getMilestonesForSourceFromDB = async (sourceId: string): Promise<Milestone[]> =>
+  (await getRecordsByIndex<Milestone>(MILESTONE_STORE_NAME, 'sourceId', sourceId)).map(reviveMilestone);
+
+export const deleteMilestoneFromDB = (id: string): Promise<void> => deleteRecord(MILESTONE_STORE_NAME, id);
+
+export const deleteMilestonesForSourceFromDB = (sourceId: string): Promise<void> =>
+  deleteRecordsByIndex(MILESTONE_STORE_NAME, 'sourceId', sourceId);
+
+// URL snapshots
+
+export const saveUrlSnapshotToDB = (snapshot: UrlSnapshot): Promise<void> => putRecord(URL_SNAPSHOT_STORE_NAME, snapshot);
+
+export const getUrlSnapshotFromDB = async (id: string): Promise<UrlSnapshot | undefined> => {
+  const snapshot = await getRecord<UrlSnapshot>(URL_SNAPSHOT_STORE_NAME, id);
+  return snapshot && { ...snapshot, fetchedAt: new Date(snapshot.fetchedAt) };
+};
+
+export const deleteUrlSnapshotFromDB = (id: string): Promise<void> => deleteRecord(URL_SNAPSHOT_STORE_NAME, id);
+
+export const deleteUrlSnapshotsForSourceFromDB = (sourceId: string): Promise<void> =>
+  deleteRecordsByIndex(URL_SNAPSHOT_STORE_NAME, 'sourceId', sourceId);
+
+// Usage records
+
+export const saveUsageRecordToDB = (record: UsageRecord): Promise<void> => putRecord(USAGE_STORE_NAME, record);
+
+export const getAllUsageRecordsFromDB = async (): Promise<UsageRecord[]> => {
+  const records = await getAllRecords<UsageRecord>(USAGE_STORE_NAME);
+  return records
+    .map(record => ({ ...record, timestamp: new Date(record.timestamp) }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
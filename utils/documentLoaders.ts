@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import mammoth from 'mammoth';
+import { FileAttachment } from '../types';
+import { extractPdfPages } from './pdfText';
+import { base64ToBytes, base64ToText, textToBase64 } from './encoding';
+
+export type DocumentKind = 'pdf' | 'docx' | 'html' | 'markdown' | 'text';
+
+export interface DocumentLoader {
+  kind: DocumentKind;
+  // Shown in the library, e.g. "PDF Document"
+  label: string;
+  mimeTypes: string[];
+  extensions: string[];
+  // Whether Gemini accepts the original bytes as inlineData
+  sendsInline: boolean;
+  // Extracted text, one entry per page (formats without pages return one entry)
+  extractPages: (base64: string) => Promise<string[]>;
+}
+
+const BLOCK_ELEMENTS = 'p, div, section, article, li, tr, h1, h2, h3, h4, h5, h6, pre, blockquote, br, table, header, footer';
+
+/**
+ * Converts an HTML document to plain text, keeping block boundaries as line
+ * breaks so article and section headings stay on their own lines.
+ */
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, nav, iframe, svg, template').forEach(el => el.remove());
+  doc.querySelectorAll(BLOCK_ELEMENTS).forEach(el => el.append('\n'));
+  return (doc.body?.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const toArrayBuffer = (base64: string): ArrayBuffer => {
+  const bytes = base64ToBytes(base64);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+// Plain-text drafts sometimes carry form feeds as page breaks.
+const splitOnFormFeeds = (text: string): string[] => text.split('\f');
+
+const LOADERS: DocumentLoader[] = [
+  {
+    kind: 'pdf',
+    label: 'PDF Document',
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+    sendsInline: true,
+    extractPages: extractPdfPages,
+  },
+  {
+    kind: 'docx',
+    label: 'Word Document',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['docx'],
+    sendsInline: false,
+    extractPages: async (base64) => {
+      const result = await mammoth.extractRawText({ arrayBuffer: toArrayBuffer(base64) });
+      return [result.value];
+    },
+  },
+  {
+    kind: 'html',
+    label: 'Web Page (HTML)',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['html', 'htm', 'xhtml'],
+    sendsInline: false,
+    extractPages: async (base64) => [htmlToText(base64ToText(base64))],
+  },
+  {
+    kind: 'markdown',
+    label: 'Markdown Document',
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['md', 'markdown'],
+    sendsInline: false,
+    extractPages: async (base64) => splitOnFormFeeds(base64ToText(base64)),
+  },
+  {
+    kind: 'text',
+    label: 'Text Document',
+    mimeTypes: ['text/plain'],
+    extensions: ['txt'],
+    sendsInline: false,
+    extractPages: async (base64) => splitOnFormFeeds(base64ToText(base64)),
+  },
+];
+
+export const SUPPORTED_DOCUMENT_ACCEPT = LOADERS
+  .flatMap(loader => [...loader.mimeTypes, ...loader.extensions.map(ext => `.${ext}`)])
+  .join(',');
+
+export const SUPPORTED_DOCUMENT_LABEL = 'PDF, DOCX, HTML, Markdown or plain text';
+
+const extensionOf = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() || '';
+
+/**
+ * Finds the loader for a file by MIME type, falling back to the extension
+ * because browsers often report an empty type for .md and similar files.
+ */
+export const findDocumentLoader = (file: { name?: string; mimeType?: string }): DocumentLoader | undefined => {
+  const byMimeType = file.mimeType ? LOADERS.find(l => l.mimeTypes.includes(file.mimeType!)) : undefined;
+  if (byMimeType) return byMimeType;
+  const extension = file.name ? extensionOf(file.name) : '';
+  return extension ? LOADERS.find(l => l.extensions.includes(extension)) : undefined;
+};
+
+export class UnsupportedDocumentError extends Error {
+  constructor(fileName: string) {
+    super(`"${fileName}" is not a supported document type. Supported formats: ${SUPPORTED_DOCUMENT_LABEL}.`);
+    this.name = 'UnsupportedDocumentError';
+  }
+}
+
+/**
+ * Normalises a one-off chat attachment into something Gemini understands:
+ * PDFs are passed through, every other format is sent as extracted plain text.
+ */
+export const toModelAttachment = async (attachment: FileAttachment): Promise<FileAttachment> => {
+  const loader = findDocumentLoader({ name: attachment.name, mimeType: attachment.mimeType });
+  if (!loader) throw new UnsupportedDocumentError(attachment.name);
+  if (loader.sendsInline) return { ...attachment, mimeType: loader.mimeTypes[0] };
+  const pages = await loader.extractPages(attachment.data);
+  return { name: attachment.name, mimeType: 'text/plain', data: textToBase64(pages.join('\n\n')) };
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const toFileSlug = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'export';
+
+const escapeCsvField = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serialises rows as RFC 4180 CSV. The BOM makes Excel read it as UTF-8.
+ */
+export const toCsvBlob = (rows: string[][]): Blob =>
+  new Blob(['\uFEFF' + rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n')], { type: 'text/csv;charset=utf-8' });
+
+export interface CalendarEvent {
+  uid: string;
+  // All-day event on this YYYY-MM-DD date
+  date: string;
+  summary: string;
+  description: string;
+}
+
+const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space.
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string): string => date.replace(/-/g, '');
+
+const nextIcsDate = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+/**
+ * Serialises all-day events as an iCalendar file that Outlook, Google Calendar
+ * and Apple Calendar can import.
+ */
+export const toIcsBlob = (events: CalendarEvent[], calendarName: string): Blob => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Regulatory Navigator//Timeline//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${nextIcsDate(event.date)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      `DESCRIPTION:${escapeIcsText(event.description)}`,
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return new Blob([lines.map(foldIcsLine).join('\r\n') + '\r\n'], { type: 'text/calendar;charset=utf-8' });
+};
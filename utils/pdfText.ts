@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { base64ToBytes } from './encoding';
+
+// Bundled from the installed package, so it always matches the library version and works offline.
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+/**
+ * Extracts the text layer of a PDF, one string per page (index 0 = page 1).
+ * Line breaks from the PDF are preserved so headings can be detected.
+ */
+export const extractPdfPages = async (base64: string): Promise<string[]> => {
+  const pdf = await getDocument({ data: base64ToBytes(base64) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      let text = '';
+      content.items.forEach(item => {
+        if (!('str' in item)) return;
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+      });
+      pages.push(text);
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
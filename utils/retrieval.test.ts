@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DocumentChunk } from '../types';
+import { rankChunks, selectRelevantChunks, tokenize } from './retrieval';
+
+const chunk = (id: string, text: string, heading?: string): DocumentChunk => ({
+  id, sourceId: 'act', page: 1, heading, text,
+});
+
+const CHUNKS = [
+  chunk('a', 'Providers of general-purpose AI models shall draw up technical documentation.', 'Article 53'),
+  chunk('b', 'Deployers of high-risk AI systems shall monitor the operation of the system.', 'Article 26'),
+  chunk('c', 'Member States shall lay down rules on penalties and fines.', 'Article 99'),
+];
+
+describe('tokenize', () => {
+  it('lower-cases and drops stopwords and single characters', () => {
+    expect(tokenize('What are the Penalties for a provider?')).toEqual(['penalties', 'provider']);
+  });
+});
+
+describe('rankChunks', () => {
+  it('ranks chunks containing the query terms first and drops the rest', () => {
+    const ranked = rankChunks('penalties and fines', CHUNKS);
+
+    expect(ranked.map(r => r.chunk.id)).toEqual(['c']);
+  });
+
+  it('boosts chunks under an article the question names', () => {
+    const ranked = rankChunks('What does Article 26 require of deployers and providers?', CHUNKS);
+
+    expect(ranked[0].chunk.id).toBe('b');
+  });
+
+  it('returns nothing for a query of stopwords only', () => {
+    expect(rankChunks('what is the', CHUNKS)).toEqual([]);
+  });
+});
+
+describe('selectRelevantChunks', () => {
+  it('keeps to the token budget and returns chunks in document order', () => {
+    const selected = selectRelevantChunks('shall providers deployers penalties', CHUNKS, { tokenBudget: 40 });
+
+    expect(selected.length).toBeLessThan(CHUNKS.length);
+    const order = selected.map(c => CHUNKS.indexOf(c));
+    expect(order).toEqual([...order].sort((x, y) => x - y));
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DocumentChunk } from '../types';
+import { estimateTokens, RETRIEVAL_TOKEN_BUDGET } from './contextBudget';
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Extra weight for chunks under an article/annex/section the question names explicitly.
+const HEADING_MATCH_BOOST = 3;
+const DEFAULT_MAX_CHUNKS = 24;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'in', 'is', 'it', 'its', 'me', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'there',
+  'these', 'this', 'to', 'was', 'what', 'when', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+export interface RankedChunk {
+  chunk: DocumentChunk;
+  score: number;
+}
+
+export interface RetrievalOptions {
+  maxChunks?: number;
+  tokenBudget?: number;
+}
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9äöüßéèàç§]+/i)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term));
+
+// "Article 5", "Annex III", "Section 22757.12" mentioned in the question.
+const extractReferencedHeadings = (query: string): string[] => {
+  const matches = query.match(/\b(article|annex|section|sec\.|recital)\s+[0-9ivxlc]+[a-z]?(?:\.\d+)*/gi) || [];
+  return matches.map(m => m.toLowerCase().replace(/\s+/g, ' ').replace('sec.', 'section'));
+};
+
+/**
+ * Scores chunks against a query with BM25. Pure and deterministic, so it can
+ * be exercised without IndexedDB or a model client.
+ */
+export const rankChunks = (query: string, chunks: DocumentChunk[]): RankedChunk[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const referencedHeadings = extractReferencedHeadings(query);
+  if (chunks.length === 0 || (queryTerms.length === 0 && referencedHeadings.length === 0)) return [];
+
+  const documents = chunks.map(chunk => tokenize(`${chunk.heading || ''} ${chunk.text}`));
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(terms => {
+    new Set(terms).forEach(term => {
+      if (queryTerms.includes(term)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    });
+  });
+
+  return chunks
+    .map((chunk, index) => {
+      const terms = documents[index];
+      const termFrequency = new Map<string, number>();
+      terms.forEach(term => termFrequency.set(term, (termFrequency.get(term) || 0) + 1));
+
+      let score = 0;
+      queryTerms.forEach(term => {
+        const tf = termFrequency.get(term) || 0;
+        if (tf === 0) return;
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (terms.length / averageLength)));
+      });
+
+      const heading = (chunk.heading || '').toLowerCase();
+      if (heading && referencedHeadings.some(ref => heading === ref || heading.startsWith(`${ref} `))) {
+        score += HEADING_MATCH_BOOST;
+      }
+
+      return { chunk, score };
+    })
+    .filter(ranked => ranked.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Picks the most relevant chunks that fit the token budget, returned in
+ * document order (source, then page) so the model reads them coherently.
+ */
+export const selectRelevantChunks = (
+  query: string,
+  chunks: DocumentChunk[],
+  options: RetrievalOptions = {}
+): DocumentChunk[] => {
+  const maxChunks = options.maxChunks ?? DEFAULT_MAX_CHUNKS;
+  const tokenBudget = options.tokenBudget ?? RETRIEVAL_TOKEN_BUDGET;
+
+  const selected: DocumentChunk[] = [];
+  let used = 0;
+  for (const { chunk } of rankChunks(query, chunks)) {
+    if (selected.length >= maxChunks) break;
+    const cost = estimateTokens(chunk.text);
+    if (used + cost > tokenBudget) continue;
+    selected.push(chunk);
+    used += cost;
+  }
+
+  const order = new Map(chunks.map((chunk, index) => [chunk.id, index]));
+  return selected.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { diffSequences } from './textDiff';
+
+describe('diffSequences', () => {
+  it('returns a single equal run for identical sequences', () => {
+    expect(diffSequences(['a', 'b'], ['a', 'b'])).toEqual([{ type: 'equal', items: ['a', 'b'] }]);
+  });
+
+  it('groups removals and additions between unchanged runs', () => {
+    expect(diffSequences(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([
+      { type: 'equal', items: ['a'] },
+      { type: 'removed', items: ['b'] },
+      { type: 'added', items: ['x'] },
+      { type: 'equal', items: ['c', 'd'] },
+      { type: 'added', items: ['e'] },
+    ]);
+  });
+
+  it('handles empty sequences', () => {
+    expect(diffSequences([], ['a'])).toEqual([{ type: 'added', items: ['a'] }]);
+    expect(diffSequences(['a'], [])).toEqual([{ type: 'removed', items: ['a'] }]);
+  });
+
+  it('uses the given equality', () => {
+    const parts = diffSequences(['Article 5'], ['article 5'], (x, y) => x.toLowerCase() === y.toLowerCase());
+
+    expect(parts).toEqual([{ type: 'equal', items: ['Article 5'] }]);
+  });
+
+  it('gives up when the sequences differ by more than maxEdits', () => {
+    expect(diffSequences(['a', 'b', 'c'], ['x', 'y', 'z'], undefined, 2)).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type DiffPartType = 'equal' | 'removed' | 'added';
+
+// A run of consecutive items that are unchanged, only in the old sequence, or only in the new one.
+export interface DiffPart<T> {
+  type: DiffPartType;
+  items: T[];
+}
+
+type EditOp = 'equal' | 'removed' | 'added';
+
+const pushPart = <T>(parts: DiffPart<T>[], type: DiffPartType, item: T) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.items.push(item);
+  else parts.push({ type, items: [item] });
+};
+
+/**
+ * Myers' O(ND) difference algorithm. Returns the edit script between the two
+ * sequences as runs, or null when they differ by more than maxEdits items
+ * (the trace grows with the square of the edit distance).
+ */
+export const diffSequences = <T>(
+  a: T[],
+  b: T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y,
+  maxEdits = Infinity
+): DiffPart<T>[] | null => {
+  // Common prefix and suffix do not need the search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) suffix++;
+
+  const oldItems = a.slice(prefix, a.length - suffix);
+  const newItems = b.slice(prefix, b.length - suffix);
+  const n = oldItems.length;
+  const m = newItems.length;
+  const maxD = Math.min(n + m, maxEdits);
+
+  const offset = maxD + 1;
+  const v = new Int32Array(2 * maxD + 3);
+  // trace[d] holds v for diagonals -d..d after step d
+  const trace: Int32Array[] = [];
+  let editDistance = -1;
+
+  search:
+  for (let d = 0; d <= maxD; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]);
+      let x = down ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(oldItems[x], newItems[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        editDistance = d;
+        break search;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  if (editDistance < 0) return null;
+
+  // Walk the trace back from the end to recover the edits
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = editDistance; d > 0; d--) {
+    const previous = trace[d - 1];
+    const prevAt = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && prevAt(k - 1) < prevAt(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prevAt(prevK);
+    const prevY = prevX - prevK;
+    const startX = down ? prevX : prevX + 1;
+    const startY = down ? prevY + 1 : prevY;
+    while (x > startX && y > startY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    ops.push(down ? 'added' : 'removed');
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push('equal');
+    x--;
+    y--;
+  }
+  ops.reverse();
+
+  const parts: DiffPart<T>[] = [];
+  a.slice(0, prefix).forEach(item => pushPart(parts, 'equal', item));
+  let oldIndex = 0;
+  let newIndex = 0;
+  ops.forEach(op => {
+    if (op === 'equal') {
+      pushPart(parts, 'equal', oldItems[oldIndex++]);
+      newIndex++;
+    } else if (op === 'removed') {
+      pushPart(parts, 'removed', oldItems[oldIndex++]);
+    } else {
+      pushPart(parts, 'added', newItems[newIndex++]);
+    }
+  });
+  a.slice(a.length - suffix).forEach(item => pushPart(parts, 'equal', item));
+  return parts;
+};
+
+/**
+ * Word-level diff of two strings. Whitespace is kept as its own token so the
+ * parts can be joined back into the original text.
+ */
+export const diffWords = (oldText: string, newText: string, maxEdits = 400): DiffPart<string>[] => {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  return diffSequences(tokenize(oldText), tokenize(newText), undefined, maxEdits) || [
+    { type: 'removed', items: [oldText] },
+    { type: 'added', items: [newText] },
+  ];
+};
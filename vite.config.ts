@@ -2,17 +2,30 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Keys are only inlined for the dev server; built bundles reach Gemini through the API server.
+    // USE_API_SERVER=true tries that path locally as well.
+    const inlineKeys = command === 'serve' && env.USE_API_SERVER !== 'true';
+    const apiServer = `http://localhost:${env.API_SERVER_PORT || 8787}`;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': apiServer,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(inlineKeys ? env.GEMINI_API_KEY : undefined),
+        'process.env.API_SERVER_URL': JSON.stringify(env.API_SERVER_URL),
+        'process.env.FETCH_PROXY_URL': JSON.stringify(env.FETCH_PROXY_URL),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(inlineKeys ? env.OPENAI_API_KEY : undefined),
+        'process.env.MOCK_FIXTURES_URL': JSON.stringify(env.MOCK_FIXTURES_URL),
+        'process.env.RECORD_MODEL_FIXTURES': JSON.stringify(env.RECORD_MODEL_FIXTURES)
       },
       resolve: {
         alias: {